@@ -1,11 +1,51 @@
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import type { Candidate, FileStatus } from './types';
-import { parseResume, analyzeCandidateMatch } from './services/geminiService';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import type { Candidate, EditableField, EditableValue, FileStatus, JobRequirements, JobRequisition, InterviewKit, EmailTemplate, MatchAnalysisProgress, PipelineStage, SortConfig, TagDefinition } from './types';
+import { parseResume, analyzeCandidateMatches, extractJobRequirements, generateInterviewKit, writeOutreachNotes, MATCH_BATCH_SIZE } from './services/geminiService';
+import { loadProviderSettings, saveProviderSettings, PROVIDERS } from './services/providers';
+import type { MatchResult, ProviderSettings } from './services/aiProvider';
+import { createJobScheduler, isAbortError, loadSchedulerOptions, saveSchedulerOptions } from './services/jobScheduler';
+import type { SchedulerOptions } from './services/jobScheduler';
+import { hashFile, getUniqueFileName, findDuplicateCandidates } from './services/duplicateService';
+import { applyFieldEdit, getFieldLabel, getHumanVerifiedFields } from './services/candidateFields';
+import { flattenHistoryForExport } from './services/historyService';
+import { getAnnualAmount, loadFxTable, saveFxTable } from './services/compensationService';
+import type { FxTable } from './services/compensationService';
+import { getDaysUntilAvailable } from './services/noticePeriodService';
+import { EMPTY_FILTERS, applyFilters, filtersFromQueryString, filtersToQueryString, loadFilterPresets, saveFilterPresets } from './services/filterService';
+import type { CandidateFilters, FilterPreset } from './services/filterService';
+import { buildSkillIndex, canonicalizeSkills, getImpliedSkills, getUnknownSkills, loadSkillTaxonomy, saveSkillTaxonomy } from './services/skillTaxonomyService';
+import type { SkillDefinition } from './services/skillTaxonomyService';
+import { LEGACY_REQUISITION_ID, createRequisition, removeRequisitionMatch, withRequisitionMatch } from './services/requisitionService';
+import { addNote, ensureTagDefinitions, findTagDefinition, formatNotes, loadTagDefinitions, removeNote, renameCandidateTag, saveTagDefinitions, setRating, setTags } from './services/annotationService';
+import { getInterviewGaps, getInterviewKit, removeRequisitionKit, setInterviewKit } from './services/interviewKitService';
+import { getMatchingSkills, loadEmailTemplates, saveEmailTemplates } from './services/outreachService';
+import { SHORTLISTED_STAGE_ID, getPipelineStatus, getStageLabel, getStageOrder, loadPipelineStages, moveToStage, removeRequisitionPipeline, savePipelineStages, withPipelineStage } from './services/pipelineService';
+import { evaluateRequirements, hasRequirements } from './services/requirementsService';
+import { getMatchCacheKey, loadCachedMatch, pruneMatchCache, storeCachedMatch } from './services/matchCacheService';
+import { describeScoreBreakdown, loadScoringWeights, saveScoringWeights, withScoreBreakdown } from './services/scoringService';
+import type { ScoringWeights } from './services/scoringService';
+import { MAX_COMPARE, MIN_COMPARE, comparisonRowsToSheet } from './services/comparisonService';
+import type { ComparisonRow } from './services/comparisonService';
+import { buildSearchIndex, getSearchSnippets, parseSearchQuery, searchCandidates } from './services/searchService';
+import { loadWorkspace, saveCandidates, saveFileStatuses, saveFiles, getStoredFile, deleteStoredFiles, getOrphanedFileNames, saveMeta, deleteWorkspace } from './services/storageService';
 import FileUpload from './components/FileUpload';
 import CandidateTable from './components/CandidateTable';
 import ResumePreviewer from './components/ResumePreviewer';
 import JobAnalysisSection from './components/JobAnalysisSection';
+import AISettingsPanel from './components/AISettingsPanel';
+import MergeCandidatesDialog from './components/MergeCandidatesDialog';
+import ChangeHistoryDialog from './components/ChangeHistoryDialog';
+import CandidateDetailDrawer from './components/CandidateDetailDrawer';
+import FilterBuilder from './components/FilterBuilder';
+import SkillTaxonomyDialog from './components/SkillTaxonomyDialog';
+import ResumeSearchBox from './components/ResumeSearchBox';
+import CompareCandidatesDialog from './components/CompareCandidatesDialog';
+import PipelineBoard from './components/PipelineBoard';
+import PipelineStagesDialog from './components/PipelineStagesDialog';
+import TagsDialog from './components/TagsDialog';
+import InterviewKitDialog from './components/InterviewKitDialog';
+import OutreachDialog from './components/OutreachDialog';
 import { ExcelIcon, LogoIcon, TrashIcon, SunIcon, MoonIcon, CopyIcon, StarIcon } from './components/icons';
 
 // Declare XLSX to be available from the window object via CDN
@@ -14,26 +54,43 @@ declare const XLSX: any;
 export default function App() {
   const [candidates, setCandidates] = useState<Candidate[]>([]);
   const [fileStatuses, setFileStatuses] = useState<Map<string, FileStatus>>(new Map());
-  const [filters, setFilters] = useState({
-    designation: '',
-    noticePeriod: '',
-    currentLocation: '',
-    skills: '',
-  });
-  const [sortConfig, setSortConfig] = useState<{ key: keyof Candidate | null; direction: 'ascending' | 'descending' }>({
+  // A shared link's query string takes precedence over an empty filter set
+  const [filters, setFilters] = useState<CandidateFilters>(() => filtersFromQueryString(window.location.search) ?? EMPTY_FILTERS);
+  const [sortConfig, setSortConfig] = useState<SortConfig>({
     key: null,
     direction: 'ascending',
   });
   const [isCopied, setIsCopied] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isReviewingDuplicates, setIsReviewingDuplicates] = useState(false);
+  const [historyCandidateId, setHistoryCandidateId] = useState<string | null>(null);
+  const [detailCandidateId, setDetailCandidateId] = useState<string | null>(null);
 
   // File Processing Queue State
   const [fileQueue, setFileQueue] = useState<File[]>([]);
+  // Names of queued files already handed to the scheduler
+  const submittedFilesRef = useRef<Set<string>>(new Set());
+  // Lets a queued or running parse be cancelled from the upload list
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+  const [isQueuePaused, setIsQueuePaused] = useState(false);
+  const [uploadNotice, setUploadNotice] = useState<string | null>(null);
   const [currentFileForPreview, setCurrentFileForPreview] = useState<File | null>(null);
   const [isAutoParse, setIsAutoParse] = useState(false);
 
   // Job Analysis State
-  const [isAnalyzingJob, setIsAnalyzingJob] = useState(false);
+  const [requisitions, setRequisitions] = useState<JobRequisition[]>([]);
+  const [activeRequisitionId, setActiveRequisitionId] = useState<string | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<MatchAnalysisProgress | null>(null);
+  // Why the last match analysis failed for individual candidates, by candidate id
+  const [matchFailures, setMatchFailures] = useState<Map<string, string>>(new Map());
+  const [forceRescore, setForceRescore] = useState(false);
+  const [analysisSummary, setAnalysisSummary] = useState<string | null>(null);
+  const activeRequisition = requisitions.find(r => r.id === activeRequisitionId);
+  // Pipeline stages set before the first requisition is created are kept under the legacy id
+  const pipelineKey = activeRequisitionId ?? LEGACY_REQUISITION_ID;
+
+  // Workspace persistence: nothing is written back until the saved workspace has been restored
+  const [isHydrated, setIsHydrated] = useState(false);
 
   const [theme, setTheme] = useState(() => {
     if (typeof window !== 'undefined' && window.localStorage) {
@@ -55,110 +112,456 @@ export default function App() {
     localStorage.setItem('theme', theme);
   }, [theme]);
 
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+
+  useEffect(() => {
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  // One scheduler shared by parsing and matching so both count against the same limits
+  const [schedulerOptions, setSchedulerOptions] = useState<SchedulerOptions>(loadSchedulerOptions);
+  const [scheduler] = useState(() => createJobScheduler(schedulerOptions));
+  const [pendingJobKeys, setPendingJobKeys] = useState<string[]>([]);
+
+  useEffect(() => {
+    scheduler.setOptions(schedulerOptions);
+    saveSchedulerOptions(schedulerOptions);
+  }, [scheduler, schedulerOptions]);
+
+  useEffect(() => scheduler.subscribe(setPendingJobKeys), [scheduler]);
+
+  // One-off AI requests from the click until they settle. The scheduler only reports jobs
+  // still waiting to start, so it can't tell whether a request is already in flight.
+  const inFlightKeysRef = useRef(new Set<string>());
+  const [inFlightKeys, setInFlightKeys] = useState<Set<string>>(new Set());
+
+  const beginRequest = (key: string) => {
+    if (inFlightKeysRef.current.has(key)) return false;
+    inFlightKeysRef.current.add(key);
+    setInFlightKeys(new Set(inFlightKeysRef.current));
+    return true;
+  };
+
+  const endRequest = (key: string) => {
+    inFlightKeysRef.current.delete(key);
+    setInFlightKeys(new Set(inFlightKeysRef.current));
+  };
+
+  const [fxTable, setFxTable] = useState<FxTable>(loadFxTable);
+
+  useEffect(() => {
+    saveFxTable(fxTable);
+  }, [fxTable]);
+
+  const [scoringWeights, setScoringWeights] = useState<ScoringWeights>(loadScoringWeights);
+
+  useEffect(() => {
+    saveScoringWeights(scoringWeights);
+  }, [scoringWeights]);
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>(loadFilterPresets);
+
+  useEffect(() => {
+    saveFilterPresets(filterPresets);
+  }, [filterPresets]);
+
+  const [skillTaxonomy, setSkillTaxonomy] = useState<SkillDefinition[]>(loadSkillTaxonomy);
+  const skillIndex = useMemo(() => buildSkillIndex(skillTaxonomy), [skillTaxonomy]);
+  const [isEditingSkills, setIsEditingSkills] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isBoardVisible, setIsBoardVisible] = useState(false);
+  const [interviewKitCandidateId, setInterviewKitCandidateId] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveSkillTaxonomy(skillTaxonomy);
+  }, [skillTaxonomy]);
+
+  const [pipelineStages, setPipelineStages] = useState<PipelineStage[]>(loadPipelineStages);
+  const [isEditingStages, setIsEditingStages] = useState(false);
+
+  useEffect(() => {
+    savePipelineStages(pipelineStages);
+  }, [pipelineStages]);
+
+  const [tagDefinitions, setTagDefinitions] = useState<TagDefinition[]>(loadTagDefinitions);
+  const [isEditingTags, setIsEditingTags] = useState(false);
+
+  useEffect(() => {
+    saveTagDefinitions(tagDefinitions);
+  }, [tagDefinitions]);
+
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>(loadEmailTemplates);
+  const [isDraftingOutreach, setIsDraftingOutreach] = useState(false);
+
+  useEffect(() => {
+    saveEmailTemplates(emailTemplates);
+  }, [emailTemplates]);
+
+  // Keep the address bar in sync so the current view can be bookmarked or shared
+  useEffect(() => {
+    const url = `${window.location.pathname}${filtersToQueryString(filters)}${window.location.hash}`;
+    window.history.replaceState(null, '', url);
+  }, [filters]);
+
+  // Positions count parse jobs only; matching and other AI work share the queue but not the upload list
+  const fileQueuePositions = useMemo(() => {
+    const positions = new Map<string, number>();
+    pendingJobKeys
+        .filter(key => key.startsWith('parse:'))
+        .forEach((key, index) => positions.set(key.slice('parse:'.length), index + 1));
+    return positions;
+  }, [pendingJobKeys]);
+
   const toggleTheme = () => {
     setTheme(prevTheme => prevTheme === 'light' ? 'dark' : 'light');
   };
 
-  const handleFiles = useCallback((files: FileList) => {
+  // Restore the saved workspace on startup
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspace()
+      .then(snapshot => {
+        if (cancelled) return;
+        // Skills saved under an older dictionary are brought up to date
+        setCandidates(snapshot.candidates.map(c => ({ ...c, skills: canonicalizeSkills(c.skills ?? [], skillIndex) })));
+        setFileStatuses(snapshot.fileStatuses);
+        setFileQueue(snapshot.fileQueue);
+        setSelectedIds(snapshot.selectedIds);
+        setSortConfig(snapshot.sortConfig);
+        setRequisitions(snapshot.requisitions);
+        setActiveRequisitionId(snapshot.activeRequisitionId);
+      })
+      .catch(error => console.error("Failed to restore workspace:", error))
+      .finally(() => { if (!cancelled) setIsHydrated(true); });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveCandidates(candidates).catch(error => console.error("Failed to save candidates:", error));
+  }, [candidates, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveFileStatuses(fileStatuses).catch(error => console.error("Failed to save file statuses:", error));
+  }, [fileStatuses, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveMeta('fileQueue', fileQueue.map(f => f.name)).catch(error => console.error("Failed to save file queue:", error));
+  }, [fileQueue, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveMeta('selectedIds', Array.from(selectedIds)).catch(error => console.error("Failed to save selection:", error));
+  }, [selectedIds, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveMeta('sortConfig', sortConfig).catch(error => console.error("Failed to save sort order:", error));
+  }, [sortConfig, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveMeta('requisitions', requisitions).catch(error => console.error("Failed to save requisitions:", error));
+  }, [requisitions, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveMeta('activeRequisitionId', activeRequisitionId).catch(error => console.error("Failed to save active requisition:", error));
+  }, [activeRequisitionId, isHydrated]);
+
+  /**
+   * Replaces a file's status while keeping its content hash. Files that were removed from the
+   * list in the meantime are not brought back.
+   */
+  const updateFileStatus = useCallback((fileName: string, status: FileStatus) => {
+    setFileStatuses(prev => {
+        const existing = prev.get(fileName);
+        if (!existing) return prev;
+        return new Map(prev).set(fileName, { ...status, hash: existing.hash });
+    });
+  }, []);
+
+  const handleFiles = useCallback(async (files: FileList) => {
     if (!files || files.length === 0) return;
 
+    const incoming = Array.from(files);
+    let hashes: string[];
+    try {
+        hashes = await Promise.all(incoming.map(hashFile));
+    } catch (error) {
+        console.error("Failed to hash uploaded files:", error);
+        alert("Could not read the selected files. Please try again.");
+        return;
+    }
+
+    const nameByHash = new Map<string, string>();
+    fileStatuses.forEach((status, name) => { if (status.hash) nameByHash.set(status.hash, name); });
+    const takenNames = new Set<string>(fileStatuses.keys());
+
     const newFiles: File[] = [];
-    const currentFiles = new Map(fileStatuses);
-    for (const file of files) {
-      if (!currentFiles.has(file.name)) {
-        newFiles.push(file);
+    const newStatuses = new Map<string, FileStatus>();
+    let skippedDuplicates = 0;
+
+    incoming.forEach((file, index) => {
+      const hash = hashes[index];
+      const existingName = nameByHash.get(hash);
+      if (existingName) {
+        const existing = fileStatuses.get(existingName);
+        // The same content that previously failed or was cancelled is queued again under its old name
+        if (existing && (existing.status === 'error' || existing.status === 'cancelled') && !newStatuses.has(existingName)) {
+            newFiles.push(new File([file], existingName, { type: file.type, lastModified: file.lastModified }));
+            newStatuses.set(existingName, { status: 'queued', progress: 0, hash });
+        } else {
+            skippedDuplicates++;
+        }
+        return;
       }
+
+      // Different content under an already-used name gets a distinct name instead of being dropped
+      const uniqueName = getUniqueFileName(file.name, takenNames);
+      takenNames.add(uniqueName);
+      nameByHash.set(hash, uniqueName);
+      newFiles.push(uniqueName === file.name ? file : new File([file], uniqueName, { type: file.type, lastModified: file.lastModified }));
+      newStatuses.set(uniqueName, { status: 'queued', progress: 0, hash });
+    });
+
+    if (skippedDuplicates > 0) {
+        setUploadNotice(`Skipped ${skippedDuplicates} file(s) already uploaded in this workspace.`);
     }
-    setFileQueue(prev => [...prev, ...newFiles]);
+    if (newFiles.length === 0) return;
+    saveFiles(newFiles).catch(error => console.error("Failed to store uploaded files:", error));
+    setFileStatuses(prev => {
+        const updated = new Map(prev);
+        newStatuses.forEach((status, name) => updated.set(name, status));
+        return updated;
+    });
+    setFileQueue(prev => [...prev.filter(f => !newStatuses.has(f.name)), ...newFiles]);
   }, [fileStatuses]);
 
+  useEffect(() => {
+    if (!uploadNotice) return;
+    const timer = setTimeout(() => setUploadNotice(null), 5000);
+    return () => clearTimeout(timer);
+  }, [uploadNotice]);
+
   const processFile = useCallback(async (file: File, pages?: number[]) => {
-    setFileStatuses(prev => new Map(prev).set(file.name, { status: 'parsing', progress: 0 }));
+    const controller = new AbortController();
+    abortControllersRef.current.set(file.name, controller);
+    submittedFilesRef.current.add(file.name);
+    updateFileStatus(file.name, { status: 'queued', progress: 0 });
 
     const onProgress = (progress: number) => {
-        setFileStatuses(prev => new Map(prev).set(file.name, { status: 'parsing', progress }));
+        if (controller.signal.aborted) return;
+        updateFileStatus(file.name, { status: 'parsing', progress });
+    };
+
+    const onRetry = (attempt: number, delayMs: number, error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`Retrying ${file.name} in ${Math.round(delayMs / 1000)}s (attempt ${attempt + 1}):`, error);
+        updateFileStatus(file.name, { status: 'queued', progress: 0, retryAttempt: attempt, error: errorMessage });
     };
 
     try {
-        const result = await parseResume(file, pages, onProgress);
-        setCandidates(prev => [...prev, result]);
-        setFileStatuses(prev => new Map(prev).set(file.name, { status: 'success', progress: 100 }));
+        const result = await scheduler.schedule(`parse:${file.name}`, () => {
+            onProgress(0);
+            return parseResume(file, pages, onProgress, providerSettings, controller.signal);
+        }, { signal: controller.signal, onRetry });
+        setCandidates(prev => [...prev, { ...result, skills: canonicalizeSkills(result.skills ?? [], skillIndex) }]);
+        updateFileStatus(file.name, { status: 'success', progress: 100 });
     } catch (error) {
-        console.error(`Failed to parse ${file.name}:`, error);
-        setFileStatuses(prev => {
-            const updated = new Map(prev);
+        if (isAbortError(error) || controller.signal.aborted) {
+            updateFileStatus(file.name, { status: 'cancelled', progress: 0 });
+        } else {
+            console.error(`Failed to parse ${file.name}:`, error);
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            updated.set(file.name, { status: 'error', error: errorMessage, progress: 100 });
-            return updated;
-        });
-    } finally {
-        // If this file was the one currently in preview (mostly for manual mode), clear it
-        if (currentFileForPreview && currentFileForPreview.name === file.name) {
-            setCurrentFileForPreview(null);
+            updateFileStatus(file.name, { status: 'error', error: errorMessage, progress: 100 });
         }
+    } finally {
+        abortControllersRef.current.delete(file.name);
+        submittedFilesRef.current.delete(file.name);
         // Remove from queue
         setFileQueue(prev => prev.filter(f => f.name !== file.name));
     }
-  }, [currentFileForPreview]);
+  }, [scheduler, providerSettings, skillIndex, updateFileStatus]);
 
-  // Queue Manager
-  useEffect(() => {
-    // If queue is empty or we are already showing a preview (and not auto-parsing), do nothing
-    if (fileQueue.length === 0) return;
-    if (currentFileForPreview && !isAutoParse) return;
+  // Takes a file off the queue whether it is with the scheduler or still waiting for the
+  // previewer, which has no abort controller yet
+  const dropQueuedFile = (fileName: string) => {
+    abortControllersRef.current.get(fileName)?.abort();
+    setFileQueue(prev => prev.filter(f => f.name !== fileName));
+    setCurrentFileForPreview(prev => prev?.name === fileName ? null : prev);
+  };
+
+  const handleCancelFile = (fileName: string) => {
+    const isSubmitted = abortControllersRef.current.has(fileName);
+    dropQueuedFile(fileName);
+    // A submitted file is marked cancelled by processFile once its job rejects
+    if (!isSubmitted) updateFileStatus(fileName, { status: 'cancelled', progress: 0 });
+  };
+
+  const handleRemoveFile = (fileName: string) => {
+    dropQueuedFile(fileName);
+    deleteStoredFiles([fileName]).catch(error => console.error(`Failed to delete stored file ${fileName}:`, error));
+    setFileStatuses(prev => {
+        const updated = new Map(prev);
+        updated.delete(fileName);
+        return updated;
+    });
+  };
 
-    const nextFile = fileQueue[0];
+  const handleRetryFile = async (fileName: string) => {
+    const file = await getStoredFile(fileName);
+    if (!file) {
+        alert(`The original file for ${fileName} is no longer available. Please upload it again.`);
+        return;
+    }
+    updateFileStatus(fileName, { status: 'queued', progress: 0 });
+    setFileQueue(prev => prev.some(f => f.name === fileName) ? prev : [...prev, file]);
+  };
 
-    // Safety check if already processing
-    if (fileStatuses.has(nextFile.name) && fileStatuses.get(nextFile.name)?.status === 'parsing') {
-        return; // Already processing
+  const handleToggleQueuePause = () => {
+    if (isQueuePaused) {
+        scheduler.resume();
+    } else {
+        scheduler.pause();
     }
+    setIsQueuePaused(!isQueuePaused);
+  };
+
+  // Queue Manager: hands files to the scheduler (auto mode) or to the previewer (manual mode)
+  useEffect(() => {
+    const waitingFiles = fileQueue.filter(f => !submittedFilesRef.current.has(f.name));
+    if (waitingFiles.length === 0) return;
 
     if (isAutoParse) {
-        // In auto mode, process immediately (default to page 1 for PDFs handled in service)
-        processFile(nextFile);
-    } else {
-        // In manual mode, set for preview
-        if (!currentFileForPreview) {
-            setCurrentFileForPreview(nextFile);
-        }
+        // In auto mode, submit everything; the scheduler enforces concurrency and rate limits
+        waitingFiles.forEach(file => processFile(file));
+    } else if (!currentFileForPreview) {
+        // In manual mode, set the next file for preview
+        setCurrentFileForPreview(waitingFiles[0]);
     }
-  }, [fileQueue, currentFileForPreview, isAutoParse, fileStatuses, processFile]);
+  }, [fileQueue, currentFileForPreview, isAutoParse, processFile]);
 
 
   const handlePreviewConfirm = (options?: { pages?: number[] }) => {
     if (currentFileForPreview) {
         processFile(currentFileForPreview, options?.pages);
+        // Parsing continues in the background, so the next file can be previewed right away
+        setCurrentFileForPreview(null);
     }
   };
 
   const handlePreviewCancel = () => {
     if (currentFileForPreview) {
-        setFileQueue(prev => prev.slice(1)); // Remove from queue
+        const cancelledName = currentFileForPreview.name;
+        setFileQueue(prev => prev.filter(f => f.name !== cancelledName)); // Remove from queue
+        updateFileStatus(cancelledName, { status: 'cancelled', progress: 0 });
         setCurrentFileForPreview(null);
     }
   };
 
 
-  const handleClear = () => {
+  const handleDeleteWorkspace = async () => {
+    if (!window.confirm('Delete this workspace? All candidates, uploaded files and match results will be permanently removed.')) {
+        return;
+    }
+    try {
+        await deleteWorkspace();
+    } catch (error) {
+        console.error("Failed to clear stored workspace:", error);
+        alert("Could not clear saved data from this browser. Please try again.");
+        return;
+    }
+    abortControllersRef.current.forEach(controller => controller.abort());
     setCandidates([]);
     setFileStatuses(new Map());
     setFileQueue([]);
     setCurrentFileForPreview(null);
-    setFilters({ designation: '', noticePeriod: '', currentLocation: '', skills: '' });
+    setFilters(EMPTY_FILTERS);
+    setSearchQuery('');
     setSortConfig({ key: null, direction: 'ascending' });
     setSelectedIds(new Set());
+    setRequisitions([]);
+    setActiveRequisitionId(null);
+  };
+
+  // Stages set before any requisition existed are kept under the legacy id, so the first
+  // requisition takes that id and inherits them
+  const newRequisition = (title: string): JobRequisition => {
+    const requisition = createRequisition(title);
+    return requisitions.length === 0 ? { ...requisition, id: LEGACY_REQUISITION_ID } : requisition;
+  };
+
+  const handleCreateRequisition = () => {
+    const requisition = newRequisition(`Requisition ${requisitions.length + 1}`);
+    setRequisitions(prev => [...prev, requisition]);
+    setActiveRequisitionId(requisition.id);
+  };
+
+  const handleDeleteRequisition = (id: string) => {
+    const remaining = requisitions.filter(r => r.id !== id);
+    setRequisitions(remaining);
+    if (activeRequisitionId === id) setActiveRequisitionId(remaining[0]?.id ?? null);
+    setCandidates(prev => prev.map(c => removeRequisitionKit(removeRequisitionPipeline(removeRequisitionMatch(c, id), id), id)));
+  };
+
+  const updateActiveRequisition = (changes: Partial<Pick<JobRequisition, 'title' | 'jobDescription' | 'requirements'>>) => {
+    if (!activeRequisition) {
+      // Typing into the empty section starts the first requisition
+      const requisition = { ...newRequisition('Requisition 1'), ...changes };
+      setRequisitions(prev => [...prev, requisition]);
+      setActiveRequisitionId(requisition.id);
+      return;
+    }
+    setRequisitions(prev => prev.map(r => r.id === activeRequisition.id ? { ...r, ...changes } : r));
+  };
+
+  // Failures belong to the requisition they were analyzed against
+  useEffect(() => {
+    setMatchFailures(new Map());
+  }, [activeRequisitionId]);
+
+  const isExtractingRequirements = !!activeRequisition && inFlightKeys.has(`requirements:${activeRequisition.id}`);
+
+  const handleExtractRequirements = async () => {
+    if (!activeRequisition?.jobDescription.trim()) return;
+    const { id: requisitionId, jobDescription } = activeRequisition;
+    const requestKey = `requirements:${requisitionId}`;
+    if (!beginRequest(requestKey)) return;
+    try {
+        const extracted = await scheduler.schedule(
+            requestKey,
+            () => extractJobRequirements(jobDescription, providerSettings)
+        );
+        const requirements: JobRequirements = {
+            ...extracted,
+            mustHaveSkills: canonicalizeSkills(extracted.mustHaveSkills, skillIndex),
+            niceToHaveSkills: canonicalizeSkills(extracted.niceToHaveSkills, skillIndex),
+        };
+        // The recruiter may have switched requisitions while this ran
+        setRequisitions(prev => prev.map(r => r.id === requisitionId ? { ...r, requirements } : r));
+    } catch (error) {
+        if (isAbortError(error)) return;
+        console.error("Error extracting requirements:", error);
+        alert("Could not extract requirements from the job description.");
+    } finally {
+        endRequest(requestKey);
+    }
   };
 
   const handleCopy = () => {
     if (displayedCandidates.length === 0) return;
 
     const headers = [
-        "Candidate Full Name", "JD Match %", "Email Id", "Mobile Number", "Date of Birth", 
+        "Candidate Full Name", activeRequisition ? `JD Match % (${activeRequisition.title})` : "JD Match %", "Email Id", "Mobile Number", "Date of Birth", 
         "Current Company", "Designation in Current Company", "Total Experience", 
         "Relevant Experience", "Skills", "Current CTC", "Expected CTC", 
         "Notice Period", "Highest Qualification", "Education in/Branch/Field", 
-        "Current Location", "Uploaded CV/Resume"
+        "Current Location", "Uploaded CV/Resume", "Human-Verified Fields",
+        "Rating", "Tags", "Notes"
     ];
 
     const rows = displayedCandidates.map(c => [
@@ -166,7 +569,9 @@ export default function App() {
         c.currentCompany, c.designation, c.totalExperience,
         c.relevantExperience, (c.skills || []).join(', '), c.currentCTC, c.expectedCTC,
         c.noticePeriod, c.highestQualification, c.educationField,
-        c.currentLocation, c.fileName
+        c.currentLocation, [c.fileName, ...(c.mergedFileNames ?? [])].join(', '),
+        getHumanVerifiedFields(c).map(getFieldLabel).join(', '),
+        c.rating ?? '', (c.tags ?? []).join(', '), formatNotes(c.notes, ' | ')
     ]);
 
     const tsvContent = [
@@ -191,8 +596,8 @@ export default function App() {
     
     const columnHeaders = {
         fullName: "Candidate Full Name",
-        matchScore: "JD Match %",
-        matchReason: "JD Match Reason",
+        matchScore: activeRequisition ? `JD Match % (${activeRequisition.title})` : "JD Match %",
+        matchReason: activeRequisition ? `JD Match Reason (${activeRequisition.title})` : "JD Match Reason",
         email: "Email Id",
         mobile: "Mobile Number",
         dob: "Date of Birth",
@@ -207,9 +612,18 @@ export default function App() {
         highestQualification: "Highest Qualification",
         educationField: "Education in/Branch/Field",
         currentLocation: "Current Location",
-        fileName: "Uploaded CV/Resume"
+        fileName: "Uploaded CV/Resume",
+        aiProvider: "AI Provider",
+        aiModel: "AI Model",
+        extraction: "Extraction Method",
+        editHistory: "Human-Verified Fields"
     };
     
+    // Employment/education history is spread over numbered columns, as many as the longest history needs
+    const maxJobs = Math.max(0, ...displayedCandidates.map(c => c.employmentHistory?.length ?? 0));
+    const maxEducation = Math.max(0, ...displayedCandidates.map(c => c.educationHistory?.length ?? 0));
+    const roundAmount = (amount: number | null) => amount === null ? '' : Math.round(amount);
+
     const dataToExport = displayedCandidates.map(c => {
         const row: {[key: string]: any} = {};
         for (const key in columnHeaders) {
@@ -217,11 +631,32 @@ export default function App() {
             const headerKey = columnHeaders[candidateKey as keyof typeof columnHeaders];
             if (candidateKey === 'skills') {
                 row[headerKey] = (c.skills ?? []).join(', ');
+            } else if (candidateKey === 'fileName') {
+                row[headerKey] = [c.fileName, ...(c.mergedFileNames ?? [])].join(', ');
+            } else if (candidateKey === 'extraction') {
+                row[headerKey] = c.extraction?.method ?? '';
+            } else if (candidateKey === 'editHistory') {
+                row[headerKey] = getHumanVerifiedFields(c).map(getFieldLabel).join(', ');
             } else {
-                row[headerKey] = c[candidateKey as Exclude<keyof Candidate, 'skills'>];
+                row[headerKey] = c[candidateKey as Exclude<keyof Candidate, 'skills' | 'extraction' | 'editHistory'>];
             }
         }
-        return row;
+        row[`Current CTC (Annual ${fxTable.baseCurrency})`] = roundAmount(getAnnualAmount(c.currentCompensation, fxTable));
+        row[`Expected CTC (Annual ${fxTable.baseCurrency})`] = roundAmount(getAnnualAmount(c.expectedCompensation, fxTable));
+        row["Implied Skills"] = getImpliedSkills(c.skills ?? [], skillIndex).join(', ');
+        row["AI Match %"] = c.scoreBreakdown?.aiScore ?? '';
+        row["Match Score Breakdown"] = describeScoreBreakdown(c.scoreBreakdown);
+        const pipelineStatus = getPipelineStatus(c, pipelineKey);
+        row["Pipeline Stage"] = getStageLabel(c.pipelineStage, pipelineStages);
+        row["Stage Reason"] = pipelineStatus?.reason ?? '';
+        row["Stage Updated"] = pipelineStatus?.history[pipelineStatus.history.length - 1]?.changedAt ?? '';
+        row["Rating"] = c.rating ?? '';
+        row["Tags"] = (c.tags ?? []).join(', ');
+        row["Notes"] = formatNotes(c.notes);
+        row["Notice Period (Days)"] = c.notice?.days ?? '';
+        row["Last Working Day"] = c.notice?.lastWorkingDay ?? '';
+        row["Serving Notice"] = c.notice?.isServingNotice ? 'Yes' : '';
+        return { ...row, ...flattenHistoryForExport(c.employmentHistory, c.educationHistory, maxJobs, maxEducation) };
     });
 
     const worksheet = XLSX.utils.json_to_sheet(dataToExport);
@@ -230,79 +665,111 @@ export default function App() {
     XLSX.writeFile(workbook, 'CandidateData.xlsx');
   };
 
-  const parseCTC = (ctc: string): number => {
-      if (!ctc) return 0;
-      const lowerCtc = ctc.toLowerCase().replace(/[,₹$]/g, '');
-      let amount = 0;
-      const lakhMatch = lowerCtc.match(/(\d+\.?\d*)\s*(l|lpa|lakh)/);
-      const kMatch = lowerCtc.match(/(\d+\.?\d*)\s*k/);
+  const handleJobAnalysis = async () => {
+    if (candidates.length === 0 || !activeRequisition?.jobDescription.trim()) return;
+    const { id: requisitionId, jobDescription, requirements } = activeRequisition;
+    const progress: MatchAnalysisProgress = { total: candidates.length, done: 0, cached: 0, failed: 0, startedAt: Date.now() };
+    setAnalysisProgress({ ...progress });
+    setAnalysisSummary(null);
+    setMatchFailures(new Map());
 
-      if (lakhMatch) {
-          amount = parseFloat(lakhMatch[1]) * 100000;
-      } else if (kMatch) {
-          amount = parseFloat(kMatch[1]) * 1000;
-      } else {
-          const numMatch = lowerCtc.match(/(\d+\.?\d*)/);
-          if (numMatch) {
-              amount = parseFloat(numMatch[1]);
-          }
-      }
-      return amount;
-  };
+    // Results are written as each batch lands, merged by id so candidates parsed meanwhile are kept
+    const applyResults = (results: Map<string, MatchResult>) => {
+        if (results.size === 0) return;
+        const analyzedAt = new Date().toISOString();
+        setCandidates(prev => prev.map(c => {
+            const result = results.get(c.id);
+            if (!result) return c;
+            const match = { matchScore: result.matchScore, matchReason: result.matchReason, analyzedAt };
+            return { ...c, matchResults: { ...c.matchResults, [requisitionId]: match } };
+        }));
+    };
+    const markFailed = (ids: string[], message: string) => {
+        if (ids.length === 0) return;
+        setMatchFailures(prev => new Map([...prev, ...ids.map(id => [id, message] as [string, string])]));
+    };
 
-  const handleJobAnalysis = async (jobDescription: string) => {
-    if (candidates.length === 0) return;
-    setIsAnalyzingJob(true);
-    
     try {
-        // Analyze all candidates in parallel
-        const analysisPromises = candidates.map(async (candidate) => {
-            const result = await analyzeCandidateMatch(candidate, jobDescription);
-            return {
-                ...candidate,
-                matchScore: result.matchScore,
-                matchReason: result.matchReason
-            };
-        });
-
-        const analyzedCandidates = await Promise.all(analysisPromises);
-        setCandidates(analyzedCandidates);
-        
+        // Unchanged candidates are answered from the cache
+        const cacheKeys = new Map<string, string>();
+        const cachedResults = new Map<string, MatchResult>();
+        await Promise.all(candidates.map(async candidate => {
+            const cacheKey = await getMatchCacheKey(candidate, jobDescription, requirements, skillIndex, providerSettings);
+            cacheKeys.set(candidate.id, cacheKey);
+            const cached = forceRescore ? undefined : await loadCachedMatch(cacheKey);
+            if (cached) cachedResults.set(candidate.id, cached);
+        }));
+        applyResults(cachedResults);
+        progress.cached = progress.done = cachedResults.size;
+        setAnalysisProgress({ ...progress });
+
+        // The rest are scored several per request through the shared scheduler
+        const pending = candidates.filter(c => !cachedResults.has(c.id));
+        const batches: Candidate[][] = [];
+        for (let i = 0; i < pending.length; i += MATCH_BATCH_SIZE) batches.push(pending.slice(i, i + MATCH_BATCH_SIZE));
+
+        await Promise.all(batches.map(async (batch, index) => {
+            const ids = batch.map(c => c.id);
+            try {
+                const results = await scheduler.schedule(
+                    `match:${requisitionId}:${index}`,
+                    () => analyzeCandidateMatches(batch, jobDescription, requirements, skillIndex, providerSettings)
+                );
+                applyResults(results);
+                await Promise.all(Array.from(results, ([id, result]) => storeCachedMatch(cacheKeys.get(id)!, result)));
+                const missing = ids.filter(id => !results.has(id));
+                markFailed(missing, 'No result was returned for this candidate.');
+                progress.failed += missing.length;
+            } catch (error) {
+                console.error(`Failed to analyze batch ${index + 1}:`, error);
+                markFailed(ids, error instanceof Error ? error.message : String(error));
+                progress.failed += ids.length;
+            }
+            progress.done += ids.length;
+            setAnalysisProgress({ ...progress });
+        }));
+
+        // In the background; this run's results are the newest, so they are kept
+        pruneMatchCache();
+
         // Auto-sort by match score descending after analysis
         setSortConfig({ key: 'matchScore', direction: 'descending' });
+        const scoredCount = progress.done - progress.cached - progress.failed;
+        setAnalysisSummary([
+            `${scoredCount} scored`,
+            progress.cached > 0 ? `${progress.cached} unchanged from cache` : '',
+            progress.failed > 0 ? `${progress.failed} failed` : '',
+        ].filter(Boolean).join(', '));
 
     } catch (error) {
         console.error("Error during job analysis:", error);
         alert("An error occurred while analyzing candidates against the job description.");
     } finally {
-        setIsAnalyzingJob(false);
+        setAnalysisProgress(null);
     }
   };
 
-  const displayedCandidates = useMemo(() => {
-    let filteredCandidates = [...candidates];
+  // Match % combines the active requisition's AI result with the weighted sub-scores;
+  // the pipeline stage is also the active requisition's
+  const activeRequirements = activeRequisition?.requirements;
+  const matchedCandidates = useMemo(() => {
+    return candidates.map(c => withPipelineStage(withScoreBreakdown(
+      withRequisitionMatch(c, activeRequisitionId), activeRequirements, scoringWeights, fxTable, skillIndex
+    ), pipelineKey, pipelineStages));
+  }, [candidates, activeRequisitionId, activeRequirements, scoringWeights, fxTable, skillIndex, pipelineKey, pipelineStages]);
 
-    if (filters.designation) {
-      filteredCandidates = filteredCandidates.filter(c =>
-        c.designation.toLowerCase().includes(filters.designation.toLowerCase())
-      );
-    }
-    if (filters.noticePeriod) {
-      filteredCandidates = filteredCandidates.filter(c =>
-        c.noticePeriod.toLowerCase().includes(filters.noticePeriod.toLowerCase())
-      );
-    }
-     if (filters.currentLocation) {
-      filteredCandidates = filteredCandidates.filter(c =>
-        c.currentLocation.toLowerCase().includes(filters.currentLocation.toLowerCase())
-      );
-    }
-    if (filters.skills) {
-      filteredCandidates = filteredCandidates.filter(c =>
-        c.skills && c.skills.some(skill => 
-            skill.toLowerCase().includes(filters.skills.toLowerCase())
-        )
-      );
+  // The index is only built while a search is active
+  const isSearching = searchQuery.trim() !== '';
+  const searchIndex = useMemo(() => isSearching ? buildSearchIndex(candidates) : null, [candidates, isSearching]);
+  const parsedSearch = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const searchMatches = useMemo(() => {
+    return searchIndex && parsedSearch.query ? searchCandidates(searchIndex, parsedSearch.query) : null;
+  }, [searchIndex, parsedSearch]);
+
+  const displayedCandidates = useMemo(() => {
+    let filteredCandidates = applyFilters(matchedCandidates, filters, fxTable, skillIndex);
+    if (searchMatches) {
+      filteredCandidates = filteredCandidates.filter(c => searchMatches.has(c.id));
     }
 
     if (sortConfig.key) {
@@ -319,7 +786,16 @@ export default function App() {
         } else if (sortConfig.key === 'totalExperience' || sortConfig.key === 'relevantExperience') {
             comparison = (aVal as number) - (bVal as number);
         } else if (sortConfig.key === 'currentCTC' || sortConfig.key === 'expectedCTC') {
-            comparison = parseCTC(aVal as string) - parseCTC(bVal as string);
+            // Compare normalized annual amounts in the base currency; unparseable CTCs sort lowest
+            const compensationKey = sortConfig.key === 'currentCTC' ? 'currentCompensation' : 'expectedCompensation';
+            comparison = (getAnnualAmount(a[compensationKey], fxTable) ?? -1) - (getAnnualAmount(b[compensationKey], fxTable) ?? -1);
+        } else if (sortConfig.key === 'pipelineStage') {
+            comparison = getStageOrder(a.pipelineStage, pipelineStages) - getStageOrder(b.pipelineStage, pipelineStages);
+        } else if (sortConfig.key === 'noticePeriod') {
+            // Sort by days until the candidate can join; unknown notice periods go last
+            const aDays = getDaysUntilAvailable(a.notice) ?? Number.MAX_SAFE_INTEGER;
+            const bDays = getDaysUntilAvailable(b.notice) ?? Number.MAX_SAFE_INTEGER;
+            comparison = aDays - bDays;
         } else if (typeof aVal === 'string' && typeof bVal === 'string') {
             comparison = aVal.toLowerCase().localeCompare(bVal.toLowerCase());
         } else {
@@ -331,12 +807,18 @@ export default function App() {
     }
 
     return filteredCandidates;
-  }, [candidates, filters, sortConfig]);
+  }, [matchedCandidates, filters, sortConfig, fxTable, skillIndex, searchMatches, pipelineStages]);
 
-  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFilters(prev => ({ ...prev, [name]: value }));
-  };
+  const searchSnippets = useMemo(() => {
+    const query = parsedSearch.query;
+    if (!searchMatches || !query) return undefined;
+    return new Map(displayedCandidates.map(c => [c.id, getSearchSnippets(c.rawText ?? '', query)]));
+  }, [displayedCandidates, searchMatches, parsedSearch]);
+
+  const requirementChecks = useMemo(() => {
+    if (!hasRequirements(activeRequirements)) return undefined;
+    return new Map(matchedCandidates.map(c => [c.id, evaluateRequirements(c, activeRequirements, fxTable, skillIndex)]));
+  }, [matchedCandidates, activeRequirements, fxTable, skillIndex]);
 
   const requestSort = (key: keyof Candidate) => {
     let direction: 'ascending' | 'descending' = 'ascending';
@@ -371,20 +853,297 @@ export default function App() {
       setSelectedIds(newSelected);
   };
 
+  // Duplicate review: the dialog always shows the first unresolved pair
+  const duplicateMatches = useMemo(() => findDuplicateCandidates(candidates), [candidates]);
+
+  useEffect(() => {
+    if (duplicateMatches.length === 0) setIsReviewingDuplicates(false);
+  }, [duplicateMatches.length]);
+
+  // Drops the uploads only removed candidates used: the stored file, and the upload list
+  // entry whose hash would otherwise block uploading the same resume again
+  const forgetCandidateFiles = (removed: Candidate[], remaining: Candidate[]) => {
+      const fileNames = getOrphanedFileNames(removed, remaining);
+      if (fileNames.length === 0) return;
+      deleteStoredFiles(fileNames).catch(error => console.error("Failed to delete stored files:", error));
+      setFileStatuses(prev => {
+          const updated = new Map(prev);
+          fileNames.forEach(name => updated.delete(name));
+          return updated;
+      });
+  };
+
+  const handleMergeCandidates = (merged: Candidate, removedId: string) => {
+      const removed = candidates.filter(c => c.id === removedId);
+      const remaining = candidates.filter(c => c.id !== removedId).map(c => c.id === merged.id ? merged : c);
+      forgetCandidateFiles(removed, remaining);
+      setCandidates(prev => prev
+          .filter(c => c.id !== removedId)
+          .map(c => c.id === merged.id ? merged : c));
+      setSelectedIds(prev => {
+          if (!prev.has(removedId)) return prev;
+          const updated = new Set(prev);
+          updated.delete(removedId);
+          return updated;
+      });
+  };
+
+  const handleNotDuplicate = ({ first, second }: { first: Candidate; second: Candidate }) => {
+      setCandidates(prev => prev.map(c => c.id === first.id
+          ? { ...c, notDuplicateOf: Array.from(new Set([...(c.notDuplicateOf ?? []), second.id])) }
+          : c));
+  };
+
+  const handleUpdateField = (id: string, field: EditableField, value: EditableValue) => {
+      const normalizedValue = field === 'skills' && Array.isArray(value) ? canonicalizeSkills(value, skillIndex) : value;
+      setCandidates(prev => prev.map(c => c.id === id ? applyFieldEdit(c, field, normalizedValue) : c));
+  };
+
+  const handleSkillTaxonomyChange = (taxonomy: SkillDefinition[]) => {
+      setSkillTaxonomy(taxonomy);
+      const index = buildSkillIndex(taxonomy);
+      setCandidates(prev => prev.map(c => ({ ...c, skills: canonicalizeSkills(c.skills ?? [], index) })));
+  };
+
+  const unknownSkills = useMemo(() => getUnknownSkills(candidates, skillIndex), [candidates, skillIndex]);
+
+  const handleRate = (id: string, rating: number | undefined) => {
+      setCandidates(prev => prev.map(c => c.id === id ? setRating(c, rating) : c));
+  };
+
+  // Tags are written as their defined name; unknown names become new tags
+  const handleTagsChange = (id: string, tags: string[]) => {
+      const named = tags.map(tag => findTagDefinition(tagDefinitions, tag)?.name ?? tag.trim());
+      setTagDefinitions(prev => ensureTagDefinitions(prev, named));
+      setCandidates(prev => prev.map(c => c.id === id ? setTags(c, named) : c));
+  };
+
+  const handleRenameTag = (from: string, to: string | null) => {
+      setCandidates(prev => prev.map(c => renameCandidateTag(c, from, to)));
+      if (filters.tag.toLowerCase() === from.toLowerCase()) setFilters(prev => ({ ...prev, tag: to ?? '' }));
+  };
+
+  const tagUsage = useMemo(() => {
+      const usage = new Map<string, number>();
+      candidates.forEach(c => (c.tags ?? []).forEach(tag => usage.set(tag.toLowerCase(), (usage.get(tag.toLowerCase()) ?? 0) + 1)));
+      return usage;
+  }, [candidates]);
+
+  const handleAddNote = (id: string, text: string) => {
+      setCandidates(prev => prev.map(c => c.id === id ? addNote(c, text) : c));
+  };
+
+  const handleDeleteNote = (id: string, noteId: string) => {
+      setCandidates(prev => prev.map(c => c.id === id ? removeNote(c, noteId) : c));
+  };
+
+  // Interview kits are written against the active requisition
+  const interviewKitCandidate = interviewKitCandidateId && activeRequisition
+      ? matchedCandidates.find(c => c.id === interviewKitCandidateId)
+      : undefined;
+  const interviewGaps = useMemo(
+      () => interviewKitCandidate ? getInterviewGaps(interviewKitCandidate.matchReason, requirementChecks?.get(interviewKitCandidate.id)) : [],
+      [interviewKitCandidate, requirementChecks]
+  );
+  const isGeneratingInterviewKit = !!interviewKitCandidate && !!activeRequisition
+      && inFlightKeys.has(`interview:${activeRequisition.id}:${interviewKitCandidate.id}`);
+
+  const handleGenerateInterviewKit = async () => {
+      if (!interviewKitCandidate || !activeRequisition?.jobDescription.trim()) return;
+      const { id: requisitionId, jobDescription, requirements } = activeRequisition;
+      const candidateId = interviewKitCandidate.id;
+      const requestKey = `interview:${requisitionId}:${candidateId}`;
+      if (!beginRequest(requestKey)) return;
+      try {
+          const kit = await scheduler.schedule(
+              requestKey,
+              () => generateInterviewKit(interviewKitCandidate, jobDescription, requirements, interviewGaps, skillIndex, providerSettings)
+          );
+          setCandidates(prev => prev.map(c => c.id === candidateId ? setInterviewKit(c, requisitionId, kit) : c));
+      } catch (error) {
+          if (isAbortError(error)) return;
+          console.error("Error generating interview kit:", error);
+          alert(`Could not generate the interview kit: ${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+          endRequest(requestKey);
+      }
+  };
+
+  const handleInterviewKitChange = (kit: InterviewKit) => {
+      if (!interviewKitCandidate || !activeRequisition) return;
+      const candidateId = interviewKitCandidate.id;
+      setCandidates(prev => prev.map(c => c.id === candidateId ? setInterviewKit(c, activeRequisition.id, kit) : c));
+  };
+
+  const historyCandidate = historyCandidateId ? candidates.find(c => c.id === historyCandidateId) : undefined;
+
+  // Detail drawer steps through the list as currently filtered and sorted
+  const detailCandidate = detailCandidateId ? matchedCandidates.find(c => c.id === detailCandidateId) : undefined;
+  const detailPosition = detailCandidate ? displayedCandidates.findIndex(c => c.id === detailCandidate.id) : -1;
+
+  const handleNavigateDetail = useCallback((offset: number) => {
+      const next = displayedCandidates[detailPosition + offset];
+      if (detailPosition >= 0 && next) setDetailCandidateId(next.id);
+  }, [displayedCandidates, detailPosition]);
+
+  const handleCloseDetail = useCallback(() => setDetailCandidateId(null), []);
+
   const handleBulkDelete = () => {
       if (window.confirm(`Are you sure you want to delete ${selectedIds.size} candidate(s)?`)) {
+          const removed = candidates.filter(c => selectedIds.has(c.id));
+          const remaining = candidates.filter(c => !selectedIds.has(c.id));
           setCandidates(prev => prev.filter(c => !selectedIds.has(c.id)));
           setSelectedIds(new Set());
+          forgetCandidateFiles(removed, remaining);
       }
   };
 
+  const comparedCandidates = useMemo(() => {
+    return matchedCandidates.filter(c => selectedIds.has(c.id));
+  }, [matchedCandidates, selectedIds]);
+  const canCompare = comparedCandidates.length >= MIN_COMPARE && comparedCandidates.length <= MAX_COMPARE;
+
+  const outreachSkills = useMemo(() => {
+    if (!isDraftingOutreach) return new Map<string, string[]>();
+    return new Map(comparedCandidates.map(c => [c.id, getMatchingSkills(c, activeRequisition, skillIndex)]));
+  }, [isDraftingOutreach, comparedCandidates, activeRequisition, skillIndex]);
+
+  // Personal notes are written several candidates per request, like match analysis
+  const handlePersonalizeOutreach = async (outreachCandidates: Candidate[]) => {
+    if (!activeRequisition?.jobDescription.trim()) return new Map<string, string>();
+    const { id: requisitionId, jobDescription } = activeRequisition;
+    const batches: Candidate[][] = [];
+    for (let i = 0; i < outreachCandidates.length; i += MATCH_BATCH_SIZE) batches.push(outreachCandidates.slice(i, i + MATCH_BATCH_SIZE));
+    const results = await Promise.allSettled(batches.map((batch, index) => scheduler.schedule(
+        `outreach:${requisitionId}:${index}`,
+        () => writeOutreachNotes(batch, outreachSkills, jobDescription, skillIndex, providerSettings)
+    )));
+    // A failed batch leaves its candidates on the plain template unless every batch failed
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed && results.every(result => result.status === 'rejected')) throw failed.reason;
+    if (failed) console.error("Failed to personalize some outreach drafts:", failed.reason);
+    return new Map<string, string>(results.flatMap(result => result.status === 'fulfilled' ? Array.from(result.value) : []));
+  };
+
+  const handleExportComparison = (compared: Candidate[], rows: ComparisonRow[]) => {
+    const worksheet = XLSX.utils.json_to_sheet(comparisonRowsToSheet(compared, rows));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Comparison');
+    XLSX.writeFile(workbook, 'CandidateComparison.xlsx');
+  };
+
+  const handleMoveStage = (ids: string[], stageId: string) => {
+      const stage = pipelineStages.find(s => s.id === stageId);
+      if (!stage || ids.length === 0) return;
+      let reason: string | undefined;
+      if (stage.requiresReason) {
+          const answer = window.prompt(`Reason for moving ${ids.length === 1 ? 'this candidate' : `${ids.length} candidates`} to ${stage.label}:`);
+          if (answer === null) return;
+          reason = answer;
+      }
+      const moved = new Set(ids);
+      setCandidates(prev => prev.map(c => moved.has(c.id) ? moveToStage(c, pipelineKey, stageId, pipelineStages, reason) : c));
+  };
+
   const handleBulkShortlist = () => {
-      setCandidates(prev => prev.map(c => selectedIds.has(c.id) ? { ...c, isShortlisted: true } : c));
+      handleMoveStage(Array.from(selectedIds), SHORTLISTED_STAGE_ID);
       setSelectedIds(new Set());
   };
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100 font-sans selection:bg-indigo-100 dark:selection:bg-indigo-900">
+      {isEditingSkills && (
+        <SkillTaxonomyDialog
+          taxonomy={skillTaxonomy}
+          unknownSkills={unknownSkills}
+          onChange={handleSkillTaxonomyChange}
+          onClose={() => setIsEditingSkills(false)}
+        />
+      )}
+      {isReviewingDuplicates && duplicateMatches.length > 0 && (
+        <MergeCandidatesDialog
+          key={`${duplicateMatches[0].first.id}:${duplicateMatches[0].second.id}`}
+          match={duplicateMatches[0]}
+          remainingCount={duplicateMatches.length}
+          onMerge={handleMergeCandidates}
+          onNotDuplicate={handleNotDuplicate}
+          onClose={() => setIsReviewingDuplicates(false)}
+        />
+      )}
+      {detailCandidate && (
+        <CandidateDetailDrawer
+          candidate={detailCandidate}
+          position={detailPosition}
+          total={displayedCandidates.length}
+          onNavigate={handleNavigateDetail}
+          onClose={handleCloseDetail}
+          onUpdateField={handleUpdateField}
+          onShowHistory={setHistoryCandidateId}
+          requirementChecks={requirementChecks?.get(detailCandidate.id)}
+          stages={pipelineStages}
+          requisitionId={pipelineKey}
+          onMoveStage={handleMoveStage}
+          tagDefinitions={tagDefinitions}
+          onRate={handleRate}
+          onTagsChange={handleTagsChange}
+          onAddNote={handleAddNote}
+          onDeleteNote={handleDeleteNote}
+          onOpenInterviewKit={activeRequisition?.jobDescription.trim() ? () => setInterviewKitCandidateId(detailCandidate.id) : undefined}
+        />
+      )}
+      {interviewKitCandidate && activeRequisition && (
+        <InterviewKitDialog
+          key={`${activeRequisition.id}:${interviewKitCandidate.id}`}
+          candidate={interviewKitCandidate}
+          kit={getInterviewKit(interviewKitCandidate, activeRequisition.id)}
+          requisitionTitle={activeRequisition.title}
+          gaps={interviewGaps}
+          isGenerating={isGeneratingInterviewKit}
+          onGenerate={handleGenerateInterviewKit}
+          onChange={handleInterviewKitChange}
+          onClose={() => setInterviewKitCandidateId(null)}
+        />
+      )}
+      {isDraftingOutreach && comparedCandidates.length > 0 && (
+        <OutreachDialog
+          candidates={comparedCandidates}
+          requisition={activeRequisition}
+          matchingSkills={outreachSkills}
+          templates={emailTemplates}
+          onTemplatesChange={setEmailTemplates}
+          onPersonalize={handlePersonalizeOutreach}
+          onClose={() => setIsDraftingOutreach(false)}
+        />
+      )}
+      {isEditingTags && (
+        <TagsDialog
+          definitions={tagDefinitions}
+          usage={tagUsage}
+          onChange={setTagDefinitions}
+          onRenameTag={handleRenameTag}
+          onClose={() => setIsEditingTags(false)}
+        />
+      )}
+      {isEditingStages && (
+        <PipelineStagesDialog
+          stages={pipelineStages}
+          onChange={setPipelineStages}
+          onClose={() => setIsEditingStages(false)}
+        />
+      )}
+      {isComparing && canCompare && (
+        <CompareCandidatesDialog
+          candidates={comparedCandidates}
+          requirementChecks={requirementChecks}
+          fxTable={fxTable}
+          requisitionTitle={activeRequisition?.title}
+          onExport={handleExportComparison}
+          onClose={() => setIsComparing(false)}
+        />
+      )}
+      {historyCandidate && (
+        <ChangeHistoryDialog candidate={historyCandidate} onClose={() => setHistoryCandidateId(null)} />
+      )}
       {currentFileForPreview && !isAutoParse && (
         <ResumePreviewer 
           file={currentFileForPreview}
@@ -404,13 +1163,25 @@ export default function App() {
                       Robocrats AI
                   </span>
               </div>
-              <button
-                onClick={toggleTheme}
-                className="p-2 rounded-full text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                aria-label="Toggle theme"
-             >
-                {theme === 'light' ? <MoonIcon className="w-5 h-5" /> : <SunIcon className="w-5 h-5" />}
-             </button>
+              <div className="flex items-center gap-2">
+                  <AISettingsPanel
+                    settings={providerSettings}
+                    onChange={setProviderSettings}
+                    schedulerOptions={schedulerOptions}
+                    onSchedulerOptionsChange={setSchedulerOptions}
+                    fxTable={fxTable}
+                    onFxTableChange={setFxTable}
+                    scoringWeights={scoringWeights}
+                    onScoringWeightsChange={setScoringWeights}
+                  />
+                  <button
+                    onClick={toggleTheme}
+                    className="p-2 rounded-full text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    aria-label="Toggle theme"
+                  >
+                    {theme === 'light' ? <MoonIcon className="w-5 h-5" /> : <SunIcon className="w-5 h-5" />}
+                  </button>
+              </div>
           </div>
       </nav>
 
@@ -447,14 +1218,37 @@ export default function App() {
                       <span className="ms-3 text-sm font-medium text-slate-600 dark:text-slate-300 group-hover:text-indigo-600 dark:group-hover:text-indigo-400 transition-colors">Auto-parse</span>
                     </label>
                  </div>
-                <FileUpload onFilesSelected={handleFiles} statuses={fileStatuses} />
+                <FileUpload
+                  onFilesSelected={handleFiles}
+                  statuses={fileStatuses}
+                  queuePositions={fileQueuePositions}
+                  isPaused={isQueuePaused}
+                  onTogglePause={handleToggleQueuePause}
+                  onCancelFile={handleCancelFile}
+                  onRetryFile={handleRetryFile}
+                  onRemoveFile={handleRemoveFile}
+                  notice={uploadNotice}
+                />
               </section>
 
               {/* Right Column: Job Description Section */}
               <section className="h-full">
                   <JobAnalysisSection 
+                    requisitions={requisitions}
+                    activeRequisition={activeRequisition}
+                    onSelectRequisition={setActiveRequisitionId}
+                    onCreateRequisition={handleCreateRequisition}
+                    onDeleteRequisition={handleDeleteRequisition}
+                    onJobDescriptionChange={jobDescription => updateActiveRequisition({ jobDescription })}
+                    onTitleChange={title => updateActiveRequisition({ title })}
+                    onRequirementsChange={requirements => updateActiveRequisition({ requirements })}
+                    onExtractRequirements={handleExtractRequirements}
+                    isExtractingRequirements={isExtractingRequirements}
                     onAnalyze={handleJobAnalysis} 
-                    isAnalyzing={isAnalyzingJob} 
+                    analysisProgress={analysisProgress}
+                    forceRescore={forceRescore}
+                    onForceRescoreChange={setForceRescore}
+                    analysisSummary={analysisSummary}
                     hasCandidates={candidates.length > 0}
                   />
               </section>
@@ -480,6 +1274,21 @@ export default function App() {
                                   >
                                       <StarIcon className="w-3.5 h-3.5" filled /> Shortlist
                                   </button>
+                                  <button
+                                      onClick={() => setIsComparing(true)}
+                                      disabled={!canCompare}
+                                      className="text-xs font-medium flex items-center gap-1 text-indigo-700 hover:text-indigo-900 dark:text-indigo-300 dark:hover:text-indigo-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                      title={canCompare ? 'Compare the selected candidates side by side' : `Select ${MIN_COMPARE}–${MAX_COMPARE} candidates to compare`}
+                                  >
+                                      Compare
+                                  </button>
+                                  <button
+                                      onClick={() => setIsDraftingOutreach(true)}
+                                      className="text-xs font-medium flex items-center gap-1 text-indigo-700 hover:text-indigo-900 dark:text-indigo-300 dark:hover:text-indigo-100 transition-colors"
+                                      title="Draft outreach emails to the selected candidates"
+                                  >
+                                      Email
+                                  </button>
                                   <button
                                       onClick={handleBulkDelete}
                                       className="text-xs font-medium flex items-center gap-1 text-rose-600 hover:text-rose-800 dark:text-rose-400 dark:hover:text-rose-200 transition-colors"
@@ -491,9 +1300,39 @@ export default function App() {
                       ) : (
                           <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 px-2 hidden sm:block">Parsed Results</h3>
                       )}
+                      <button
+                          onClick={() => setIsEditingSkills(true)}
+                          className="text-xs font-medium whitespace-nowrap px-3 py-1.5 rounded-lg text-slate-700 bg-slate-100 hover:bg-slate-200 dark:text-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+                          title="Edit the skill dictionary used to normalize skill names"
+                      >
+                          Skills{unknownSkills.length > 0 ? ` · ${unknownSkills.length} unrecognized` : ''}
+                      </button>
+                      <button
+                          onClick={() => setIsEditingTags(true)}
+                          className="text-xs font-medium whitespace-nowrap px-3 py-1.5 rounded-lg text-slate-700 bg-slate-100 hover:bg-slate-200 dark:text-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 transition-colors"
+                          title="Rename, recolour or remove candidate tags"
+                      >
+                          Tags
+                      </button>
+                      {duplicateMatches.length > 0 && (
+                          <button
+                              onClick={() => setIsReviewingDuplicates(true)}
+                              className="text-xs font-medium whitespace-nowrap px-3 py-1.5 rounded-lg text-amber-800 bg-amber-50 border border-amber-200 hover:bg-amber-100 dark:text-amber-200 dark:bg-amber-900/20 dark:border-amber-800/50 dark:hover:bg-amber-900/40 transition-colors"
+                          >
+                              {duplicateMatches.length} possible duplicate{duplicateMatches.length === 1 ? '' : 's'} · Review
+                          </button>
+                      )}
                    </div>
 
                    <div className="flex items-center gap-2 w-full sm:w-auto justify-end">
+                        <button
+                            onClick={() => setIsBoardVisible(visible => !visible)}
+                            aria-pressed={isBoardVisible}
+                            className={`px-3 py-2 text-sm font-medium rounded-lg transition-colors ${isBoardVisible ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600'}`}
+                            title="Show the pipeline board above the table"
+                        >
+                            Pipeline Board
+                        </button>
                         <button
                             onClick={handleCopy}
                             className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-lg transition-colors focus:ring-2 focus:ring-slate-300"
@@ -511,15 +1350,46 @@ export default function App() {
                         </button>
                         <div className="w-px h-6 bg-slate-200 dark:bg-slate-700 mx-1"></div>
                         <button
-                            onClick={handleClear}
+                            onClick={handleDeleteWorkspace}
                             className="p-2 text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition-colors"
-                            title="Clear All Data"
+                            title="Delete Workspace"
                         >
                             <TrashIcon className="w-5 h-5" />
                         </button>
                    </div>
               </div>
 
+              <ResumeSearchBox
+                query={searchQuery}
+                onChange={setSearchQuery}
+                error={parsedSearch.error}
+                matchCount={searchMatches?.size ?? 0}
+                unsearchableCount={candidates.filter(c => !c.rawText).length}
+              />
+
+              <FilterBuilder
+                filters={filters}
+                onChange={setFilters}
+                presets={filterPresets}
+                onPresetsChange={setFilterPresets}
+                fxTable={fxTable}
+                stages={pipelineStages}
+                tagDefinitions={tagDefinitions}
+                matchingCount={displayedCandidates.length}
+                totalCount={candidates.length}
+              />
+
+              {isBoardVisible && (
+                <PipelineBoard
+                  candidates={displayedCandidates}
+                  stages={pipelineStages}
+                  requisitionId={pipelineKey}
+                  onMove={handleMoveStage}
+                  onOpenCandidate={setDetailCandidateId}
+                  onEditStages={() => setIsEditingStages(true)}
+                />
+              )}
+
               <CandidateTable 
                 candidates={displayedCandidates} 
                 requestSort={requestSort} 
@@ -527,6 +1397,19 @@ export default function App() {
                 selectedIds={selectedIds}
                 onToggleSelect={handleToggleSelect}
                 onToggleSelectAll={handleToggleSelectAll}
+                onUpdateField={handleUpdateField}
+                onShowHistory={setHistoryCandidateId}
+                onOpenCandidate={setDetailCandidateId}
+                fxTable={fxTable}
+                searchSnippets={searchSnippets}
+                requirementChecks={requirementChecks}
+                matchFailures={matchFailures}
+                stages={pipelineStages}
+                onMoveStage={handleMoveStage}
+                tagDefinitions={tagDefinitions}
+                onRate={handleRate}
+                onTagsChange={handleTagsChange}
+                onAddNote={handleAddNote}
               />
             </div>
           )}
@@ -534,7 +1417,7 @@ export default function App() {
 
         <footer className="text-center py-8 border-t border-slate-200 dark:border-slate-800">
           <p className="text-sm text-slate-500 dark:text-slate-500">
-              &copy; {new Date().getFullYear()} Robocrats AI Resume Parser. Powered by Google Gemini.
+              &copy; {new Date().getFullYear()} Robocrats AI Resume Parser. Powered by {PROVIDERS[providerSettings.providerId].label}.
           </p>
         </footer>
       </div>
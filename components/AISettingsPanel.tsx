@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import type { ProviderId, ProviderSettings } from '../services/aiProvider';
+import { PROVIDERS } from '../services/providers';
+import type { SchedulerOptions } from '../services/jobScheduler';
+import type { FxTable } from '../services/compensationService';
+import type { ScoreComponentId } from '../types';
+import { DEFAULT_SCORING_WEIGHTS, SCORE_COMPONENTS } from '../services/scoringService';
+import type { ScoringWeights } from '../services/scoringService';
+import { CogIcon } from './icons';
+
+interface AISettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  schedulerOptions: SchedulerOptions;
+  onSchedulerOptionsChange: (options: SchedulerOptions) => void;
+  fxTable: FxTable;
+  onFxTableChange: (fx: FxTable) => void;
+  scoringWeights: ScoringWeights;
+  onScoringWeightsChange: (weights: ScoringWeights) => void;
+}
+
+const inputClassName = "w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white";
+
+const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ settings, onChange, schedulerOptions, onSchedulerOptionsChange, fxTable, onFxTableChange, scoringWeights, onScoringWeightsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const providerId = e.target.value as ProviderId;
+    // Switching provider resets the model to that provider's default
+    onChange({ ...settings, providerId, model: PROVIDERS[providerId].defaultModel });
+  };
+
+  const handleFieldChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    onChange({ ...settings, [name]: value });
+  };
+
+  const handleSchedulerChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed < (name === 'maxRetries' ? 0 : 1)) return;
+    onSchedulerOptionsChange({ ...schedulerOptions, [name]: parsed });
+  };
+
+  const handleRateChange = (currency: string, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed <= 0) return;
+    onFxTableChange({ ...fxTable, rates: { ...fxTable.rates, [currency]: parsed } });
+  };
+
+  const handleWeightChange = (id: ScoreComponentId, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed < 0) return;
+    onScoringWeightsChange({ ...scoringWeights, [id]: parsed });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 rounded-full text-sm text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        aria-label="AI settings"
+        title="AI provider settings"
+      >
+        <CogIcon className="w-5 h-5" />
+        <span className="hidden md:inline font-medium">{PROVIDERS[settings.providerId].label}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[80vh] overflow-y-auto p-4 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 space-y-3 z-50">
+          <h3 className="text-sm font-semibold text-slate-800 dark:text-white">AI Provider</h3>
+          <div className="space-y-1">
+            <label htmlFor="ai-provider" className="block text-xs font-medium text-slate-500 dark:text-slate-400">Provider</label>
+            <select id="ai-provider" value={settings.providerId} onChange={handleProviderChange} className={inputClassName}>
+              {Object.values(PROVIDERS).map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="ai-model" className="block text-xs font-medium text-slate-500 dark:text-slate-400">Model</label>
+            <input id="ai-model" name="model" type="text" value={settings.model} onChange={handleFieldChange} className={inputClassName} />
+          </div>
+          {settings.providerId === 'openai-compatible' && (
+            <>
+              <div className="space-y-1">
+                <label htmlFor="ai-base-url" className="block text-xs font-medium text-slate-500 dark:text-slate-400">Base URL</label>
+                <input id="ai-base-url" name="baseUrl" type="url" placeholder="http://localhost:8000/v1" value={settings.baseUrl} onChange={handleFieldChange} className={inputClassName} />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="ai-api-key" className="block text-xs font-medium text-slate-500 dark:text-slate-400">API Key (optional)</label>
+                <input id="ai-api-key" name="apiKey" type="password" value={settings.apiKey} onChange={handleFieldChange} className={inputClassName} />
+                <p className="text-[11px] text-slate-400">Stored in this browser only.</p>
+              </div>
+            </>
+          )}
+          {settings.providerId === 'mock' && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">Returns fixture data without any network calls. Useful for demos and testing.</p>
+          )}
+
+          <h3 className="text-sm font-semibold text-slate-800 dark:text-white pt-2 border-t border-slate-100 dark:border-slate-700">Throughput</h3>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <label htmlFor="ai-concurrency" className="block text-xs font-medium text-slate-500 dark:text-slate-400">Parallel</label>
+              <input id="ai-concurrency" name="concurrency" type="number" min={1} value={schedulerOptions.concurrency} onChange={handleSchedulerChange} className={inputClassName} />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="ai-rpm" className="block text-xs font-medium text-slate-500 dark:text-slate-400">Req / min</label>
+              <input id="ai-rpm" name="requestsPerMinute" type="number" min={1} value={schedulerOptions.requestsPerMinute} onChange={handleSchedulerChange} className={inputClassName} />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="ai-retries" className="block text-xs font-medium text-slate-500 dark:text-slate-400">Retries</label>
+              <input id="ai-retries" name="maxRetries" type="number" min={0} value={schedulerOptions.maxRetries} onChange={handleSchedulerChange} className={inputClassName} />
+            </div>
+          </div>
+          <p className="text-[11px] text-slate-400">Rate-limited and server errors are retried with exponential backoff.</p>
+
+          <h3 className="text-sm font-semibold text-slate-800 dark:text-white pt-2 border-t border-slate-100 dark:border-slate-700">Currency</h3>
+          <div className="space-y-1">
+            <label htmlFor="fx-base" className="block text-xs font-medium text-slate-500 dark:text-slate-400">Compare CTC in</label>
+            <select id="fx-base" value={fxTable.baseCurrency} onChange={e => onFxTableChange({ ...fxTable, baseCurrency: e.target.value })} className={inputClassName}>
+              {Object.keys(fxTable.rates).map(currency => <option key={currency} value={currency}>{currency}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {Object.entries(fxTable.rates).map(([currency, rate]) => (
+              <div key={currency} className="space-y-1">
+                <label htmlFor={`fx-${currency}`} className="block text-[11px] font-medium text-slate-500 dark:text-slate-400">{currency}</label>
+                <input id={`fx-${currency}`} type="number" min={0} step="any" defaultValue={rate} onBlur={e => handleRateChange(currency, e.target.value)} className={`${inputClassName} px-2`} />
+              </div>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-400">Value of one unit of each currency in a common reference (INR by default). Used offline; update as rates move.</p>
+
+          <div className="flex items-center justify-between pt-2 border-t border-slate-100 dark:border-slate-700">
+            <h3 className="text-sm font-semibold text-slate-800 dark:text-white">Match Score Weights</h3>
+            <button onClick={() => onScoringWeightsChange(DEFAULT_SCORING_WEIGHTS)} className="text-[11px] font-medium text-indigo-600 dark:text-indigo-400 hover:underline">
+              Reset
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {SCORE_COMPONENTS.map(({ id, label }) => (
+              <div key={id} className="space-y-1">
+                <label htmlFor={`weight-${id}`} className="block text-[11px] font-medium text-slate-500 dark:text-slate-400 truncate" title={label}>{label}</label>
+                <input id={`weight-${id}`} type="number" min={0} value={scoringWeights[id]} onChange={e => handleWeightChange(id, e.target.value)} className={`${inputClassName} px-2`} />
+              </div>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-400">Relative weights. Parts that can't be judged for a candidate (no requirement set or data missing) share their weight with the rest.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AISettingsPanel;
@@ -0,0 +1,39 @@
+import React from 'react';
+import type { MatchAnalysisProgress } from '../types';
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+/**
+ * Done/total bar for a running match analysis. The ETA is projected from the candidates
+ * actually sent for scoring, since cache hits finish instantly and would skew it.
+ */
+const AnalysisProgressBar: React.FC<{ progress: MatchAnalysisProgress }> = ({ progress }) => {
+  const { total, done, cached, failed, startedAt } = progress;
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+  const scored = done - cached;
+  const remaining = total - done;
+  const eta = scored > 0 && remaining > 0 ? ((Date.now() - startedAt) / scored) * remaining : null;
+
+  return (
+    <div className="space-y-1" role="progressbar" aria-valuemin={0} aria-valuemax={total} aria-valuenow={done}>
+      <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+        <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${percent}%` }}></div>
+      </div>
+      <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+        <span>
+          {done}/{total} done
+          {cached > 0 && ` · ${cached} cached`}
+          {failed > 0 && <span className="text-rose-600 dark:text-rose-400"> · {failed} failed</span>}
+        </span>
+        <span>{remaining === 0 ? 'Finishing…' : eta !== null ? `~${formatDuration(eta)} left` : 'Estimating…'}</span>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisProgressBar;
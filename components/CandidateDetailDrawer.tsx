@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import type { Candidate, EditableField, EditableValue, FieldConfidence, PipelineStage, TagDefinition } from '../types';
+import { EDITABLE_FIELDS, formatFieldValue, getOriginalValue } from '../services/candidateFields';
+import { getStoredFile } from '../services/storageService';
+import { ArrowUpIcon, ArrowDownIcon, StarIcon, XCircleIcon } from './icons';
+import DocumentViewer from './DocumentViewer';
+import EditableCell from './EditableCell';
+import MatchReasonText from './MatchReasonText';
+import ScoreBreakdownBars from './ScoreBreakdownBars';
+import CandidateTimeline from './CandidateTimeline';
+import RequirementChecklist from './RequirementChecklist';
+import type { RequirementCheck } from '../services/requirementsService';
+import { getPipelineStatus } from '../services/pipelineService';
+import { getInterviewKit } from '../services/interviewKitService';
+import StageSelect from './StageSelect';
+import StageHistory from './StageHistory';
+import RatingStars from './RatingStars';
+import TagEditor from './TagEditor';
+import CandidateNotes from './CandidateNotes';
+
+interface CandidateDetailDrawerProps {
+  candidate: Candidate;
+  // Position within the currently displayed list; -1 when filters hide the candidate
+  position: number;
+  total: number;
+  onNavigate: (offset: number) => void;
+  onClose: () => void;
+  onUpdateField: (id: string, field: EditableField, value: EditableValue) => void;
+  onShowHistory: (id: string) => void;
+  // Checks against the active requisition's requirements, when it has any
+  requirementChecks?: RequirementCheck[];
+  stages: PipelineStage[];
+  // Requisition whose pipeline the stage controls refer to
+  requisitionId: string;
+  onMoveStage: (ids: string[], stageId: string) => void;
+  tagDefinitions: TagDefinition[];
+  onRate: (id: string, rating: number | undefined) => void;
+  onTagsChange: (id: string, tags: string[]) => void;
+  onAddNote: (id: string, text: string) => void;
+  onDeleteNote: (id: string, noteId: string) => void;
+  // Undefined when there is no job description to write interview questions for
+  onOpenInterviewKit?: () => void;
+}
+
+const CONFIDENCE_STYLES: Record<FieldConfidence, string> = {
+  high: 'text-emerald-700 bg-emerald-50 dark:text-emerald-300 dark:bg-emerald-900/30',
+  medium: 'text-sky-700 bg-sky-50 dark:text-sky-300 dark:bg-sky-900/30',
+  low: 'text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/30',
+};
+
+const CandidateDetailDrawer: React.FC<CandidateDetailDrawerProps> = ({
+  candidate,
+  position,
+  total,
+  onNavigate,
+  onClose,
+  onUpdateField,
+  onShowHistory,
+  requirementChecks,
+  stages,
+  requisitionId,
+  onMoveStage,
+  tagDefinitions,
+  onRate,
+  onTagsChange,
+  onAddNote,
+  onDeleteNote,
+  onOpenInterviewKit
+}) => {
+  const sourceFiles = [candidate.fileName, ...(candidate.mergedFileNames ?? [])];
+  const [activeFileName, setActiveFileName] = useState(candidate.fileName);
+  const [file, setFile] = useState<File | null>(null);
+  const [isFileMissing, setIsFileMissing] = useState(false);
+
+  useEffect(() => {
+    setActiveFileName(candidate.fileName);
+  }, [candidate.id, candidate.fileName]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFile(null);
+    setIsFileMissing(false);
+    getStoredFile(activeFileName)
+      .then(stored => {
+        if (cancelled) return;
+        if (stored) setFile(stored);
+        else setIsFileMissing(true);
+      })
+      .catch(error => {
+        console.error("Failed to load stored resume:", error);
+        if (!cancelled) setIsFileMissing(true);
+      });
+    return () => { cancelled = true; };
+  }, [activeFileName]);
+
+  const canGoPrev = position > 0;
+  const canGoNext = position >= 0 && position < total - 1;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave keys alone while a field is being edited
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')) return;
+      if (e.key === 'Escape') onClose();
+      else if ((e.key === 'ArrowUp' || e.key === 'k') && canGoPrev) onNavigate(-1);
+      else if ((e.key === 'ArrowDown' || e.key === 'j') && canGoNext) onNavigate(1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canGoPrev, canGoNext, onNavigate, onClose]);
+
+  const saveField = (field: EditableField, value: EditableValue) => onUpdateField(candidate.id, field, value);
+  const editCount = candidate.editHistory?.length ?? 0;
+
+  const renderFieldMeta = (field: EditableField) => {
+    const originalValue = getOriginalValue(candidate, field);
+    if (originalValue !== undefined) {
+      return (
+        <p className="text-[11px] text-emerald-700 dark:text-emerald-400 mt-0.5">
+          Edited · AI value: <span className="italic">{formatFieldValue(originalValue) || '(empty)'}</span>
+        </p>
+      );
+    }
+    const evidence = field === 'skills' ? undefined : candidate.evidence?.[field];
+    if (!evidence) return null;
+    return (
+      <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-0.5 flex items-start gap-1.5">
+        <span className={`px-1.5 rounded font-semibold uppercase tracking-wide text-[9px] flex-shrink-0 ${CONFIDENCE_STYLES[evidence.confidence]}`}>{evidence.confidence}</span>
+        <span className="italic break-words">{evidence.source ? `"${evidence.source}"` : 'No supporting text found in the resume'}</span>
+      </p>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-6xl bg-white dark:bg-slate-800 shadow-2xl flex flex-col animate-fade-in"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center gap-4 p-4 border-b border-slate-100 dark:border-slate-700">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white truncate flex items-center gap-2">
+              {candidate.isShortlisted && <StarIcon className="w-5 h-5 text-amber-400 flex-shrink-0" filled />}
+              {candidate.fullName || 'Unnamed candidate'}
+            </h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 truncate">
+              {candidate.designation || 'N/A'}{candidate.currentCompany ? ` @ ${candidate.currentCompany}` : ''}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <span className="text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">
+              {position >= 0 ? `${position + 1} of ${total}` : 'Hidden by filters'}
+            </span>
+            <button
+              onClick={() => onNavigate(-1)}
+              disabled={!canGoPrev}
+              className="p-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Previous candidate (↑)"
+            >
+              <ArrowUpIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onNavigate(1)}
+              disabled={!canGoNext}
+              className="p-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Next candidate (↓)"
+            >
+              <ArrowDownIcon className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors ml-2">
+              <XCircleIcon className="w-8 h-8" />
+            </button>
+          </div>
+        </header>
+
+        <div className="flex-grow flex flex-col lg:flex-row min-h-0">
+          <section className="lg:w-[440px] flex-shrink-0 overflow-y-auto p-5 space-y-5 border-b lg:border-b-0 lg:border-r border-slate-100 dark:border-slate-700">
+            <div className="p-4 bg-slate-900 text-white rounded-xl text-xs">
+              <div className="flex items-center justify-between mb-2 border-b border-slate-700 pb-2">
+                <p className="font-bold text-indigo-300">Match Analysis</p>
+                <span className="text-sm font-bold">{candidate.matchScore !== undefined ? `${candidate.matchScore}%` : '--'}</span>
+              </div>
+              {candidate.scoreBreakdown && (
+                <div className="mb-2 pb-2 border-b border-slate-700">
+                  <ScoreBreakdownBars breakdown={candidate.scoreBreakdown} />
+                </div>
+              )}
+              <div className="leading-relaxed text-slate-300">
+                {candidate.matchReason
+                  ? <MatchReasonText text={candidate.matchReason} />
+                  : <span className="italic text-slate-400">Not analyzed against a job description yet.</span>}
+              </div>
+              {onOpenInterviewKit && (
+                <button
+                  onClick={onOpenInterviewKit}
+                  className="mt-3 w-full px-3 py-1.5 text-xs font-medium rounded-lg text-indigo-100 bg-indigo-600/40 hover:bg-indigo-600/60 transition-colors"
+                >
+                  Interview kit{getInterviewKit(candidate, requisitionId) ? ' · view' : ' · generate'}
+                </button>
+              )}
+            </div>
+
+            <div className="rounded-xl border border-slate-100 dark:border-slate-700 p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-[11px] font-bold uppercase tracking-wider text-slate-400">Pipeline Stage</p>
+                <StageSelect stageId={candidate.pipelineStage} stages={stages} onChange={stageId => onMoveStage([candidate.id], stageId)} />
+              </div>
+              <StageHistory status={getPipelineStatus(candidate, requisitionId)} stages={stages} />
+            </div>
+
+            <div className="rounded-xl border border-slate-100 dark:border-slate-700 p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-[11px] font-bold uppercase tracking-wider text-slate-400">Rating</p>
+                <RatingStars rating={candidate.rating} onChange={rating => onRate(candidate.id, rating)} className="w-4 h-4" />
+              </div>
+              <div>
+                <p className="text-[11px] font-bold uppercase tracking-wider text-slate-400 mb-1">Tags</p>
+                <TagEditor tags={candidate.tags ?? []} definitions={tagDefinitions} onChange={tags => onTagsChange(candidate.id, tags)} />
+              </div>
+              <CandidateNotes
+                notes={candidate.notes ?? []}
+                onAdd={text => onAddNote(candidate.id, text)}
+                onDelete={noteId => onDeleteNote(candidate.id, noteId)}
+              />
+            </div>
+
+            {requirementChecks && requirementChecks.length > 0 && <RequirementChecklist checks={requirementChecks} />}
+
+            <CandidateTimeline candidate={candidate} />
+
+            <dl className="space-y-3 pt-4 border-t border-slate-100 dark:border-slate-700">
+              {EDITABLE_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <dt className="text-[11px] font-bold uppercase tracking-wider text-slate-400">{label}</dt>
+                  <dd className="text-sm text-slate-800 dark:text-slate-100">
+                    <EditableCell field={key} value={candidate[key] ?? ''} onSave={saveField}>
+                      <span className="break-words">{formatFieldValue(candidate[key]) || <span className="italic text-slate-400">empty</span>}</span>
+                    </EditableCell>
+                    {renderFieldMeta(key)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+
+            <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1 pt-3 border-t border-slate-100 dark:border-slate-700">
+              {candidate.aiProvider && <p>Extracted with {candidate.aiProvider}{candidate.aiModel ? ` · ${candidate.aiModel}` : ''}</p>}
+              {editCount > 0 && (
+                <button onClick={() => onShowHistory(candidate.id)} className="font-medium text-emerald-700 dark:text-emerald-400 hover:underline">
+                  ✎ {editCount} edit{editCount === 1 ? '' : 's'} · view history
+                </button>
+              )}
+            </div>
+          </section>
+
+          <section className="flex-grow min-w-0 flex flex-col bg-slate-50 dark:bg-slate-900/40">
+            <div className="flex items-center justify-between gap-3 px-5 py-2 border-b border-slate-100 dark:border-slate-700">
+              <p className="text-xs font-bold uppercase tracking-wider text-slate-500">Original Resume</p>
+              {sourceFiles.length > 1 ? (
+                <select
+                  value={activeFileName}
+                  onChange={e => setActiveFileName(e.target.value)}
+                  className="text-xs px-2 py-1 rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 max-w-[60%]"
+                >
+                  {sourceFiles.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              ) : (
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate" title={activeFileName}>{activeFileName}</p>
+              )}
+            </div>
+            <div className="flex-grow overflow-y-auto p-5">
+              {isFileMissing ? (
+                <p className="text-center text-sm text-slate-500 dark:text-slate-400 mt-10">
+                  The original file for {activeFileName} is no longer available.
+                </p>
+              ) : file ? (
+                <DocumentViewer file={file} />
+              ) : null}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateDetailDrawer;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import type { CandidateNote } from '../types';
+import { TrashIcon } from './icons';
+
+interface CandidateNotesProps {
+  notes: CandidateNote[];
+  onAdd: (text: string) => void;
+  onDelete: (noteId: string) => void;
+}
+
+/** Recruiter notes, newest first, with a box to add another. */
+const CandidateNotes: React.FC<CandidateNotesProps> = ({ notes, onAdd, onDelete }) => {
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    onAdd(draft);
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <p className="text-[11px] font-bold uppercase tracking-wider text-slate-400 mb-2">Notes</p>
+      <textarea
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleAdd(); }}
+        rows={2}
+        placeholder="e.g. Spoke on phone, flexible on CTC"
+        className="w-full px-2 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white"
+      />
+      <div className="flex justify-end mt-1">
+        <button onClick={handleAdd} disabled={!draft.trim()} className="px-3 py-1 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-40">
+          Add note
+        </button>
+      </div>
+      {notes.length > 0 && (
+        <ul className="mt-2 space-y-2">
+          {[...notes].reverse().map(note => (
+            <li key={note.id} className="group/note flex items-start gap-2 text-sm">
+              <div className="min-w-0 flex-grow">
+                <p className="text-slate-800 dark:text-slate-100 whitespace-pre-wrap break-words">{note.text}</p>
+                <p className="text-[11px] text-slate-400">{new Date(note.createdAt).toLocaleString()}</p>
+              </div>
+              <button
+                onClick={() => { if (window.confirm('Delete this note?')) onDelete(note.id); }}
+                className="p-1 text-slate-300 hover:text-rose-500 opacity-0 group-hover/note:opacity-100 transition-opacity"
+                title="Delete note"
+              >
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CandidateNotes;
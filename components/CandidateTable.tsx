@@ -1,6 +1,72 @@
 import React from 'react';
-import type { Candidate } from '../types';
+import type { Candidate, Compensation, PipelineStage, TagDefinition, EditableField, EditableValue, EvidenceField, ExtractionMethod, FieldConfidence } from '../types';
+import { formatFieldValue, getOriginalValue } from '../services/candidateFields';
+import { describeCompensation, formatAnnualCompensation } from '../services/compensationService';
+import type { FxTable } from '../services/compensationService';
+import { formatNoticePeriod, getDaysUntilAvailable } from '../services/noticePeriodService';
+import type { RequirementCheck } from '../services/requirementsService';
+import { summarizeChecks } from '../services/requirementsService';
+import type { SnippetSegment } from '../services/searchService';
 import { ArrowUpIcon, ArrowDownIcon, StarIcon } from './icons';
+import EditableCell from './EditableCell';
+import MatchReasonText from './MatchReasonText';
+import ScoreBreakdownBars from './ScoreBreakdownBars';
+import StageSelect from './StageSelect';
+import RatingStars from './RatingStars';
+import TagEditor from './TagEditor';
+
+const EXTRACTION_LABELS: Record<ExtractionMethod, string> = {
+  'pdf-text': 'PDF text',
+  'pdf-image': 'PDF scan',
+  'pdf-mixed': 'PDF text + scan',
+  'image': 'Image',
+  'docx-text': 'Word text',
+};
+
+const getExtractionTitle = (candidate: Candidate) => {
+  const { textPages, imagePages } = candidate.extraction ?? {};
+  const details: string[] = [];
+  if (textPages && textPages.length > 0) details.push(`Text layer: pages ${textPages.join(', ')}`);
+  if (imagePages && imagePages.length > 0) details.push(`Rendered as image: pages ${imagePages.join(', ')}`);
+  return details.length > 0 ? details.join('\n') : 'Extraction method';
+};
+
+const CONFIDENCE_LABELS: Record<FieldConfidence, string> = {
+  high: 'High confidence',
+  medium: 'Medium confidence',
+  low: 'Low confidence',
+};
+
+// Hover text showing why a value was extracted; undefined for records parsed before evidence existed
+const getEvidenceTitle = (candidate: Candidate, field: EvidenceField, label: string) => {
+  const originalValue = getOriginalValue(candidate, field);
+  if (originalValue !== undefined) {
+    return `${label} · Edited by recruiter\nAI value: ${formatFieldValue(originalValue) || '(empty)'}`;
+  }
+  const evidence = candidate.evidence?.[field];
+  if (!evidence) return undefined;
+  const source = evidence.source ? `Source: "${evidence.source}"` : 'No supporting text found in the resume';
+  return `${label} · ${CONFIDENCE_LABELS[evidence.confidence]}\n${source}`;
+};
+
+// Low-confidence values and values without a source snippet need a human check, until someone edits them
+const isFlaggedEvidence = (candidate: Candidate, field: EvidenceField) => {
+  if (getOriginalValue(candidate, field) !== undefined) return false;
+  const evidence = candidate.evidence?.[field];
+  return Boolean(evidence && (evidence.confidence === 'low' || !evidence.source));
+};
+
+const EvidenceFlag: React.FC<{ candidate: Candidate; field: EvidenceField; label: string }> = ({ candidate, field, label }) => {
+  if (!isFlaggedEvidence(candidate, field)) return null;
+  return (
+    <span
+      className="inline-flex items-center justify-center w-3.5 h-3.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300 text-[9px] font-bold cursor-help flex-shrink-0"
+      title={getEvidenceTitle(candidate, field, label)}
+    >
+      !
+    </span>
+  );
+};
 
 interface CandidateTableProps {
   candidates: Candidate[];
@@ -9,15 +75,46 @@ interface CandidateTableProps {
   selectedIds: Set<string>;
   onToggleSelect: (id: string) => void;
   onToggleSelectAll: () => void;
+  onUpdateField: (id: string, field: EditableField, value: EditableValue) => void;
+  onShowHistory: (id: string) => void;
+  onOpenCandidate: (id: string) => void;
+  fxTable: FxTable;
+  // Highlighted resume excerpts per candidate id while a full-text search is active
+  searchSnippets?: Map<string, SnippetSegment[][]>;
+  // Checks against the active requisition's requirements per candidate id
+  requirementChecks?: Map<string, RequirementCheck[]>;
+  // Error per candidate id whose last match analysis failed
+  matchFailures?: Map<string, string>;
+  stages: PipelineStage[];
+  onMoveStage: (ids: string[], stageId: string) => void;
+  tagDefinitions: TagDefinition[];
+  onRate: (id: string, rating: number | undefined) => void;
+  onTagsChange: (id: string, tags: string[]) => void;
+  onAddNote: (id: string, text: string) => void;
 }
 
+const COLUMN_COUNT = 12;
+
 const CandidateTable: React.FC<CandidateTableProps> = ({ 
   candidates, 
   sortConfig, 
   requestSort,
   selectedIds,
   onToggleSelect,
-  onToggleSelectAll
+  onToggleSelectAll,
+  onUpdateField,
+  onShowHistory,
+  onOpenCandidate,
+  fxTable,
+  searchSnippets,
+  requirementChecks,
+  matchFailures,
+  stages,
+  onMoveStage,
+  tagDefinitions,
+  onRate,
+  onTagsChange,
+  onAddNote
 }) => {
   if (candidates.length === 0) {
     return (
@@ -49,33 +146,14 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
         .toUpperCase();
   };
 
-  const formatMatchReason = (text: string) => {
-    // Basic bolding for Strong Matches/Gaps headers for better readability
-    const parts = text.split(/(`[^`]+`)/);
-    
+  // Normalized annual figure in the base currency, shown under the CTC as written
+  const renderAnnualCompensation = (compensation?: Compensation) => {
+    const annual = formatAnnualCompensation(compensation, fxTable);
+    if (!annual) return null;
     return (
-        <span>
-            {parts.map((part, index) => {
-                if (part.startsWith('`') && part.endsWith('`')) {
-                    const content = part.slice(1, -1);
-                    return (
-                        <span key={index} className="inline-block bg-slate-700 text-slate-100 px-1.5 py-0.5 rounded border border-slate-600 font-mono text-[10px] mx-0.5 align-middle shadow-sm">
-                            {content}
-                        </span>
-                    );
-                }
-                
-                // Optional: Highlight typical headers if they exist in plain text
-                if (part.includes('Strong Matches')) {
-                    return <span key={index} className="font-bold text-emerald-400">{part}</span>;
-                }
-                if (part.includes('Gaps') || part.includes('Missing')) {
-                     return <span key={index} className="font-bold text-rose-400">{part}</span>;
-                }
-
-                return <span key={index}>{part}</span>;
-            })}
-        </span>
+      <div className="text-right text-[10px] text-slate-400 dark:text-slate-500 cursor-help" title={describeCompensation(compensation, fxTable)}>
+        ≈ {annual}
+      </div>
     );
   };
 
@@ -123,6 +201,7 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
               </th>
               {/* Columns with optimized widths */}
               {renderHeader("Match %", "matchScore", "text-center min-w-[100px]")}
+              {renderHeader("Stage", "pipelineStage", "min-w-[140px]")}
               {renderHeader("Candidate Profile", "fullName", "min-w-[260px]")}
               {renderHeader("Contact Info", "email", "min-w-[200px]")}
               {renderHeader("Experience", "totalExperience", "min-w-[110px]")}
@@ -130,6 +209,7 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
               {renderHeader("CTC", "currentCTC", "min-w-[140px]")}
               {renderHeader("Notice", "noticePeriod", "min-w-[100px]")}
               {renderHeader("Location", "currentLocation", "min-w-[150px]")}
+              {renderHeader("Education", "highestQualification", "min-w-[150px]")}
               {renderHeader("Resume", "fileName", "text-right min-w-[100px]")}
           </tr>
         </thead>
@@ -137,10 +217,18 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
             {candidates.map((candidate) => {
                 const isSelected = selectedIds.has(candidate.id);
                 const badgeColor = getMatchColor(candidate.matchScore);
+                const saveField = (field: EditableField, value: EditableValue) => onUpdateField(candidate.id, field, value);
+                const editCount = candidate.editHistory?.length ?? 0;
+                const snippets = searchSnippets?.get(candidate.id) ?? [];
+                const checks = requirementChecks?.get(candidate.id) ?? [];
+                const checkSummary = summarizeChecks(checks);
+                const matchFailure = matchFailures?.get(candidate.id);
+                const noteCount = candidate.notes?.length ?? 0;
+                const latestNote = candidate.notes?.[noteCount - 1];
                 
                 return (
+                <React.Fragment key={candidate.id}>
                 <tr 
-                    key={candidate.id} 
                     className={`group transition-colors duration-150 ease-in-out
                         ${isSelected ? 'bg-indigo-50/60 dark:bg-indigo-900/10' : 'hover:bg-slate-50 dark:hover:bg-slate-700/30'}
                     `}
@@ -164,27 +252,62 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                                  </div>
                                  
                                  {/* Rich Tooltip */}
-                                 {candidate.matchScore !== undefined && (
+                                 {(candidate.matchScore !== undefined || candidate.scoreBreakdown) && (
                                      <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-80 p-4 bg-slate-900/95 backdrop-blur text-white text-xs rounded-xl shadow-2xl opacity-0 group-hover/tooltip:opacity-100 transition-all duration-200 pointer-events-none z-50 whitespace-normal text-left scale-95 group-hover/tooltip:scale-100 border border-slate-700 ring-1 ring-white/10">
                                          <p className="font-bold mb-2 text-indigo-300 border-b border-slate-700 pb-2 flex items-center gap-2">
                                             <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg>
                                             Match Analysis
                                          </p>
+                                         {candidate.scoreBreakdown && (
+                                            <div className="mb-2 pb-2 border-b border-slate-700">
+                                               <ScoreBreakdownBars breakdown={candidate.scoreBreakdown} />
+                                            </div>
+                                         )}
                                          <div className="leading-relaxed text-slate-300 space-y-1">
-                                            {formatMatchReason(candidate.matchReason || "No reason provided.")}
+                                            {candidate.matchReason
+                                                ? <MatchReasonText text={candidate.matchReason} />
+                                                : <span className="italic text-slate-400">{candidate.scoreBreakdown ? 'Run match analysis for the AI judgment.' : 'No reason provided.'}</span>}
                                          </div>
                                          <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-8 border-transparent border-t-slate-900/95"></div>
                                      </div>
                                  )}
                              </div>
+                             {matchFailure && (
+                                 <span
+                                     className="mt-1.5 text-[10px] font-medium px-1.5 py-0.5 rounded text-rose-700 bg-rose-50 dark:text-rose-300 dark:bg-rose-900/30"
+                                     title={`Match analysis failed: ${matchFailure}. Run the analysis again to retry.`}
+                                 >
+                                     Analysis failed
+                                 </span>
+                             )}
+                             {checks.length > 0 && (
+                                 <span
+                                     className={`mt-1.5 text-[10px] font-medium px-1.5 py-0.5 rounded ${checkSummary.fail === 0 ? 'text-emerald-700 bg-emerald-50 dark:text-emerald-300 dark:bg-emerald-900/30' : 'text-slate-600 bg-slate-100 dark:text-slate-300 dark:bg-slate-700'}`}
+                                     title={checks.map(check => `${check.status === 'pass' ? '✓' : check.status === 'partial' ? '~' : '✗'} ${check.label} — ${check.detail}`).join('\n')}
+                                 >
+                                     {checkSummary.pass}/{checkSummary.total} reqs
+                                 </span>
+                             )}
                         </div>
                     </td>
 
+                    {/* Pipeline Stage */}
+                    <td className="px-6 py-4 align-middle whitespace-nowrap">
+                        <StageSelect
+                            stageId={candidate.pipelineStage}
+                            stages={stages}
+                            onChange={stageId => onMoveStage([candidate.id], stageId)}
+                        />
+                    </td>
+
                     {/* Candidate Profile */}
                     <td className="px-6 py-4 align-middle whitespace-nowrap">
                         <div className="flex items-center gap-4">
                             <div className="relative flex-shrink-0">
-                                <div className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-bold shadow-sm transition-transform transform group-hover:scale-105
+                                <div
+                                    onClick={() => onOpenCandidate(candidate.id)}
+                                    title="Open details"
+                                    className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-bold shadow-sm transition-transform transform group-hover:scale-105 cursor-pointer
                                     ${candidate.isShortlisted 
                                         ? 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300 ring-2 ring-amber-400 dark:ring-amber-500' 
                                         : 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-300'
@@ -204,12 +327,55 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                                 </button>
                             </div>
                             <div className="min-w-0 max-w-[200px]">
-                                <div className="text-sm font-bold text-slate-900 dark:text-white group-hover:text-indigo-600 dark:group-hover:text-indigo-400 transition-colors truncate" title={candidate.fullName}>
-                                    {candidate.fullName}
+                                <div className="flex items-center gap-1.5">
+                                    <EditableCell field="fullName" value={candidate.fullName} onSave={saveField} className="min-w-0">
+                                        <div className="text-sm font-bold text-slate-900 dark:text-white group-hover:text-indigo-600 dark:group-hover:text-indigo-400 transition-colors truncate" title={getEvidenceTitle(candidate, 'fullName', 'Name') ?? candidate.fullName}>
+                                            {candidate.fullName}
+                                        </div>
+                                    </EditableCell>
+                                    <EvidenceFlag candidate={candidate} field="fullName" label="Name" />
+                                </div>
+                                <div className="text-xs text-slate-500 dark:text-slate-400 mt-0.5 flex items-center gap-1 min-w-0">
+                                    <EditableCell field="designation" value={candidate.designation} onSave={saveField} className="min-w-0">
+                                        <span className="font-medium block truncate" title={getEvidenceTitle(candidate, 'designation', 'Designation') ?? candidate.designation}>{candidate.designation || 'N/A'}</span>
+                                    </EditableCell>
+                                    <span className="text-slate-400 dark:text-slate-500">@</span>
+                                    <EditableCell field="currentCompany" value={candidate.currentCompany} onSave={saveField} className="min-w-0">
+                                        <span className="text-slate-400 dark:text-slate-500 font-normal block truncate" title={getEvidenceTitle(candidate, 'currentCompany', 'Company') ?? candidate.currentCompany}>{candidate.currentCompany || 'N/A'}</span>
+                                    </EditableCell>
                                 </div>
-                                <div className="text-xs text-slate-500 dark:text-slate-400 mt-0.5 truncate" title={`${candidate.designation || 'N/A'}${candidate.currentCompany ? ` at ${candidate.currentCompany}` : ''}`}>
-                                    <span className="font-medium">{candidate.designation || 'N/A'}</span>
-                                    {candidate.currentCompany && <span className="text-slate-400 dark:text-slate-500 font-normal"> @ {candidate.currentCompany}</span>}
+                                {(isFlaggedEvidence(candidate, 'designation') || isFlaggedEvidence(candidate, 'currentCompany')) && (
+                                    <div className="flex items-center gap-1 mt-0.5 text-[10px] text-amber-700 dark:text-amber-300">
+                                        <EvidenceFlag candidate={candidate} field="designation" label="Designation" />
+                                        <EvidenceFlag candidate={candidate} field="currentCompany" label="Company" />
+                                        <span>Verify role</span>
+                                    </div>
+                                )}
+                                {editCount > 0 && (
+                                    <button
+                                        type="button"
+                                        onClick={() => onShowHistory(candidate.id)}
+                                        className="mt-0.5 text-[10px] font-medium text-emerald-700 dark:text-emerald-400 hover:underline"
+                                    >
+                                        ✎ {editCount} edit{editCount === 1 ? '' : 's'} · history
+                                    </button>
+                                )}
+                                <div className="mt-1 flex items-center gap-2">
+                                    <RatingStars rating={candidate.rating} onChange={rating => onRate(candidate.id, rating)} className="w-3 h-3" />
+                                    <button
+                                        type="button"
+                                        onClick={() => {
+                                            const text = window.prompt(`Note on ${candidate.fullName || 'this candidate'}:`);
+                                            if (text) onAddNote(candidate.id, text);
+                                        }}
+                                        className="text-[10px] font-medium text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                                        title={latestNote ? `Latest note (${new Date(latestNote.createdAt).toLocaleDateString()}): ${latestNote.text}` : 'Add a note'}
+                                    >
+                                        {noteCount > 0 ? `${noteCount} note${noteCount === 1 ? '' : 's'} · add` : '+ note'}
+                                    </button>
+                                </div>
+                                <div className="mt-1">
+                                    <TagEditor tags={candidate.tags ?? []} definitions={tagDefinitions} onChange={tags => onTagsChange(candidate.id, tags)} />
                                 </div>
                             </div>
                         </div>
@@ -218,13 +384,26 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                     {/* Contact Info */}
                     <td className="px-6 py-4 align-middle whitespace-nowrap">
                         <div className="flex flex-col space-y-1.5">
-                            <div className="text-sm text-slate-700 dark:text-slate-300 flex items-center gap-2 max-w-[190px]" title={candidate.email}>
+                            <div className="text-sm text-slate-700 dark:text-slate-300 flex items-center gap-2 max-w-[190px]" title={getEvidenceTitle(candidate, 'email', 'Email') ?? candidate.email}>
                                 <svg className="w-3.5 h-3.5 text-slate-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" /></svg>
-                                <span className="truncate">{candidate.email}</span>
+                                <EditableCell field="email" value={candidate.email} onSave={saveField} className="min-w-0">
+                                    <span className="truncate block">{candidate.email || 'N/A'}</span>
+                                </EditableCell>
+                                <EvidenceFlag candidate={candidate} field="email" label="Email" />
                             </div>
-                            <div className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                            <div className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2" title={getEvidenceTitle(candidate, 'mobile', 'Mobile')}>
                                 <svg className="w-3.5 h-3.5 text-slate-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" /></svg>
-                                {candidate.mobile}
+                                <EditableCell field="mobile" value={candidate.mobile} onSave={saveField}>
+                                    {candidate.mobile || 'N/A'}
+                                </EditableCell>
+                                <EvidenceFlag candidate={candidate} field="mobile" label="Mobile" />
+                            </div>
+                            <div className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2" title={getEvidenceTitle(candidate, 'dob', 'Date of birth')}>
+                                <span className="w-3.5 text-center text-[10px] font-semibold text-slate-400 flex-shrink-0">DOB</span>
+                                <EditableCell field="dob" value={candidate.dob} onSave={saveField}>
+                                    {candidate.dob || 'N/A'}
+                                </EditableCell>
+                                <EvidenceFlag candidate={candidate} field="dob" label="Date of birth" />
                             </div>
                         </div>
                     </td>
@@ -232,26 +411,32 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                     {/* Experience */}
                     <td className="px-6 py-4 align-middle whitespace-nowrap">
                         <div className="flex flex-col">
-                            <span className="text-sm font-bold text-slate-900 dark:text-white">
-                                {candidate.totalExperience > 0 ? `${candidate.totalExperience} Yrs` : 'Fresher'}
+                            <span className="text-sm font-bold text-slate-900 dark:text-white flex items-center gap-1.5" title={getEvidenceTitle(candidate, 'totalExperience', 'Total experience')}>
+                                <EditableCell field="totalExperience" value={candidate.totalExperience} onSave={saveField}>
+                                    {candidate.totalExperience > 0 ? `${candidate.totalExperience} Yrs` : 'Fresher'}
+                                </EditableCell>
+                                <EvidenceFlag candidate={candidate} field="totalExperience" label="Total experience" />
+                            </span>
+                            <span className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1.5" title={getEvidenceTitle(candidate, 'relevantExperience', 'Relevant experience')}>
+                                <EditableCell field="relevantExperience" value={candidate.relevantExperience} onSave={saveField}>
+                                    Rel: {candidate.relevantExperience > 0 ? `${candidate.relevantExperience} Yrs` : '--'}
+                                </EditableCell>
+                                <EvidenceFlag candidate={candidate} field="relevantExperience" label="Relevant experience" />
                             </span>
-                            {candidate.relevantExperience > 0 && (
-                                <span className="text-xs text-slate-500 dark:text-slate-400">
-                                    Rel: {candidate.relevantExperience} Yrs
-                                </span>
-                            )}
                         </div>
                     </td>
 
                     {/* Skills (Truncated with Rich Tooltip) */}
                     <td className="px-6 py-4 align-middle max-w-[250px]">
                          <div className="group/skills relative flex items-center">
-                            <p className="truncate text-sm text-slate-600 dark:text-slate-300 cursor-help w-full">
-                                {(candidate.skills && candidate.skills.length > 0) 
-                                    ? candidate.skills.join(', ') 
-                                    : <span className="italic text-slate-400">None listed</span>
-                                }
-                            </p>
+                            <EditableCell field="skills" value={candidate.skills ?? []} onSave={saveField} className="w-full min-w-0">
+                                <p className="truncate text-sm text-slate-600 dark:text-slate-300 w-full">
+                                    {(candidate.skills && candidate.skills.length > 0) 
+                                        ? candidate.skills.join(', ') 
+                                        : <span className="italic text-slate-400">None listed</span>
+                                    }
+                                </p>
+                            </EditableCell>
                             
                             {/* Rich Tooltip for Skills */}
                             {candidate.skills && candidate.skills.length > 0 && (
@@ -273,49 +458,116 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                         <div className="text-xs space-y-1 w-full">
                             <div className="flex justify-between gap-2 items-center">
                                 <span className="text-slate-500 dark:text-slate-400 font-medium w-8">Curr:</span>
-                                <span className="font-semibold text-slate-900 dark:text-white bg-slate-100 dark:bg-slate-700 px-1.5 py-0.5 rounded text-[11px] min-w-[60px] text-right truncate">{candidate.currentCTC || '--'}</span>
+                                <EvidenceFlag candidate={candidate} field="currentCTC" label="Current CTC" />
+                                <span className="font-semibold text-slate-900 dark:text-white bg-slate-100 dark:bg-slate-700 px-1.5 py-0.5 rounded text-[11px] min-w-[60px] text-right truncate" title={getEvidenceTitle(candidate, 'currentCTC', 'Current CTC')}>
+                                    <EditableCell field="currentCTC" value={candidate.currentCTC} onSave={saveField}>{candidate.currentCTC || '--'}</EditableCell>
+                                </span>
                             </div>
+                            {renderAnnualCompensation(candidate.currentCompensation)}
                             <div className="flex justify-between gap-2 items-center">
                                 <span className="text-slate-500 dark:text-slate-400 font-medium w-8">Exp:</span>
-                                <span className="font-semibold text-slate-900 dark:text-white bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-1.5 py-0.5 rounded text-[11px] min-w-[60px] text-right truncate">{candidate.expectedCTC || '--'}</span>
+                                <EvidenceFlag candidate={candidate} field="expectedCTC" label="Expected CTC" />
+                                <span className="font-semibold text-slate-900 dark:text-white bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-1.5 py-0.5 rounded text-[11px] min-w-[60px] text-right truncate" title={getEvidenceTitle(candidate, 'expectedCTC', 'Expected CTC')}>
+                                    <EditableCell field="expectedCTC" value={candidate.expectedCTC} onSave={saveField}>{candidate.expectedCTC || '--'}</EditableCell>
+                                </span>
                             </div>
+                            {renderAnnualCompensation(candidate.expectedCompensation)}
                         </div>
                     </td>
 
                     {/* Notice */}
                     <td className="px-6 py-4 align-middle whitespace-nowrap">
-                        <span className={`text-xs px-2 py-1 rounded-md font-semibold border block text-center truncate max-w-[100px]
-                            ${(candidate.noticePeriod?.toLowerCase().includes('immediate') || candidate.noticePeriod?.toLowerCase().includes('15')) 
-                                ? 'text-emerald-700 bg-emerald-50 border-emerald-100 dark:text-emerald-400 dark:bg-emerald-900/20 dark:border-emerald-800' 
-                                : 'text-slate-600 bg-slate-50 border-slate-200 dark:text-slate-400 dark:bg-slate-700 dark:border-slate-600'
-                            }`}
-                            title={candidate.noticePeriod}
-                        >
-                            {candidate.noticePeriod || 'N/A'}
-                        </span>
+                        <div className="flex items-center gap-1.5">
+                            <span className={`text-xs px-2 py-1 rounded-md font-semibold border block text-center truncate max-w-[100px]
+                                ${(getDaysUntilAvailable(candidate.notice) ?? Infinity) <= 15
+                                    ? 'text-emerald-700 bg-emerald-50 border-emerald-100 dark:text-emerald-400 dark:bg-emerald-900/20 dark:border-emerald-800' 
+                                    : 'text-slate-600 bg-slate-50 border-slate-200 dark:text-slate-400 dark:bg-slate-700 dark:border-slate-600'
+                                }`}
+                                title={getEvidenceTitle(candidate, 'noticePeriod', 'Notice period') ?? candidate.noticePeriod}
+                            >
+                                <EditableCell field="noticePeriod" value={candidate.noticePeriod} onSave={saveField}>
+                                    {candidate.noticePeriod || 'N/A'}
+                                </EditableCell>
+                            </span>
+                            <EvidenceFlag candidate={candidate} field="noticePeriod" label="Notice period" />
+                        </div>
+                        {(candidate.notice?.isServingNotice || formatNoticePeriod(candidate.notice)) && (
+                            <div className="mt-1 flex items-center gap-1 text-[10px] text-slate-400 dark:text-slate-500">
+                                {candidate.notice?.isServingNotice && (
+                                    <span className="px-1 rounded font-semibold uppercase tracking-wide text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/30">Serving</span>
+                                )}
+                                <span>{formatNoticePeriod(candidate.notice)}</span>
+                            </div>
+                        )}
                     </td>
 
                     {/* Location */}
                     <td className="px-6 py-4 align-middle whitespace-nowrap">
-                         <div className="flex items-center gap-1.5 text-sm text-slate-600 dark:text-slate-300 max-w-[140px]" title={candidate.currentLocation}>
+                         <div className="flex items-center gap-1.5 text-sm text-slate-600 dark:text-slate-300 max-w-[140px]" title={getEvidenceTitle(candidate, 'currentLocation', 'Location') ?? candidate.currentLocation}>
                             <svg className="w-3.5 h-3.5 text-slate-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
-                            <span className="truncate">{candidate.currentLocation || 'N/A'}</span>
+                            <EditableCell field="currentLocation" value={candidate.currentLocation} onSave={saveField} className="min-w-0">
+                                <span className="truncate block">{candidate.currentLocation || 'N/A'}</span>
+                            </EditableCell>
+                            <EvidenceFlag candidate={candidate} field="currentLocation" label="Location" />
                          </div>
                     </td>
 
+                    {/* Education */}
+                    <td className="px-6 py-4 align-middle whitespace-nowrap">
+                        <div className="flex flex-col max-w-[160px]">
+                            <div className="text-sm font-medium text-slate-700 dark:text-slate-200 flex items-center gap-1.5" title={getEvidenceTitle(candidate, 'highestQualification', 'Qualification') ?? candidate.highestQualification}>
+                                <EditableCell field="highestQualification" value={candidate.highestQualification} onSave={saveField} className="min-w-0">
+                                    <span className="truncate block">{candidate.highestQualification || 'N/A'}</span>
+                                </EditableCell>
+                                <EvidenceFlag candidate={candidate} field="highestQualification" label="Qualification" />
+                            </div>
+                            <div className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1.5" title={getEvidenceTitle(candidate, 'educationField', 'Education field') ?? candidate.educationField}>
+                                <EditableCell field="educationField" value={candidate.educationField} onSave={saveField} className="min-w-0">
+                                    <span className="truncate block">{candidate.educationField || '--'}</span>
+                                </EditableCell>
+                                <EvidenceFlag candidate={candidate} field="educationField" label="Education field" />
+                            </div>
+                        </div>
+                    </td>
+
                     {/* Resume Link */}
                     <td className="px-6 py-4 align-middle whitespace-nowrap text-right">
                          <div className="flex flex-col items-end gap-1">
-                             <button type="button" className="text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 flex items-center gap-1 transition-colors">
+                             <button type="button" onClick={() => onOpenCandidate(candidate.id)} className="text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 flex items-center gap-1 transition-colors">
                                 <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
                                 View
                              </button>
                              <div className="text-[10px] text-slate-400 dark:text-slate-500 truncate max-w-[100px] bg-slate-50 dark:bg-slate-700/50 px-1.5 py-0.5 rounded" title={candidate.fileName}>
                                 {candidate.fileName}
                              </div>
+                             {candidate.mergedFileNames && candidate.mergedFileNames.length > 0 && (
+                                <div className="text-[10px] text-slate-400 dark:text-slate-500" title={candidate.mergedFileNames.join('\n')}>
+                                    +{candidate.mergedFileNames.length} more
+                                </div>
+                             )}
+                             {candidate.extraction && (
+                                <div className="text-[10px] text-slate-400 dark:text-slate-500" title={getExtractionTitle(candidate)}>
+                                    {EXTRACTION_LABELS[candidate.extraction.method]}
+                                </div>
+                             )}
                          </div>
                     </td>
                 </tr>
+                {snippets.length > 0 && (
+                    <tr className={`border-t-0 ${isSelected ? 'bg-indigo-50/60 dark:bg-indigo-900/10' : ''}`}>
+                        <td></td>
+                        <td colSpan={COLUMN_COUNT - 1} className="px-6 pb-3 pt-0 text-xs text-slate-500 dark:text-slate-400 space-y-1">
+                            {snippets.map((segments, i) => (
+                                <p key={i} className="leading-relaxed">
+                                    {segments.map((segment, j) => segment.isMatch
+                                        ? <mark key={j} className="bg-yellow-200 dark:bg-yellow-500/30 text-slate-900 dark:text-yellow-100 rounded px-0.5">{segment.text}</mark>
+                                        : <span key={j}>{segment.text}</span>)}
+                                </p>
+                            ))}
+                        </td>
+                    </tr>
+                )}
+                </React.Fragment>
                 );
             })}
         </tbody>
@@ -0,0 +1,82 @@
+import React from 'react';
+import type { Candidate } from '../types';
+import { computeExperienceFromHistory, findEmploymentGaps, formatDuration, formatMonthIndex, formatRolePeriod, sortEmploymentHistory } from '../services/historyService';
+
+interface CandidateTimelineProps {
+  candidate: Candidate;
+}
+
+/**
+ * Employment timeline (most recent first, with gaps called out) and education list.
+ */
+const CandidateTimeline: React.FC<CandidateTimelineProps> = ({ candidate }) => {
+  const roles = sortEmploymentHistory(candidate.employmentHistory);
+  const education = candidate.educationHistory ?? [];
+  const gaps = findEmploymentGaps(roles);
+  const computedExperience = computeExperienceFromHistory(roles);
+
+  if (roles.length === 0 && education.length === 0) {
+    return <p className="text-xs italic text-slate-400">No employment or education history was extracted.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {roles.length > 0 && (
+        <div>
+          <div className="flex items-baseline justify-between mb-2">
+            <h3 className="text-[11px] font-bold uppercase tracking-wider text-slate-400">Employment</h3>
+            {computedExperience !== null && (
+              <span className="text-[11px] text-slate-500 dark:text-slate-400">{computedExperience} yrs total</span>
+            )}
+          </div>
+          <ol className="relative border-l-2 border-indigo-100 dark:border-indigo-900/60 ml-1.5 space-y-4">
+            {roles.map((role, index) => (
+              <li key={`${role.company}-${role.startDate}-${index}`} className="ml-4">
+                <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full border-2 border-white dark:border-slate-800 ${index === 0 ? 'bg-indigo-500' : 'bg-slate-300 dark:bg-slate-600'}`}></span>
+                <p className="text-sm font-semibold text-slate-800 dark:text-slate-100">{role.title || 'Untitled role'}</p>
+                <p className="text-xs text-slate-600 dark:text-slate-300">
+                  {role.company}{role.location ? ` · ${role.location}` : ''}
+                </p>
+                <p className="text-[11px] text-slate-400">{formatRolePeriod(role) || 'Dates not stated'}</p>
+                {role.highlights.length > 0 && (
+                  <ul className="mt-1 list-disc list-inside text-xs text-slate-500 dark:text-slate-400 space-y-0.5">
+                    {role.highlights.map((highlight, i) => <li key={i}>{highlight}</li>)}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+          {gaps.length > 0 && (
+            <div className="mt-3 space-y-1">
+              {gaps.map(gap => (
+                <p key={gap.start} className="text-[11px] text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 px-2 py-1 rounded">
+                  Gap of {formatDuration(gap.months)}: {formatMonthIndex(gap.start)} – {formatMonthIndex(gap.end)}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {education.length > 0 && (
+        <div>
+          <h3 className="text-[11px] font-bold uppercase tracking-wider text-slate-400 mb-2">Education</h3>
+          <ul className="space-y-2">
+            {education.map((entry, index) => (
+              <li key={`${entry.degree}-${entry.institution}-${index}`} className="text-xs">
+                <p className="text-sm font-semibold text-slate-800 dark:text-slate-100">
+                  {entry.degree}{entry.field ? `, ${entry.field}` : ''}
+                </p>
+                <p className="text-slate-500 dark:text-slate-400">
+                  {entry.institution}{entry.year ? ` · ${entry.year}` : ''}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandidateTimeline;
@@ -0,0 +1,72 @@
+import React from 'react';
+import type { Candidate } from '../types';
+import { formatFieldValue, getFieldLabel, getHumanVerifiedFields, getOriginalValue } from '../services/candidateFields';
+import { XCircleIcon } from './icons';
+
+interface ChangeHistoryDialogProps {
+  candidate: Candidate;
+  onClose: () => void;
+}
+
+const renderValue = (value: string) => value || <span className="italic text-slate-400">empty</span>;
+
+const ChangeHistoryDialog: React.FC<ChangeHistoryDialogProps> = ({ candidate, onClose }) => {
+  const editedFields = getHumanVerifiedFields(candidate);
+  const edits = [...(candidate.editHistory ?? [])].reverse();
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 md:p-6" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+        <header className="flex justify-between items-start p-5 border-b border-slate-100 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white">Change History</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">{candidate.fullName} · {editedFields.length} human-verified field{editedFields.length === 1 ? '' : 's'}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+            <XCircleIcon className="w-8 h-8" />
+          </button>
+        </header>
+
+        <main className="p-6 flex-grow overflow-y-auto space-y-6">
+          {editedFields.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">No manual edits yet. Click any value in the table to correct it.</p>
+          ) : (
+            <>
+              <section>
+                <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">AI value vs. current value</h3>
+                <div className="grid grid-cols-[140px_1fr_1fr] gap-x-4 gap-y-2 text-sm">
+                  <span></span>
+                  <span className="text-xs font-semibold text-slate-500">Extracted by AI</span>
+                  <span className="text-xs font-semibold text-slate-500">Human-verified</span>
+                  {editedFields.map(field => (
+                    <React.Fragment key={field}>
+                      <span className="font-medium text-slate-600 dark:text-slate-300">{getFieldLabel(field)}</span>
+                      <span className="text-slate-500 dark:text-slate-400 line-through decoration-rose-400/60 break-words">{renderValue(formatFieldValue(getOriginalValue(candidate, field)))}</span>
+                      <span className="text-emerald-700 dark:text-emerald-300 break-words">{renderValue(formatFieldValue(candidate[field]))}</span>
+                    </React.Fragment>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">All edits</h3>
+                <ul className="divide-y divide-slate-100 dark:divide-slate-700 text-sm">
+                  {edits.map((edit, index) => (
+                    <li key={`${edit.editedAt}-${index}`} className="py-2 flex flex-col gap-0.5">
+                      <span className="text-xs text-slate-400">{new Date(edit.editedAt).toLocaleString()} · {getFieldLabel(edit.field)}</span>
+                      <span className="text-slate-700 dark:text-slate-200 break-words">
+                        {renderValue(formatFieldValue(edit.previousValue))} <span className="text-slate-400">→</span> {renderValue(formatFieldValue(edit.newValue))}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeHistoryDialog;
@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import type { Candidate } from '../types';
+import type { FxTable } from '../services/compensationService';
+import type { ComparisonRow } from '../services/comparisonService';
+import { buildComparisonHtml, buildComparisonRows } from '../services/comparisonService';
+import type { RequirementCheck, RequirementStatus } from '../services/requirementsService';
+import { ExcelIcon, XCircleIcon } from './icons';
+
+interface CompareCandidatesDialogProps {
+  candidates: Candidate[];
+  requirementChecks?: Map<string, RequirementCheck[]>;
+  fxTable: FxTable;
+  requisitionTitle?: string;
+  onExport: (candidates: Candidate[], rows: ComparisonRow[]) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<RequirementStatus, { icon: string; className: string }> = {
+  pass: { icon: '✓', className: 'text-emerald-600 dark:text-emerald-400' },
+  partial: { icon: '~', className: 'text-amber-600 dark:text-amber-400' },
+  fail: { icon: '✗', className: 'text-rose-600 dark:text-rose-400' },
+};
+
+/**
+ * Column-per-candidate comparison of match scores, requirement coverage and profile
+ * fields, with the strongest value in each row highlighted. Can be printed or exported
+ * for hiring-manager discussions.
+ */
+const CompareCandidatesDialog: React.FC<CompareCandidatesDialogProps> = ({ candidates, requirementChecks, fxTable, requisitionTitle, onExport, onClose }) => {
+  const rows = useMemo(() => buildComparisonRows(candidates, requirementChecks, fxTable), [candidates, requirementChecks, fxTable]);
+  const title = requisitionTitle ? `Candidate comparison — ${requisitionTitle}` : 'Candidate comparison';
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      alert('Allow pop-ups for this site to print the comparison.');
+      return;
+    }
+    printWindow.document.write(buildComparisonHtml(candidates, rows, title));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 md:p-6" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-6xl flex flex-col max-h-[90vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+        <header className="flex justify-between items-start p-5 border-b border-slate-100 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white">Compare Candidates</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {requisitionTitle ? `Against ${requisitionTitle} · ` : ''}Highlighted cells are the strongest value in their row.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+            <XCircleIcon className="w-8 h-8" />
+          </button>
+        </header>
+
+        <main className="flex-grow overflow-auto">
+          <table className="w-full text-sm table-fixed">
+            <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900 z-10">
+              <tr>
+                <th className="w-48 p-3"></th>
+                {candidates.map(candidate => (
+                  <th key={candidate.id} className="p-3 text-left font-semibold text-slate-800 dark:text-white">
+                    <span className="block truncate">{candidate.fullName || candidate.fileName}</span>
+                    <span className="block text-xs font-normal text-slate-500 dark:text-slate-400 truncate">{candidate.designation}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-700/50">
+              {rows.map((row, rowIndex) => (
+                <React.Fragment key={`${row.section}:${row.label}`}>
+                  {row.section !== rows[rowIndex - 1]?.section && (
+                    <tr>
+                      <th colSpan={candidates.length + 1} className="px-3 pt-4 pb-1 text-left text-[11px] font-bold uppercase tracking-wider text-slate-400">
+                        {row.section}
+                      </th>
+                    </tr>
+                  )}
+                  <tr>
+                    <th className="p-3 text-left align-top text-xs font-medium text-slate-500 dark:text-slate-400">{row.label}</th>
+                    {row.values.map((value, index) => {
+                      const status = row.statuses?.[index];
+                      return (
+                        <td
+                          key={candidates[index].id}
+                          className={`p-3 align-top break-words ${row.highlighted[index] ? 'bg-emerald-50 dark:bg-emerald-900/20 font-semibold text-emerald-800 dark:text-emerald-200' : 'text-slate-700 dark:text-slate-200'}`}
+                        >
+                          {status && <span className={`mr-1 font-bold ${STATUS_STYLES[status].className}`}>{STATUS_STYLES[status].icon}</span>}
+                          {value}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </main>
+
+        <footer className="flex justify-end items-center gap-3 p-4 border-t border-slate-100 dark:border-slate-700">
+          <button onClick={() => onExport(candidates, rows)} className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 dark:text-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 rounded-lg transition-colors">
+            <ExcelIcon className="w-4 h-4" /> Export
+          </button>
+          <button onClick={handlePrint} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors">
+            Print
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default CompareCandidatesDialog;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { LogoIcon, XCircleIcon } from './icons';
+import { getDocumentKind, renderDocxHtml, renderImagePreview, renderPdfPages } from '../services/documentPreviewService';
+
+interface DocumentViewerProps {
+  file: File;
+}
+
+const READING_SCALE = 1.3; // pdf.js scale for readable full-width pages
+
+type ViewerContent =
+  | { kind: 'pdf'; pages: string[] }
+  | { kind: 'image'; url: string }
+  | { kind: 'docx'; html: string }
+  | { kind: 'unsupported' };
+
+/**
+ * Read-only rendering of an uploaded resume, one page under another.
+ */
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ file }) => {
+  const [content, setContent] = useState<ViewerContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Stop rendering pages of a document the user has already navigated away from
+    const controller = new AbortController();
+    setContent(null);
+    setError(null);
+
+    const load = async (): Promise<ViewerContent> => {
+      const kind = getDocumentKind(file);
+      if (kind === 'pdf') return { kind, pages: await renderPdfPages(file, READING_SCALE, controller.signal) };
+      if (kind === 'image') return { kind, url: await renderImagePreview(file) };
+      if (kind === 'docx') return { kind, html: await renderDocxHtml(file) };
+      return { kind };
+    };
+
+    load()
+      .then(loaded => { if (!controller.signal.aborted) setContent(loaded); })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Failed to load file preview:", err);
+        setError(err instanceof Error ? err.message : "An unknown error occurred.");
+      });
+
+    return () => controller.abort();
+  }, [file]);
+
+  if (error) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center text-rose-500 p-6">
+        <XCircleIcon className="w-12 h-12 mb-2" />
+        <p className="font-semibold">Error Loading Preview</p>
+        <p className="text-sm">{error}</p>
+      </div>
+    );
+  }
+
+  if (!content) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center gap-2">
+        <LogoIcon className="w-12 h-12 text-indigo-500 animate-spin" />
+        <p className="text-slate-600 dark:text-slate-400">Loading Preview...</p>
+      </div>
+    );
+  }
+
+  switch (content.kind) {
+    case 'pdf':
+      return (
+        <div className="space-y-4">
+          {content.pages.map((page, index) => (
+            <img key={index} src={page} alt={`Page ${index + 1}`} className="w-full h-auto block rounded shadow-sm border border-slate-200 dark:border-slate-700 bg-white" />
+          ))}
+        </div>
+      );
+    case 'image':
+      return <img src={content.url} alt="Resume" className="w-full h-auto object-contain rounded shadow-sm" />;
+    case 'docx':
+      return (
+        <div className="p-6 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg shadow-inner">
+          <div className="prose prose-sm dark:prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: content.html }} />
+        </div>
+      );
+    default:
+      return <p className="text-center text-slate-500">Preview is not available for this file type.</p>;
+  }
+};
+
+export default DocumentViewer;
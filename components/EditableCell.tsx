@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import type { EditableField, EditableValue } from '../types';
+import { getFieldKind, getFieldLabel, validateFieldValue } from '../services/candidateFields';
+
+interface EditableCellProps {
+  field: EditableField;
+  value: EditableValue;
+  onSave: (field: EditableField, value: EditableValue) => void;
+  children: React.ReactNode;
+  className?: string;
+}
+
+const INPUT_TYPES = {
+  text: 'text',
+  number: 'number',
+  email: 'email',
+  phone: 'tel',
+  date: 'text',
+} as const;
+
+const inputClassName = "w-full text-sm px-2 py-1 rounded-md border bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const EditableCell: React.FC<EditableCellProps> = ({ field, value, onSave, children, className = '' }) => {
+  const kind = getFieldKind(field);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft(kind === 'tags' ? '' : String(value ?? ''));
+    setTags(Array.isArray(value) ? value : []);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const cancel = () => {
+    setIsEditing(false);
+    setError(null);
+  };
+
+  const addTag = (raw: string) => {
+    const tag = raw.trim().replace(/,$/, '').trim();
+    if (tag && !tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      setTags(prev => [...prev, tag]);
+    }
+    setDraft('');
+  };
+
+  const save = () => {
+    let next: EditableValue;
+    if (kind === 'tags') {
+      next = draft.trim() ? [...tags, draft.trim()] : tags;
+    } else if (kind === 'number') {
+      next = draft.trim() === '' ? 0 : Number(draft);
+    } else {
+      next = draft;
+    }
+
+    const validationError = validateFieldValue(field, next);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSave(field, next);
+    setIsEditing(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      cancel();
+    } else if (kind === 'tags' && (e.key === ',' || (e.key === 'Enter' && draft.trim()))) {
+      e.preventDefault();
+      addTag(draft);
+    } else if (kind === 'tags' && e.key === 'Backspace' && draft === '' && tags.length > 0) {
+      setTags(prev => prev.slice(0, -1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      save();
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={startEditing}
+        onKeyDown={e => { if (e.key === 'Enter') startEditing(); }}
+        className={`cursor-text rounded-md -mx-1 px-1 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 hover:ring-1 hover:ring-indigo-200 dark:hover:ring-indigo-800 transition-colors ${className}`}
+        aria-label={`Edit ${getFieldLabel(field)}`}
+      >
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`min-w-[160px] ${className}`} onBlur={e => {
+      // Save when focus leaves the editor entirely, not when moving between its own controls
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) save();
+    }}>
+      {kind === 'tags' ? (
+        <div className={`flex flex-wrap gap-1 p-1 rounded-md border bg-white dark:bg-slate-900 ${error ? 'border-rose-400' : 'border-indigo-300 dark:border-indigo-700'}`}>
+          {tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-200 px-1.5 py-0.5 rounded text-[11px]">
+              {tag}
+              <button
+                type="button"
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => setTags(prev => prev.filter(t => t !== tag))}
+                className="text-indigo-400 hover:text-rose-500"
+                aria-label={`Remove ${tag}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <input
+            autoFocus
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Add skill…"
+            className="flex-grow min-w-[80px] text-xs px-1 py-0.5 bg-transparent text-slate-900 dark:text-white focus:outline-none"
+          />
+        </div>
+      ) : (
+        <input
+          autoFocus
+          type={INPUT_TYPES[kind]}
+          step={kind === 'number' ? 0.1 : undefined}
+          min={kind === 'number' ? 0 : undefined}
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={kind === 'date' ? 'YYYY-MM-DD' : getFieldLabel(field)}
+          className={`${inputClassName} ${error ? 'border-rose-400' : 'border-indigo-300 dark:border-indigo-700'}`}
+        />
+      )}
+      {error && <p className="mt-1 text-[10px] text-rose-600 dark:text-rose-400 whitespace-normal">{error}</p>}
+    </div>
+  );
+};
+
+export default EditableCell;
@@ -6,9 +6,28 @@ import { UploadIcon, CheckCircleIcon, XCircleIcon, ClockIcon } from './icons';
 interface FileUploadProps {
   onFilesSelected: (files: FileList) => void;
   statuses: Map<string, FileStatus>;
+  // 1-based position of each waiting file in the shared job queue
+  queuePositions: Map<string, number>;
+  isPaused: boolean;
+  onTogglePause: () => void;
+  onCancelFile: (fileName: string) => void;
+  onRetryFile: (fileName: string) => void;
+  onRemoveFile: (fileName: string) => void;
+  // Short-lived message about the last upload, e.g. skipped duplicates
+  notice?: string | null;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, statuses }) => {
+const FileUpload: React.FC<FileUploadProps> = ({
+  onFilesSelected,
+  statuses,
+  queuePositions,
+  isPaused,
+  onTogglePause,
+  onCancelFile,
+  onRetryFile,
+  onRemoveFile,
+  notice
+}) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleDragEnter = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -48,12 +67,44 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, statuses }) =>
 
   const getStatusIcon = (status: FileStatus) => {
     switch(status.status) {
+      case 'queued': return <ClockIcon className="w-5 h-5 text-slate-400" />;
       case 'parsing': return <ClockIcon className="w-5 h-5 text-indigo-500 animate-spin" />;
       case 'success': return <CheckCircleIcon className="w-5 h-5 text-emerald-500" />;
       case 'error': return <XCircleIcon className="w-5 h-5 text-rose-500" />;
+      case 'cancelled': return <XCircleIcon className="w-5 h-5 text-slate-400" />;
     }
   }
 
+  const getStatusLabel = (fileName: string, status: FileStatus) => {
+    if (status.status !== 'queued') return status.status;
+    if (status.retryAttempt) return `retrying (attempt ${status.retryAttempt + 1})`;
+    const position = queuePositions.get(fileName);
+    const label = position ? `queued · #${position}` : 'queued';
+    return isPaused ? `${label} (paused)` : label;
+  };
+
+  const renderFileAction = (fileName: string, status: FileStatus) => {
+    const buttonClassName = "text-xs font-medium px-2 py-0.5 rounded transition-colors";
+    switch (status.status) {
+      case 'queued':
+        // A retry waiting for its backoff has already started once, so it is cancelled rather than removed
+        return status.retryAttempt ? (
+          <button type="button" onClick={() => onCancelFile(fileName)} className={`${buttonClassName} text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700`}>Cancel</button>
+        ) : (
+          <button type="button" onClick={() => onRemoveFile(fileName)} className={`${buttonClassName} text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700`}>Remove</button>
+        );
+      case 'parsing':
+        return <button type="button" onClick={() => onCancelFile(fileName)} className={`${buttonClassName} text-rose-600 hover:bg-rose-50 dark:text-rose-400 dark:hover:bg-rose-900/20`}>Cancel</button>;
+      case 'error':
+      case 'cancelled':
+        return <button type="button" onClick={() => onRetryFile(fileName)} className={`${buttonClassName} text-indigo-600 hover:bg-indigo-50 dark:text-indigo-400 dark:hover:bg-indigo-900/20`}>Retry</button>;
+      default:
+        return null;
+    }
+  };
+
+  const hasPendingFiles = Array.from<FileStatus>(statuses.values()).some(s => s.status === 'queued' || s.status === 'parsing');
+
   return (
     <div className="space-y-8">
       <div
@@ -90,13 +141,30 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, statuses }) =>
         </div>
       </div>
 
+      {notice && (
+        <p className="-mt-4 text-sm text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/20 px-3 py-2 rounded-lg border border-amber-100 dark:border-amber-800/50">
+          {notice}
+        </p>
+      )}
+
       {statuses.size > 0 && (
         <div className="space-y-3">
             <div className="flex items-center justify-between">
                  <h3 className="text-sm font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">Upload Queue</h3>
-                 <span className="text-xs font-medium px-2 py-1 bg-slate-100 dark:bg-slate-700 rounded-full text-slate-600 dark:text-slate-300">
-                     {statuses.size} Files
-                 </span>
+                 <div className="flex items-center gap-2">
+                     {(hasPendingFiles || isPaused) && (
+                         <button
+                             type="button"
+                             onClick={onTogglePause}
+                             className="text-xs font-medium px-2 py-1 rounded-full border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                         >
+                             {isPaused ? 'Resume' : 'Pause'}
+                         </button>
+                     )}
+                     <span className="text-xs font-medium px-2 py-1 bg-slate-100 dark:bg-slate-700 rounded-full text-slate-600 dark:text-slate-300">
+                         {statuses.size} Files
+                     </span>
+                 </div>
             </div>
             
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -109,10 +177,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, statuses }) =>
                                 </div>
                                 <div className="min-w-0">
                                     <p className="truncate text-sm font-medium text-slate-700 dark:text-slate-200" title={fileName}>{fileName}</p>
-                                    <p className="text-xs text-slate-500 dark:text-slate-400 capitalize">{fileStatus.status}</p>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400 capitalize">{getStatusLabel(fileName, fileStatus)}</p>
                                 </div>
                             </div>
-                            {getStatusIcon(fileStatus)}
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                                {renderFileAction(fileName, fileStatus)}
+                                {getStatusIcon(fileStatus)}
+                            </div>
                         </div>
 
                         {fileStatus.status === 'parsing' && (
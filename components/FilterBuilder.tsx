@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import type { CandidateFilters, FilterPreset } from '../services/filterService';
+import { EMPTY_FILTERS, countActiveFilters, filtersToQueryString, parseSkillExpression } from '../services/filterService';
+import type { FxTable } from '../services/compensationService';
+import type { PipelineStage, TagDefinition } from '../types';
+import { MAX_RATING } from '../services/annotationService';
+import { StarIcon, TrashIcon } from './icons';
+
+interface FilterBuilderProps {
+  filters: CandidateFilters;
+  onChange: (filters: CandidateFilters) => void;
+  presets: FilterPreset[];
+  onPresetsChange: (presets: FilterPreset[]) => void;
+  fxTable: FxTable;
+  stages: PipelineStage[];
+  tagDefinitions: TagDefinition[];
+  matchingCount: number;
+  totalCount: number;
+}
+
+const inputClassName = "w-full px-2 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white";
+const labelClassName = "block text-[11px] font-bold uppercase tracking-wider text-slate-400 mb-1";
+
+const RANGES: { label: string; min: keyof CandidateFilters; max: keyof CandidateFilters; placeholder: string }[] = [
+  { label: 'Total Experience (Yrs)', min: 'minTotalExperience', max: 'maxTotalExperience', placeholder: 'e.g. 3' },
+  { label: 'Relevant Experience (Yrs)', min: 'minRelevantExperience', max: 'maxRelevantExperience', placeholder: 'e.g. 2' },
+  { label: 'Current CTC', min: 'minCurrentCTC', max: 'maxCurrentCTC', placeholder: 'e.g. 18 L' },
+  { label: 'Expected CTC', min: 'minExpectedCTC', max: 'maxExpectedCTC', placeholder: 'e.g. 25 L' },
+  { label: 'Match %', min: 'minMatchScore', max: 'maxMatchScore', placeholder: '0-100' },
+];
+
+const TEXT_FIELDS: { key: keyof CandidateFilters; label: string }[] = [
+  { key: 'designation', label: 'Designation' },
+  { key: 'currentLocation', label: 'Location' },
+  { key: 'noticePeriod', label: 'Notice Period Text' },
+];
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ filters, onChange, presets, onPresetsChange, fxTable, stages, tagDefinitions, matchingCount, totalCount }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const activeCount = countActiveFilters(filters);
+  const skillError = parseSkillExpression(filters.skills).error;
+  const activePreset = presets.find(preset => JSON.stringify(preset.filters) === JSON.stringify(filters));
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    onChange({ ...filters, [name]: e.target instanceof HTMLInputElement && e.target.type === 'checkbox' ? e.target.checked : value });
+  };
+
+  const handleApplyPreset = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = presets.find(p => p.name === e.target.value);
+    if (preset) onChange({ ...preset.filters });
+  };
+
+  const handleSavePreset = () => {
+    const name = window.prompt('Name this filter preset:', activePreset?.name ?? '')?.trim();
+    if (!name) return;
+    // Saving under an existing name replaces that preset
+    onPresetsChange([...presets.filter(p => p.name !== name), { name, filters: { ...filters } }]);
+  };
+
+  const handleDeletePreset = () => {
+    if (!activePreset || !window.confirm(`Delete the preset "${activePreset.name}"?`)) return;
+    onPresetsChange(presets.filter(p => p.name !== activePreset.name));
+  };
+
+  const handleCopyLink = () => {
+    const url = `${window.location.origin}${window.location.pathname}${filtersToQueryString(filters)}`;
+    navigator.clipboard.writeText(url).then(() => {
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2 p-3">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="text-sm font-semibold text-slate-700 dark:text-slate-200 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+        >
+          {isExpanded ? '▾' : '▸'} Filters{activeCount > 0 ? ` (${activeCount})` : ''}
+        </button>
+        {activeCount > 0 && (
+          <span className="text-xs text-slate-500 dark:text-slate-400">Showing {matchingCount} of {totalCount}</span>
+        )}
+        <div className="flex-grow"></div>
+        <select
+          value={activePreset?.name ?? ''}
+          onChange={handleApplyPreset}
+          className="text-xs px-2 py-1 rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200"
+          title="Apply a saved preset"
+        >
+          <option value="" disabled>{presets.length ? 'Presets…' : 'No presets'}</option>
+          {presets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+        </select>
+        {activePreset && (
+          <button onClick={handleDeletePreset} className="p-1 text-slate-400 hover:text-rose-500 transition-colors" title="Delete this preset">
+            <TrashIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <button
+          onClick={handleSavePreset}
+          disabled={activeCount === 0}
+          className="text-xs font-medium px-2 py-1 rounded-md text-indigo-700 hover:bg-indigo-50 dark:text-indigo-300 dark:hover:bg-indigo-900/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          Save preset
+        </button>
+        <button
+          onClick={handleCopyLink}
+          disabled={activeCount === 0}
+          className="text-xs font-medium px-2 py-1 rounded-md text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          title="Copy a link that opens the app with these filters"
+        >
+          {isLinkCopied ? 'Link copied!' : 'Copy link'}
+        </button>
+        <button
+          onClick={() => onChange({ ...EMPTY_FILTERS })}
+          disabled={activeCount === 0}
+          className="text-xs font-medium px-2 py-1 rounded-md text-rose-600 hover:bg-rose-50 dark:text-rose-400 dark:hover:bg-rose-900/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          Clear
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 p-4 border-t border-slate-100 dark:border-slate-700">
+          <div className="md:col-span-2 lg:col-span-4">
+            <label htmlFor="filter-skills" className={labelClassName}>Skills</label>
+            <input
+              id="filter-skills"
+              name="skills"
+              value={filters.skills}
+              onChange={handleChange}
+              placeholder='React AND (AWS OR GCP) NOT PHP'
+              className={`${inputClassName} font-mono ${skillError ? 'border-rose-400 dark:border-rose-500' : ''}`}
+            />
+            <p className={`text-[11px] mt-1 ${skillError ? 'text-rose-600 dark:text-rose-400' : 'text-slate-400'}`}>
+              {skillError ?? 'Combine skills with AND, OR, NOT and parentheses. Quote names that contain an operator word.'}
+            </p>
+          </div>
+
+          {TEXT_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label htmlFor={`filter-${key}`} className={labelClassName}>{label}</label>
+              <input id={`filter-${key}`} name={key} value={filters[key] as string} onChange={handleChange} placeholder="Contains…" className={inputClassName} />
+            </div>
+          ))}
+
+          <div>
+            <label htmlFor="filter-stage" className={labelClassName}>Pipeline Stage</label>
+            <select id="filter-stage" name="stage" value={filters.stage} onChange={handleChange} className={inputClassName}>
+              <option value="">Any stage</option>
+              {stages.map(stage => <option key={stage.id} value={stage.id}>{stage.label}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filter-tag" className={labelClassName}>Tag</label>
+            <select id="filter-tag" name="tag" value={filters.tag} onChange={handleChange} className={inputClassName}>
+              <option value="">Any tag</option>
+              {tagDefinitions.map(tag => <option key={tag.name} value={tag.name}>{tag.name}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filter-minRating" className={labelClassName}>Rating</label>
+            <select id="filter-minRating" name="minRating" value={filters.minRating} onChange={handleChange} className={inputClassName}>
+              <option value="">Any rating</option>
+              {Array.from({ length: MAX_RATING }, (_, index) => index + 1).map(rating => (
+                <option key={rating} value={String(rating)}>{'★'.repeat(rating)}{rating < MAX_RATING ? ' or more' : ''}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filter-notes" className={labelClassName}>Notes</label>
+            <input id="filter-notes" name="notes" value={filters.notes} onChange={handleChange} placeholder="Contains…" className={inputClassName} />
+          </div>
+
+          <div>
+            <span className={labelClassName}>Joins Within</span>
+            <div className="flex items-center gap-1.5">
+              <input
+                name="joinWithinDays"
+                type="number"
+                min={0}
+                value={filters.joinWithinDays}
+                onChange={handleChange}
+                placeholder="days"
+                className={`${inputClassName} w-20`}
+                aria-label="Days"
+              />
+              <span className="text-xs text-slate-500 dark:text-slate-400">of</span>
+              <input name="joinByDate" type="date" value={filters.joinByDate} onChange={handleChange} className={inputClassName} aria-label="Date (defaults to today)" />
+            </div>
+          </div>
+
+          {RANGES.map(({ label, min, max, placeholder }) => (
+            <div key={label}>
+              <span className={labelClassName}>
+                {label}{min.endsWith('CTC') ? ` (annual, ${fxTable.baseCurrency})` : ''}
+              </span>
+              <div className="flex items-center gap-1.5">
+                <input name={min} value={filters[min] as string} onChange={handleChange} placeholder={placeholder} className={inputClassName} aria-label={`Minimum ${label}`} />
+                <span className="text-xs text-slate-400">–</span>
+                <input name={max} value={filters[max] as string} onChange={handleChange} placeholder="max" className={inputClassName} aria-label={`Maximum ${label}`} />
+              </div>
+            </div>
+          ))}
+
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200 self-end pb-1.5 cursor-pointer">
+            <input name="shortlistedOnly" type="checkbox" checked={filters.shortlistedOnly} onChange={handleChange} className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+            <StarIcon className="w-4 h-4 text-amber-400" filled /> Shortlisted only
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,185 @@
+import React from 'react';
+import type { Candidate, InterviewKit, InterviewQuestion, InterviewQuestionCategory } from '../types';
+import { INTERVIEW_CATEGORY_LABELS, buildInterviewKitHtml, createInterviewQuestion, getInterviewKitFileName } from '../services/interviewKitService';
+import { TrashIcon, XCircleIcon } from './icons';
+
+interface InterviewKitDialogProps {
+  candidate: Candidate;
+  kit: InterviewKit | undefined;
+  requisitionTitle: string;
+  // Gaps the generated gap questions will target
+  gaps: string[];
+  isGenerating: boolean;
+  onGenerate: () => void;
+  onChange: (kit: InterviewKit) => void;
+  onClose: () => void;
+}
+
+const fieldClassName = "w-full px-2 py-1.5 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white";
+
+const CATEGORIES = Object.keys(INTERVIEW_CATEGORY_LABELS) as InterviewQuestionCategory[];
+
+/**
+ * Generates, edits and exports the interview kit for one candidate against the active
+ * requisition. Edits are saved as each field loses focus.
+ */
+const InterviewKitDialog: React.FC<InterviewKitDialogProps> = ({ candidate, kit, requisitionTitle, gaps, isGenerating, onGenerate, onChange, onClose }) => {
+  const name = candidate.fullName || candidate.fileName;
+
+  const saveQuestions = (questions: InterviewQuestion[]) => {
+    if (!kit) return;
+    onChange({ ...kit, questions, editedAt: new Date().toISOString() });
+  };
+
+  const updateQuestion = (id: string, changes: Partial<InterviewQuestion>) => {
+    const question = kit?.questions.find(q => q.id === id);
+    if (!kit || !question || Object.entries(changes).every(([key, value]) => question[key as keyof InterviewQuestion] === value)) return;
+    saveQuestions(kit.questions.map(q => q.id === id ? { ...q, ...changes } : q));
+  };
+
+  const handleRegenerate = () => {
+    if (kit?.editedAt && !window.confirm('Regenerating replaces your edited questions. Continue?')) return;
+    onGenerate();
+  };
+
+  const handlePrint = () => {
+    if (!kit) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      alert('Allow pop-ups for this site to print the interview kit.');
+      return;
+    }
+    printWindow.document.write(buildInterviewKitHtml(candidate, kit, requisitionTitle));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleDownload = () => {
+    if (!kit) return;
+    const blob = new Blob([buildInterviewKitHtml(candidate, kit, requisitionTitle)], { type: 'application/msword' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getInterviewKitFileName(candidate);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 md:p-6" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-4xl flex flex-col max-h-[90vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+        <header className="flex justify-between items-start p-5 border-b border-slate-100 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white">Interview Kit · {name}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              For {requisitionTitle}
+              {kit && ` · Generated ${new Date(kit.generatedAt).toLocaleString()}${kit.aiModel ? ` with ${kit.aiModel}` : ''}${kit.editedAt ? ' · edited' : ''}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+            <XCircleIcon className="w-8 h-8" />
+          </button>
+        </header>
+
+        <main className="p-6 flex-grow overflow-y-auto space-y-6">
+          {!kit ? (
+            <div className="text-center py-10">
+              <p className="text-sm text-slate-600 dark:text-slate-300">
+                Generate technical questions on {name}'s claimed skills and questions on the gaps found for this role, with notes on what a good answer covers.
+              </p>
+              <p className="text-xs text-slate-400 mt-2">
+                {gaps.length > 0 ? `Gaps to probe: ${gaps.join(', ')}` : 'No gaps identified yet; run the match analysis first for gap questions.'}
+              </p>
+              <button
+                onClick={onGenerate}
+                disabled={isGenerating}
+                className="mt-5 px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isGenerating ? 'Generating…' : 'Generate interview kit'}
+              </button>
+            </div>
+          ) : CATEGORIES.map(category => {
+            const questions = kit.questions.filter(question => question.category === category);
+            return (
+              <section key={category}>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-[11px] font-bold uppercase tracking-wider text-slate-400">{INTERVIEW_CATEGORY_LABELS[category]} · {questions.length}</h3>
+                  <button
+                    onClick={() => saveQuestions([...kit.questions, createInterviewQuestion(category)])}
+                    className="text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                  >
+                    + Add question
+                  </button>
+                </div>
+                {questions.length === 0 && <p className="text-sm italic text-slate-400">No questions.</p>}
+                <ol className="space-y-3">
+                  {questions.map((question, index) => (
+                    <li key={question.id} className="rounded-xl border border-slate-100 dark:border-slate-700 p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs font-bold text-slate-400 w-5">{index + 1}.</span>
+                        <input
+                          defaultValue={question.topic}
+                          onBlur={e => updateQuestion(question.id, { topic: e.target.value.trim() })}
+                          placeholder="Topic"
+                          className={`${fieldClassName} w-48 text-xs font-semibold text-indigo-700 dark:text-indigo-300`}
+                          aria-label="Topic"
+                        />
+                        <div className="flex-grow" />
+                        <button
+                          onClick={() => saveQuestions(kit.questions.filter(q => q.id !== question.id))}
+                          className="p-1 text-slate-400 hover:text-rose-500 transition-colors"
+                          title="Remove question"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <textarea
+                        defaultValue={question.question}
+                        onBlur={e => updateQuestion(question.id, { question: e.target.value.trim() })}
+                        rows={2}
+                        placeholder="Question"
+                        className={`${fieldClassName} font-medium`}
+                        aria-label="Question"
+                      />
+                      <textarea
+                        defaultValue={question.expectedAnswer}
+                        onBlur={e => updateQuestion(question.id, { expectedAnswer: e.target.value.trim() })}
+                        rows={2}
+                        placeholder="What a strong answer covers"
+                        className={`${fieldClassName} text-slate-600 dark:text-slate-300`}
+                        aria-label="Expected answer"
+                      />
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            );
+          })}
+        </main>
+
+        {kit && (
+          <footer className="flex justify-between items-center gap-3 p-4 border-t border-slate-100 dark:border-slate-700">
+            <button
+              onClick={handleRegenerate}
+              disabled={isGenerating}
+              className="text-xs font-medium text-slate-500 hover:text-indigo-600 dark:text-slate-400 dark:hover:text-indigo-400 transition-colors disabled:opacity-50"
+            >
+              {isGenerating ? 'Regenerating…' : 'Regenerate'}
+            </button>
+            <div className="flex gap-2">
+              <button onClick={handlePrint} className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-lg transition-colors">
+                Print
+              </button>
+              <button onClick={handleDownload} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors">
+                Download .doc
+              </button>
+            </div>
+          </footer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InterviewKitDialog;
@@ -1,19 +1,65 @@
 
-import React, { useState } from 'react';
-import { CheckCircleIcon, ClockIcon } from './icons';
+import React from 'react';
+import type { JobRequirements, JobRequisition, MatchAnalysisProgress } from '../types';
+import { formatRequisitionLabel } from '../services/requisitionService';
+import AnalysisProgressBar from './AnalysisProgressBar';
+import RequirementsEditor from './RequirementsEditor';
+import { CheckCircleIcon, ClockIcon, TrashIcon } from './icons';
 
 interface JobAnalysisSectionProps {
-  onAnalyze: (jobDescription: string) => void;
-  isAnalyzing: boolean;
+  requisitions: JobRequisition[];
+  activeRequisition?: JobRequisition;
+  onSelectRequisition: (id: string) => void;
+  onCreateRequisition: () => void;
+  onDeleteRequisition: (id: string) => void;
+  // Editing with no requisition selected creates one
+  onJobDescriptionChange: (jobDescription: string) => void;
+  onTitleChange: (title: string) => void;
+  onRequirementsChange: (requirements: JobRequirements) => void;
+  onExtractRequirements: () => void;
+  isExtractingRequirements: boolean;
+  onAnalyze: () => void;
+  // Null when no analysis is running
+  analysisProgress: MatchAnalysisProgress | null;
+  // Re-score every candidate instead of reusing cached results for unchanged ones
+  forceRescore: boolean;
+  onForceRescoreChange: (force: boolean) => void;
+  // Outcome of the last run, e.g. "3 scored, 12 unchanged from cache"
+  analysisSummary: string | null;
   hasCandidates: boolean;
 }
 
-const JobAnalysisSection: React.FC<JobAnalysisSectionProps> = ({ onAnalyze, isAnalyzing, hasCandidates }) => {
-  const [jobDescription, setJobDescription] = useState('');
+const JobAnalysisSection: React.FC<JobAnalysisSectionProps> = ({
+  requisitions,
+  activeRequisition,
+  onSelectRequisition,
+  onCreateRequisition,
+  onDeleteRequisition,
+  onJobDescriptionChange,
+  onTitleChange,
+  onRequirementsChange,
+  onExtractRequirements,
+  isExtractingRequirements,
+  onAnalyze,
+  analysisProgress,
+  forceRescore,
+  onForceRescoreChange,
+  analysisSummary,
+  hasCandidates
+}) => {
+  const jobDescription = activeRequisition?.jobDescription ?? '';
+  const isAnalyzing = analysisProgress !== null;
+
+  const handleDelete = () => {
+    if (!activeRequisition) return;
+    if (window.confirm(`Delete the requisition "${activeRequisition.title}" and its match scores?`)) {
+      onDeleteRequisition(activeRequisition.id);
+    }
+  };
 
   const handleSubmit = () => {
     if (jobDescription.trim()) {
-      onAnalyze(jobDescription);
+      onAnalyze();
     }
   };
 
@@ -30,7 +76,42 @@ const JobAnalysisSection: React.FC<JobAnalysisSectionProps> = ({ onAnalyze, isAn
               Analyze with JD
           </h2>
 
+          <div className="flex items-center gap-2 mb-4">
+            <select
+              value={activeRequisition?.id ?? ''}
+              onChange={(e) => onSelectRequisition(e.target.value)}
+              disabled={requisitions.length === 0}
+              className="flex-grow min-w-0 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white disabled:opacity-60"
+              aria-label="Requisition"
+              title="The selected requisition's scores drive the Match % column"
+            >
+              {requisitions.length === 0 && <option value="">No requisitions yet</option>}
+              {requisitions.map(requisition => (
+                <option key={requisition.id} value={requisition.id}>{formatRequisitionLabel(requisition)}</option>
+              ))}
+            </select>
+            <button
+              onClick={onCreateRequisition}
+              className="px-3 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 dark:text-indigo-300 dark:bg-indigo-900/30 dark:hover:bg-indigo-900/50 rounded-lg whitespace-nowrap transition-colors"
+            >
+              + New
+            </button>
+            {activeRequisition && (
+              <button onClick={handleDelete} className="p-2 text-slate-400 hover:text-rose-500 transition-colors" title="Delete requisition">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
           <div className="space-y-3 flex-grow flex flex-col">
+            <input
+              type="text"
+              value={activeRequisition?.title ?? ''}
+              onChange={(e) => onTitleChange(e.target.value)}
+              placeholder="Requisition title, e.g. Senior React Developer"
+              className="w-full px-4 py-2 text-sm font-semibold border border-slate-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white shadow-sm"
+              aria-label="Requisition title"
+            />
             <label htmlFor="jd-input" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
               Paste Job Description to calculate match scores
             </label>
@@ -39,12 +120,21 @@ const JobAnalysisSection: React.FC<JobAnalysisSectionProps> = ({ onAnalyze, isAn
               className="w-full p-4 text-sm border border-slate-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white resize-none shadow-sm flex-grow"
               placeholder="e.g. We are looking for a Senior React Developer with 5+ years of experience in AWS, TypeScript, and Node.js..."
               value={jobDescription}
-              onChange={(e) => setJobDescription(e.target.value)}
+              onChange={(e) => onJobDescriptionChange(e.target.value)}
               style={{ minHeight: '200px' }}
             />
+            {activeRequisition && (
+              <RequirementsEditor
+                requirements={activeRequisition.requirements}
+                onChange={onRequirementsChange}
+                onExtract={onExtractRequirements}
+                isExtracting={isExtractingRequirements}
+                canExtract={!!jobDescription.trim()}
+              />
+            )}
           </div>
 
-          <div className="mt-6">
+          <div className="mt-6 space-y-2">
             <button
               onClick={handleSubmit}
               disabled={isAnalyzing || !jobDescription.trim() || !hasCandidates}
@@ -53,7 +143,7 @@ const JobAnalysisSection: React.FC<JobAnalysisSectionProps> = ({ onAnalyze, isAn
               {isAnalyzing ? (
                 <>
                   <ClockIcon className="w-5 h-5 animate-spin" />
-                  Analyzing Candidates...
+                  Analyzing Candidates ({analysisProgress.done}/{analysisProgress.total})...
                 </>
               ) : !hasCandidates ? (
                  <span className="text-slate-500 dark:text-slate-400">Upload candidates first</span>
@@ -64,6 +154,19 @@ const JobAnalysisSection: React.FC<JobAnalysisSectionProps> = ({ onAnalyze, isAn
                 </>
               )}
             </button>
+            {analysisProgress && <AnalysisProgressBar progress={analysisProgress} />}
+            <div className="flex items-center justify-between gap-3 text-xs text-slate-500 dark:text-slate-400">
+              <label className="flex items-center gap-1.5 cursor-pointer" title="By default only new or edited candidates are sent; unchanged ones reuse their cached score">
+                <input
+                  type="checkbox"
+                  checked={forceRescore}
+                  onChange={(e) => onForceRescoreChange(e.target.checked)}
+                  className="w-3.5 h-3.5 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500 dark:bg-slate-700 dark:border-slate-600"
+                />
+                Force re-score all
+              </label>
+              {analysisSummary && !isAnalyzing && <span>{analysisSummary}</span>}
+            </div>
           </div>
       </div>
     </div>
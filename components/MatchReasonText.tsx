@@ -0,0 +1,37 @@
+import React from 'react';
+
+/**
+ * Renders a match analysis with backticked skills as chips and the
+ * Strong Matches / Gaps headers highlighted. Styled for a dark background.
+ */
+const MatchReasonText: React.FC<{ text: string }> = ({ text }) => {
+    // Basic bolding for Strong Matches/Gaps headers for better readability
+    const parts = text.split(/(`[^`]+`)/);
+    
+    return (
+        <span>
+            {parts.map((part, index) => {
+                if (part.startsWith('`') && part.endsWith('`')) {
+                    const content = part.slice(1, -1);
+                    return (
+                        <span key={index} className="inline-block bg-slate-700 text-slate-100 px-1.5 py-0.5 rounded border border-slate-600 font-mono text-[10px] mx-0.5 align-middle shadow-sm">
+                            {content}
+                        </span>
+                    );
+                }
+                
+                // Optional: Highlight typical headers if they exist in plain text
+                if (part.includes('Strong Matches')) {
+                    return <span key={index} className="font-bold text-emerald-400">{part}</span>;
+                }
+                if (part.includes('Gaps') || part.includes('Missing')) {
+                     return <span key={index} className="font-bold text-rose-400">{part}</span>;
+                }
+
+                return <span key={index}>{part}</span>;
+            })}
+        </span>
+    );
+};
+
+export default MatchReasonText;
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import type { Candidate } from '../types';
+import type { DuplicateMatch, DuplicateReason } from '../services/duplicateService';
+import { setTags } from '../services/annotationService';
+import { XCircleIcon } from './icons';
+
+interface MergeCandidatesDialogProps {
+  match: DuplicateMatch;
+  remainingCount: number;
+  onMerge: (merged: Candidate, removedId: string) => void;
+  onNotDuplicate: (match: DuplicateMatch) => void;
+  onClose: () => void;
+}
+
+type Choice = 'first' | 'second' | 'both';
+
+// Extracted fields a recruiter can pick between; bookkeeping fields are merged automatically
+const MERGE_FIELDS = [
+  { key: 'fullName', label: 'Full Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'mobile', label: 'Mobile' },
+  { key: 'dob', label: 'Date of Birth' },
+  { key: 'currentCompany', label: 'Current Company' },
+  { key: 'designation', label: 'Designation' },
+  { key: 'totalExperience', label: 'Total Experience (Yrs)' },
+  { key: 'relevantExperience', label: 'Relevant Experience (Yrs)' },
+  { key: 'skills', label: 'Skills' },
+  { key: 'currentCTC', label: 'Current CTC' },
+  { key: 'expectedCTC', label: 'Expected CTC' },
+  { key: 'noticePeriod', label: 'Notice Period' },
+  { key: 'highestQualification', label: 'Highest Qualification' },
+  { key: 'educationField', label: 'Education Field' },
+  { key: 'currentLocation', label: 'Current Location' },
+] as const satisfies readonly { key: keyof Candidate; label: string }[];
+
+type MergeableField = (typeof MERGE_FIELDS)[number]['key'];
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  'email': 'Same email',
+  'mobile': 'Same mobile number',
+  'name-company': 'Similar name at the same company',
+};
+
+const formatValue = (value: unknown) => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (value === undefined || value === null || value === '') return '';
+  return String(value);
+};
+
+const isEmpty = (value: unknown) => formatValue(value) === '' || value === 0;
+
+const MergeCandidatesDialog: React.FC<MergeCandidatesDialogProps> = ({ match, remainingCount, onMerge, onNotDuplicate, onClose }) => {
+  const { first, second } = match;
+
+  // Default to the first record's value unless it is empty and the second one isn't
+  const [choices, setChoices] = useState(() => {
+    const initial = {} as Record<MergeableField, Choice>;
+    MERGE_FIELDS.forEach(({ key }) => {
+      initial[key] = isEmpty(first[key]) && !isEmpty(second[key]) ? 'second' : 'first';
+    });
+    initial.skills = 'both';
+    return initial;
+  });
+
+  const handleMerge = () => {
+    const merged: Candidate = { ...first, evidence: { ...first.evidence } };
+    const takeSecond = <K extends keyof Candidate>(key: K) => {
+      merged[key] = second[key];
+    };
+    MERGE_FIELDS.forEach(({ key }) => {
+      const choice = choices[key];
+      if (key === 'skills') {
+        merged.skills = choice === 'both'
+          ? Array.from(new Set([...(first.skills ?? []), ...(second.skills ?? [])]))
+          : (choice === 'first' ? first.skills : second.skills);
+      } else if (choice === 'second') {
+        // The evidence travels with the value it supports
+        takeSecond(key);
+        merged.evidence![key] = second.evidence?.[key];
+      }
+    });
+    if (choices.currentCTC === 'second') merged.currentCompensation = second.currentCompensation;
+    if (choices.expectedCTC === 'second') merged.expectedCompensation = second.expectedCompensation;
+    if (choices.noticePeriod === 'second') merged.notice = second.notice;
+    // Structured history follows whichever record the current role was taken from
+    if (choices.currentCompany === 'second' && second.employmentHistory?.length) {
+      merged.employmentHistory = second.employmentHistory;
+    }
+    if (choices.highestQualification === 'second' && second.educationHistory?.length) {
+      merged.educationHistory = second.educationHistory;
+    }
+    const secondEdits = (second.editHistory ?? []).filter(edit => choices[edit.field] === 'second');
+    if (secondEdits.length > 0) {
+      merged.editHistory = [...(first.editHistory ?? []), ...secondEdits];
+    }
+
+    // Keep every source file and the better of the two review states
+    merged.mergedFileNames = Array.from(new Set([
+      ...(first.mergedFileNames ?? []),
+      second.fileName,
+      ...(second.mergedFileNames ?? []),
+    ])).filter(name => name !== first.fileName);
+    merged.notDuplicateOf = Array.from(new Set([...(first.notDuplicateOf ?? []), ...(second.notDuplicateOf ?? [])]));
+    // Both resumes stay searchable
+    merged.rawText = [first.rawText, second.rawText].filter(Boolean).join('\n\n');
+    // Keep every requisition's result; the first record's wins where both were analyzed
+    merged.matchResults = { ...second.matchResults, ...first.matchResults };
+    // Same for pipeline stages and interview kits
+    merged.pipeline = { ...second.pipeline, ...first.pipeline };
+    merged.interviewKits = { ...second.interviewKits, ...first.interviewKits };
+    // Recruiter annotations from both records are kept; the higher rating stands
+    merged.notes = [...(first.notes ?? []), ...(second.notes ?? [])].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    merged.tags = setTags(first, [...(first.tags ?? []), ...(second.tags ?? [])]).tags;
+    merged.rating = Math.max(first.rating ?? 0, second.rating ?? 0) || undefined;
+
+    onMerge(merged, second.id);
+  };
+
+  const renderOption = (field: MergeableField, choice: Choice, value: unknown) => (
+    <label className={`flex items-start gap-2 p-2 rounded-lg border cursor-pointer transition-colors ${choices[field] === choice ? 'border-indigo-400 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-indigo-300'}`}>
+      <input
+        type="radio"
+        name={`merge-${field}`}
+        checked={choices[field] === choice}
+        onChange={() => setChoices(prev => ({ ...prev, [field]: choice }))}
+        className="mt-0.5 text-indigo-600 focus:ring-indigo-500"
+      />
+      <span className="text-sm text-slate-700 dark:text-slate-200 break-words">
+        {formatValue(value) || <span className="italic text-slate-400">empty</span>}
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 md:p-6">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-4xl flex flex-col max-h-[95vh] animate-fade-in">
+        <header className="flex justify-between items-start p-5 border-b border-slate-100 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white">Possible Duplicate Candidate</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {match.reasons.map(reason => REASON_LABELS[reason]).join(' · ')}
+              {remainingCount > 1 && <span> — {remainingCount - 1} more to review</span>}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+            <XCircleIcon className="w-8 h-8" />
+          </button>
+        </header>
+
+        <main className="p-6 flex-grow overflow-y-auto">
+          <div className="grid grid-cols-[160px_1fr_1fr] gap-x-4 gap-y-2 items-start">
+            <div></div>
+            <p className="text-xs font-bold uppercase tracking-wider text-slate-500 truncate" title={first.fileName}>{first.fileName}</p>
+            <p className="text-xs font-bold uppercase tracking-wider text-slate-500 truncate" title={second.fileName}>{second.fileName}</p>
+            {MERGE_FIELDS.map(({ key, label }) => (
+              <React.Fragment key={key}>
+                <p className="text-sm font-medium text-slate-600 dark:text-slate-300 pt-2">{label}</p>
+                {renderOption(key, 'first', first[key])}
+                {renderOption(key, 'second', second[key])}
+                {key === 'skills' && (
+                  <>
+                    <div></div>
+                    <div className="col-span-2">{renderOption(key, 'both', Array.from(new Set([...(first.skills ?? []), ...(second.skills ?? [])])))}</div>
+                  </>
+                )}
+              </React.Fragment>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-4">Both source files are kept on the merged candidate.</p>
+        </main>
+
+        <footer className="p-5 flex justify-end gap-3 border-t border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 rounded-b-2xl">
+          <button onClick={() => onNotDuplicate(match)} className="px-5 py-2.5 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600 dark:hover:bg-slate-600">
+            Not the Same Person
+          </button>
+          <button onClick={handleMerge} className="px-5 py-2.5 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 focus:ring-4 focus:ring-indigo-300 transition-all shadow-lg shadow-indigo-500/30">
+            Merge Candidates
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default MergeCandidatesDialog;
@@ -0,0 +1,271 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { Candidate, EmailTemplate, JobRequisition } from '../types';
+import type { EmailDraft } from '../services/outreachService';
+import {
+  MERGE_FIELDS, buildEml, buildEmailDraft, buildMailtoLink, buildMergeValues, createEmailTemplate,
+  getEmlFileName, getMissingMergeFields,
+} from '../services/outreachService';
+import { TrashIcon, XCircleIcon } from './icons';
+
+interface OutreachDialogProps {
+  candidates: Candidate[];
+  requisition: JobRequisition | undefined;
+  // Candidate skills the role asks for, per candidate id
+  matchingSkills: Map<string, string[]>;
+  templates: EmailTemplate[];
+  onTemplatesChange: (templates: EmailTemplate[]) => void;
+  // Resolves with a personal note per candidate id; candidates the model skipped are left out
+  onPersonalize: (candidates: Candidate[]) => Promise<Map<string, string>>;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-2 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white";
+const labelClassName = "block text-[11px] font-bold uppercase tracking-wider text-slate-400 mb-1";
+
+const downloadText = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Drafts outreach emails for the selected candidates from a template, optionally with an
+ * AI-written personal note each. Drafts can be edited, then opened in the mail app or
+ * downloaded as .eml files.
+ */
+const OutreachDialog: React.FC<OutreachDialogProps> = ({ candidates, requisition, matchingSkills, templates, onTemplatesChange, onPersonalize, onClose }) => {
+  const [templateId, setTemplateId] = useState(templates[0]?.id ?? '');
+  const [personalNotes, setPersonalNotes] = useState<Map<string, string>>(new Map());
+  const [isPersonalizing, setIsPersonalizing] = useState(false);
+  // Drafts the recruiter changed by hand, which template edits no longer overwrite
+  const [editedDrafts, setEditedDrafts] = useState<Map<string, EmailDraft>>(new Map());
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const template = templates.find(t => t.id === templateId) ?? templates[0];
+
+  const mergeValues = useMemo(() => new Map(candidates.map(c => [
+    c.id,
+    buildMergeValues(c, requisition, matchingSkills.get(c.id) ?? [], personalNotes.get(c.id)),
+  ])), [candidates, requisition, matchingSkills, personalNotes]);
+
+  const drafts = useMemo(() => candidates.map(c => editedDrafts.get(c.id)
+    ?? (template ? buildEmailDraft(template, c, mergeValues.get(c.id)!) : { candidateId: c.id, to: c.email, subject: '', body: '' })
+  ), [candidates, template, mergeValues, editedDrafts]);
+
+  const withEmail = drafts.filter(draft => draft.to);
+
+  const updateTemplate = (changes: Partial<EmailTemplate>) => {
+    if (!template) return;
+    onTemplatesChange(templates.map(t => t.id === template.id ? { ...t, ...changes } : t));
+  };
+
+  const discardEdits = () => editedDrafts.size === 0
+    || window.confirm(`Discard your changes to ${editedDrafts.size} draft${editedDrafts.size === 1 ? '' : 's'}?`);
+
+  const handleSelectTemplate = (id: string) => {
+    if (!discardEdits()) return;
+    setEditedDrafts(new Map());
+    setTemplateId(id);
+  };
+
+  const handleNewTemplate = () => {
+    const name = window.prompt('Template name:');
+    if (!name?.trim()) return;
+    const created = createEmailTemplate(name, template?.subject ?? '', template?.body ?? '');
+    onTemplatesChange([...templates, created]);
+    setTemplateId(created.id);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!template || templates.length <= 1) return;
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+    const remaining = templates.filter(t => t.id !== template.id);
+    onTemplatesChange(remaining);
+    setTemplateId(remaining[0].id);
+  };
+
+  const insertMergeField = (key: string) => {
+    if (!template) return;
+    const textarea = bodyRef.current;
+    const position = textarea ? textarea.selectionStart : template.body.length;
+    updateTemplate({ body: `${template.body.slice(0, position)}{{${key}}}${template.body.slice(position)}` });
+  };
+
+  const handlePersonalize = async () => {
+    if (!discardEdits()) return;
+    setIsPersonalizing(true);
+    try {
+      const notes = await onPersonalize(candidates);
+      setPersonalNotes(prev => new Map([...prev, ...notes]));
+      setEditedDrafts(new Map());
+      const skipped = candidates.length - notes.size;
+      if (skipped > 0) alert(`No personal note was written for ${skipped} candidate${skipped === 1 ? '' : 's'}; their drafts use the template as is.`);
+    } catch (error) {
+      alert(`Could not personalize the drafts: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsPersonalizing(false);
+    }
+  };
+
+  const editDraft = (draft: EmailDraft, changes: Partial<EmailDraft>) => {
+    setEditedDrafts(prev => new Map(prev).set(draft.candidateId, { ...draft, ...changes }));
+  };
+
+  const handleDownloadAll = async () => {
+    for (const draft of withEmail) {
+      const candidate = candidates.find(c => c.id === draft.candidateId)!;
+      downloadText(buildEml(draft), getEmlFileName(candidate), 'message/rfc822');
+      // Browsers drop downloads started in the same tick
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 md:p-6" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-6xl flex flex-col max-h-[90vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+        <header className="flex justify-between items-start p-5 border-b border-slate-100 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white">Outreach Emails</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {candidates.length} candidate{candidates.length === 1 ? '' : 's'}{requisition ? ` · ${requisition.title}` : ''} · Opens in your own mail app; nothing is sent from here.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+            <XCircleIcon className="w-8 h-8" />
+          </button>
+        </header>
+
+        <div className="flex-grow flex flex-col lg:flex-row min-h-0">
+          <section className="lg:w-[420px] flex-shrink-0 overflow-y-auto p-5 space-y-4 border-b lg:border-b-0 lg:border-r border-slate-100 dark:border-slate-700">
+            <div>
+              <label htmlFor="outreach-template" className={labelClassName}>Template</label>
+              <div className="flex gap-2">
+                <select id="outreach-template" value={template?.id ?? ''} onChange={e => handleSelectTemplate(e.target.value)} className={inputClassName}>
+                  {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <button onClick={handleNewTemplate} className="px-3 text-xs font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 dark:text-indigo-300 dark:bg-indigo-900/30 rounded-lg whitespace-nowrap" title="New template, starting from this one">
+                  New
+                </button>
+                <button onClick={handleDeleteTemplate} disabled={templates.length <= 1} className="p-2 text-slate-400 hover:text-rose-500 disabled:opacity-30 transition-colors" title="Delete template">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {template && (
+              <>
+                <div>
+                  <label htmlFor="outreach-name" className={labelClassName}>Name</label>
+                  <input id="outreach-name" value={template.name} onChange={e => updateTemplate({ name: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="outreach-subject" className={labelClassName}>Subject</label>
+                  <input id="outreach-subject" value={template.subject} onChange={e => updateTemplate({ subject: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="outreach-body" className={labelClassName}>Body</label>
+                  <textarea id="outreach-body" ref={bodyRef} value={template.body} onChange={e => updateTemplate({ body: e.target.value })} rows={12} className={`${inputClassName} font-mono text-xs`} />
+                </div>
+                <div>
+                  <p className={labelClassName}>Insert merge field</p>
+                  <div className="flex flex-wrap gap-1">
+                    {MERGE_FIELDS.map(field => (
+                      <button
+                        key={field.key}
+                        onClick={() => insertMergeField(field.key)}
+                        className="text-[11px] font-mono px-1.5 py-0.5 rounded border border-slate-200 text-slate-600 hover:border-indigo-300 hover:text-indigo-600 dark:border-slate-600 dark:text-slate-300"
+                        title={field.label}
+                      >
+                        {`{{${field.key}}}`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="pt-3 border-t border-slate-100 dark:border-slate-700">
+              <button
+                onClick={handlePersonalize}
+                disabled={isPersonalizing || !requisition?.jobDescription.trim()}
+                className="w-full px-3 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+                title={requisition?.jobDescription.trim() ? 'Write a personal note per candidate into {{personalNote}}' : 'Add a job description to personalize drafts'}
+              >
+                {isPersonalizing ? 'Personalizing…' : personalNotes.size > 0 ? 'Personalize again with AI' : 'Personalize with AI'}
+              </button>
+              <p className="text-[11px] text-slate-400 mt-1">Fills {'{{personalNote}}'} with a line about each candidate's matching skills.</p>
+            </div>
+          </section>
+
+          <section className="flex-grow min-w-0 overflow-y-auto p-5 space-y-4 bg-slate-50 dark:bg-slate-900/40">
+            {drafts.map(draft => {
+              const candidate = candidates.find(c => c.id === draft.candidateId)!;
+              const missing = template && !editedDrafts.has(draft.candidateId) ? getMissingMergeFields(template, mergeValues.get(candidate.id)!) : [];
+              return (
+                <article key={draft.candidateId} className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-4 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-slate-800 dark:text-white truncate">{candidate.fullName || candidate.fileName}</p>
+                      <p className={`text-xs truncate ${draft.to ? 'text-slate-500 dark:text-slate-400' : 'text-rose-600 dark:text-rose-400'}`}>
+                        {draft.to || 'No email address extracted'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      {editedDrafts.has(draft.candidateId) && (
+                        <button
+                          onClick={() => setEditedDrafts(prev => { const next = new Map(prev); next.delete(draft.candidateId); return next; })}
+                          className="text-xs font-medium text-slate-500 hover:text-indigo-600 dark:text-slate-400"
+                        >
+                          Reset
+                        </button>
+                      )}
+                      <a
+                        href={draft.to ? buildMailtoLink(draft) : undefined}
+                        className={`px-3 py-1 text-xs font-medium rounded-md ${draft.to ? 'text-indigo-700 bg-indigo-50 hover:bg-indigo-100 dark:text-indigo-300 dark:bg-indigo-900/30' : 'text-slate-400 bg-slate-100 dark:bg-slate-700 pointer-events-none'}`}
+                        title="Open in your mail app. Very long emails may be cut short; use .eml instead."
+                      >
+                        Open in mail app
+                      </a>
+                      <button
+                        onClick={() => downloadText(buildEml(draft), getEmlFileName(candidate), 'message/rfc822')}
+                        disabled={!draft.to}
+                        className="px-3 py-1 text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 dark:text-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 rounded-md disabled:opacity-40"
+                      >
+                        .eml
+                      </button>
+                    </div>
+                  </div>
+                  <input value={draft.subject} onChange={e => editDraft(draft, { subject: e.target.value })} className={`${inputClassName} font-medium`} aria-label="Subject" />
+                  <textarea value={draft.body} onChange={e => editDraft(draft, { body: e.target.value })} rows={8} className={inputClassName} aria-label="Body" />
+                  {missing.length > 0 && (
+                    <p className="text-[11px] text-amber-700 dark:text-amber-300">
+                      No value for {missing.map(key => MERGE_FIELDS.find(field => field.key === key)?.label ?? key).join(', ')}; check the wording reads well.
+                    </p>
+                  )}
+                </article>
+              );
+            })}
+          </section>
+        </div>
+
+        <footer className="flex justify-between items-center gap-3 p-4 border-t border-slate-100 dark:border-slate-700">
+          <span className="text-xs text-slate-500 dark:text-slate-400">
+            {withEmail.length} of {drafts.length} draft{drafts.length === 1 ? '' : 's'} have an email address
+          </span>
+          <button
+            onClick={handleDownloadAll}
+            disabled={withEmail.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Download all as .eml ({withEmail.length})
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default OutreachDialog;
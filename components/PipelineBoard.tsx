@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import type { Candidate, PipelineStage } from '../types';
+import { getStageId } from '../services/pipelineService';
+import { LABEL_COLOR_CLASSES } from './labelColors';
+
+interface PipelineBoardProps {
+  candidates: Candidate[];
+  stages: PipelineStage[];
+  // Requisition whose pipeline is shown
+  requisitionId: string;
+  onMove: (ids: string[], stageId: string) => void;
+  onOpenCandidate: (id: string) => void;
+  onEditStages: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getDaysInStage = (candidate: Candidate, requisitionId: string): number | null => {
+  const history = candidate.pipeline?.[requisitionId]?.history ?? [];
+  const lastMove = history[history.length - 1];
+  if (!lastMove) return null;
+  return Math.floor((Date.now() - new Date(lastMove.changedAt).getTime()) / DAY_MS);
+};
+
+/**
+ * Kanban view of the active requisition's pipeline. Cards are dragged between columns
+ * to change stage; the same filters and search as the table decide which cards show.
+ */
+const PipelineBoard: React.FC<PipelineBoardProps> = ({ candidates, stages, requisitionId, onMove, onOpenCandidate, onEditStages }) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const handleDrop = (e: React.DragEvent, stageId: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const id = e.dataTransfer.getData('text/plain');
+    const candidate = candidates.find(c => c.id === id);
+    if (candidate && getStageId(candidate, requisitionId, stages) !== stageId) onMove([id], stageId);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm p-4">
+      <div className="flex justify-end mb-3">
+        <button onClick={onEditStages} className="text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline">
+          Edit stages
+        </button>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {stages.map(stage => {
+          const cards = candidates.filter(c => getStageId(c, requisitionId, stages) === stage.id);
+          return (
+            <section
+              key={stage.id}
+              onDragOver={e => { e.preventDefault(); setDropTarget(stage.id); }}
+              onDragLeave={() => setDropTarget(current => current === stage.id ? null : current)}
+              onDrop={e => handleDrop(e, stage.id)}
+              className={`w-60 flex-shrink-0 rounded-xl p-2 transition-colors ${dropTarget === stage.id ? 'bg-indigo-50 dark:bg-indigo-900/20 ring-2 ring-indigo-300 dark:ring-indigo-700' : 'bg-slate-50 dark:bg-slate-900/40'}`}
+            >
+              <header className="flex items-center justify-between px-1 pb-2">
+                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full border ${LABEL_COLOR_CLASSES[stage.color]}`}>{stage.label}</span>
+                <span className="text-xs text-slate-400">{cards.length}</span>
+              </header>
+              <ul className="space-y-2 min-h-[80px]">
+                {cards.map(candidate => {
+                  const days = getDaysInStage(candidate, requisitionId);
+                  const reason = candidate.pipeline?.[requisitionId]?.reason;
+                  return (
+                    <li
+                      key={candidate.id}
+                      draggable
+                      onDragStart={e => e.dataTransfer.setData('text/plain', candidate.id)}
+                      onClick={() => onOpenCandidate(candidate.id)}
+                      className="p-2.5 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm cursor-grab active:cursor-grabbing hover:border-indigo-300 dark:hover:border-indigo-700"
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <span className="text-sm font-semibold text-slate-800 dark:text-white truncate">{candidate.fullName || candidate.fileName}</span>
+                        {candidate.matchScore !== undefined && (
+                          <span className="text-[11px] font-bold text-indigo-600 dark:text-indigo-400">{candidate.matchScore}%</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{candidate.designation}</p>
+                      {reason && <p className="mt-1 text-[11px] text-rose-600 dark:text-rose-400 truncate" title={reason}>{reason}</p>}
+                      {days !== null && <p className="mt-1 text-[10px] text-slate-400">{days === 0 ? 'Moved today' : `${days}d in stage`}</p>}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PipelineBoard;
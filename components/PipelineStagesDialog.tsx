@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import type { PipelineStage, LabelColor } from '../types';
+import { DEFAULT_PIPELINE_STAGES, createStage } from '../services/pipelineService';
+import { ArrowDownIcon, ArrowUpIcon, TrashIcon, XCircleIcon } from './icons';
+import { LABEL_COLORS, LABEL_COLOR_CLASSES } from './labelColors';
+
+interface PipelineStagesDialogProps {
+  stages: PipelineStage[];
+  onChange: (stages: PipelineStage[]) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-2 py-1 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white";
+
+/**
+ * Edits the pipeline stages shared by every requisition. Candidates in a removed stage
+ * show in the first stage until they are moved.
+ */
+const PipelineStagesDialog: React.FC<PipelineStagesDialogProps> = ({ stages, onChange, onClose }) => {
+  const [newLabel, setNewLabel] = useState('');
+
+  const updateStage = (id: string, changes: Partial<PipelineStage>) => {
+    onChange(stages.map(stage => stage.id === id ? { ...stage, ...changes } : stage));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= stages.length) return;
+    const next = [...stages];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleDelete = (stage: PipelineStage) => {
+    if (stages.length <= 1) return;
+    if (!window.confirm(`Remove the "${stage.label}" stage? Candidates in it will show in the first stage.`)) return;
+    onChange(stages.filter(s => s.id !== stage.id));
+  };
+
+  const handleAdd = () => {
+    if (!newLabel.trim()) return;
+    onChange([...stages, createStage(newLabel)]);
+    setNewLabel('');
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace your stages with the built-in ones?')) return;
+    onChange(DEFAULT_PIPELINE_STAGES);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 md:p-6" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+        <header className="flex justify-between items-start p-5 border-b border-slate-100 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white">Pipeline Stages</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Used by every requisition's pipeline, in this order.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+            <XCircleIcon className="w-8 h-8" />
+          </button>
+        </header>
+
+        <main className="p-6 flex-grow overflow-y-auto space-y-2">
+          {stages.map((stage, index) => (
+            <div key={stage.id} className="flex items-center gap-2">
+              <div className="flex flex-col">
+                <button onClick={() => moveStage(index, -1)} disabled={index === 0} className="text-slate-400 hover:text-slate-600 disabled:opacity-30" title="Move up">
+                  <ArrowUpIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1} className="text-slate-400 hover:text-slate-600 disabled:opacity-30" title="Move down">
+                  <ArrowDownIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <input
+                value={stage.label}
+                onChange={e => updateStage(stage.id, { label: e.target.value })}
+                className={inputClassName}
+                aria-label="Stage name"
+              />
+              <select
+                value={stage.color}
+                onChange={e => updateStage(stage.id, { color: e.target.value as LabelColor })}
+                className={`${inputClassName} w-28 ${LABEL_COLOR_CLASSES[stage.color]}`}
+                aria-label="Stage colour"
+              >
+                {LABEL_COLORS.map(color => <option key={color} value={color}>{color}</option>)}
+              </select>
+              <label className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap" title="Ask for a reason when moving a candidate here">
+                <input
+                  type="checkbox"
+                  checked={!!stage.requiresReason}
+                  onChange={e => updateStage(stage.id, { requiresReason: e.target.checked })}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Reason
+              </label>
+              <button onClick={() => handleDelete(stage)} disabled={stages.length <= 1} className="p-1 text-slate-400 hover:text-rose-500 disabled:opacity-30 transition-colors" title="Remove stage">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2 pt-3">
+            <input
+              value={newLabel}
+              onChange={e => setNewLabel(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleAdd(); }}
+              placeholder="New stage, e.g. Technical Round"
+              className={inputClassName}
+            />
+            <button onClick={handleAdd} disabled={!newLabel.trim()} className="px-3 py-1 text-sm font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 dark:text-indigo-300 dark:bg-indigo-900/30 rounded-md disabled:opacity-40">
+              Add
+            </button>
+          </div>
+        </main>
+
+        <footer className="flex justify-between items-center gap-3 p-4 border-t border-slate-100 dark:border-slate-700">
+          <button onClick={handleReset} className="text-xs font-medium text-slate-500 hover:text-rose-600 dark:text-slate-400 dark:hover:text-rose-400 transition-colors">
+            Reset to built-in stages
+          </button>
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors">
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineStagesDialog;
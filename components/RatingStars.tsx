@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { MAX_RATING } from '../services/annotationService';
+import { StarIcon } from './icons';
+
+interface RatingStarsProps {
+  rating: number | undefined;
+  onChange: (rating: number | undefined) => void;
+  className?: string;
+}
+
+/** 1-5 star rating; clicking the current rating clears it. */
+const RatingStars: React.FC<RatingStarsProps> = ({ rating, onChange, className = 'w-3.5 h-3.5' }) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const shown = hovered ?? rating ?? 0;
+
+  return (
+    <div className="inline-flex items-center" onMouseLeave={() => setHovered(null)} role="group" aria-label="Rating">
+      {Array.from({ length: MAX_RATING }, (_, index) => index + 1).map(value => (
+        <button
+          key={value}
+          type="button"
+          onClick={e => { e.stopPropagation(); onChange(value === rating ? undefined : value); }}
+          onMouseEnter={() => setHovered(value)}
+          className={`p-px transition-colors ${value <= shown ? 'text-amber-400' : 'text-slate-300 dark:text-slate-600'}`}
+          title={value === rating ? 'Clear rating' : `Rate ${value} of ${MAX_RATING}`}
+        >
+          <StarIcon className={className} filled={value <= shown} />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default RatingStars;
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { RequirementCheck, RequirementStatus } from '../services/requirementsService';
+import { summarizeChecks } from '../services/requirementsService';
+
+const STATUS_STYLES: Record<RequirementStatus, { icon: string; className: string }> = {
+  pass: { icon: '✓', className: 'text-emerald-600 dark:text-emerald-400' },
+  partial: { icon: '~', className: 'text-amber-600 dark:text-amber-400' },
+  fail: { icon: '✗', className: 'text-rose-600 dark:text-rose-400' },
+};
+
+/** Pass / partial / fail list of a candidate's checks against the active requisition's requirements. */
+const RequirementChecklist: React.FC<{ checks: RequirementCheck[] }> = ({ checks }) => {
+  const { pass, partial, total } = summarizeChecks(checks);
+
+  return (
+    <div className="rounded-xl border border-slate-100 dark:border-slate-700 p-4">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-[11px] font-bold uppercase tracking-wider text-slate-400">Requirements</p>
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          {pass}/{total} met{partial > 0 ? ` · ${partial} partial` : ''}
+        </span>
+      </div>
+      <ul className="space-y-1.5">
+        {checks.map(check => (
+          <li key={check.id} className="flex items-start gap-2 text-sm">
+            <span className={`w-4 text-center font-bold ${STATUS_STYLES[check.status].className}`} aria-label={check.status}>
+              {STATUS_STYLES[check.status].icon}
+            </span>
+            <span className="min-w-0">
+              <span className="text-slate-800 dark:text-slate-100">{check.label}</span>
+              <span className="block text-xs text-slate-500 dark:text-slate-400">{check.detail}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RequirementChecklist;
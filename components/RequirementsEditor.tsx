@@ -0,0 +1,103 @@
+import React from 'react';
+import type { JobRequirements } from '../types';
+import { EMPTY_REQUIREMENTS } from '../services/requirementsService';
+import { ClockIcon } from './icons';
+
+interface RequirementsEditorProps {
+  requirements?: JobRequirements;
+  onChange: (requirements: JobRequirements) => void;
+  onExtract: () => void;
+  isExtracting: boolean;
+  canExtract: boolean;
+}
+
+const inputClassName = "w-full px-2 py-1 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white";
+
+const splitList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+const parseYears = (text: string): number | null => {
+  if (text.trim() === '') return null;
+  const years = Number(text);
+  return Number.isFinite(years) && years >= 0 ? years : null;
+};
+
+const ListField: React.FC<{ label: string; values: string[]; placeholder: string; onChange: (values: string[]) => void }> = ({ label, values, placeholder, onChange }) => (
+  <label className="block">
+    <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{label}</span>
+    <input
+      // Re-mount when the list changes outside this field, e.g. after extraction
+      key={values.join(',')}
+      defaultValue={values.join(', ')}
+      onBlur={e => onChange(splitList(e.target.value))}
+      placeholder={placeholder}
+      className={inputClassName}
+    />
+  </label>
+);
+
+/**
+ * The active requisition's structured requirements. They are filled in by extraction from
+ * the job description and can be corrected by hand before candidates are checked against them.
+ */
+const RequirementsEditor: React.FC<RequirementsEditorProps> = ({ requirements, onChange, onExtract, isExtracting, canExtract }) => {
+  const current = requirements ?? EMPTY_REQUIREMENTS;
+  const update = (changes: Partial<JobRequirements>) => onChange({ ...current, ...changes });
+
+  return (
+    <details className="rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50/60 dark:bg-slate-900/40" open={!!requirements}>
+      <summary className="flex items-center justify-between gap-2 px-3 py-2 cursor-pointer text-sm font-medium text-slate-700 dark:text-slate-300">
+        <span>Requirements{requirements ? ` · ${current.mustHaveSkills.length} must-have skills` : ''}</span>
+        <button
+          onClick={e => { e.preventDefault(); onExtract(); }}
+          disabled={!canExtract || isExtracting}
+          className="flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-md text-indigo-700 hover:bg-indigo-50 dark:text-indigo-300 dark:hover:bg-indigo-900/20 disabled:opacity-40 disabled:cursor-not-allowed"
+          title={requirements ? 'Replace these requirements with ones read from the job description' : 'Read requirements from the job description'}
+        >
+          {isExtracting && <ClockIcon className="w-3.5 h-3.5 animate-spin" />}
+          {isExtracting ? 'Extracting…' : 'Extract from JD'}
+        </button>
+      </summary>
+      <div className="px-3 pb-3 grid grid-cols-2 gap-2">
+        <div className="col-span-2">
+          <ListField label="Must-have skills" values={current.mustHaveSkills} placeholder="React, TypeScript, AWS" onChange={mustHaveSkills => update({ mustHaveSkills })} />
+        </div>
+        <div className="col-span-2">
+          <ListField label="Nice-to-have skills" values={current.niceToHaveSkills} placeholder="GraphQL, Docker" onChange={niceToHaveSkills => update({ niceToHaveSkills })} />
+        </div>
+        <label className="block">
+          <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Min experience (yrs)</span>
+          <input
+            type="number"
+            min={0}
+            value={current.minExperience ?? ''}
+            onChange={e => update({ minExperience: parseYears(e.target.value) })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Max experience (yrs)</span>
+          <input
+            type="number"
+            min={0}
+            value={current.maxExperience ?? ''}
+            onChange={e => update({ maxExperience: parseYears(e.target.value) })}
+            className={inputClassName}
+          />
+        </label>
+        <ListField label="Locations" values={current.locations} placeholder="Bangalore, Pune" onChange={locations => update({ locations })} />
+        <ListField label="Qualifications" values={current.qualifications} placeholder="B.Tech, MCA" onChange={qualifications => update({ qualifications })} />
+        <label className="block col-span-2">
+          <span className="text-xs font-medium text-slate-500 dark:text-slate-400">CTC budget</span>
+          <input
+            value={current.ctcBudget}
+            onChange={e => update({ ctcBudget: e.target.value })}
+            placeholder="e.g. 30 LPA"
+            className={inputClassName}
+          />
+        </label>
+      </div>
+    </details>
+  );
+};
+
+export default RequirementsEditor;
@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { LogoIcon, XCircleIcon } from './icons';
-import { getConfiguredPdfjsLib } from '../services/geminiService';
+import { getDocumentKind, renderDocxHtml, renderImagePreview, renderPdfPages } from '../services/documentPreviewService';
 
 const Spinner: React.FC = () => (
   <div className="flex flex-col items-center justify-center gap-2">
@@ -16,8 +16,7 @@ interface ResumePreviewerProps {
   onCancel: () => void;
 }
 
-const MAX_PREVIEW_DIMENSION = 1024; // Max width or height in pixels for preview
-const PREVIEW_QUALITY = 0.7; // JPEG quality for preview
+const THUMBNAIL_SCALE = 0.4; // pdf.js scale for page thumbnails
 
 const ResumePreviewer: React.FC<ResumePreviewerProps> = ({ file, onConfirm, onCancel }) => {
   const [isLoading, setIsLoading] = useState(true);
@@ -39,83 +38,18 @@ const ResumePreviewer: React.FC<ResumePreviewerProps> = ({ file, onConfirm, onCa
     setIsLoading(true);
     setError(null);
     try {
-        if (file.type === 'application/pdf') {
-            const pdfjsLib = await getConfiguredPdfjsLib();
-            const arrayBuffer = await file.arrayBuffer();
-            const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-            setNumPages(pdf.numPages);
-            
+        const kind = getDocumentKind(file);
+        if (kind === 'pdf') {
+            const loadedThumbnails = await renderPdfPages(file, THUMBNAIL_SCALE);
+            setNumPages(loadedThumbnails.length);
             // Auto-select all pages by default
-            if (pdf.numPages > 0) {
-                // Explicitly creating the array of page numbers [1, 2, ... numPages]
-                const allPages = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
-                setSelectedPages(new Set(allPages));
-            }
-
-            const loadedThumbnails: string[] = [];
-            for (let i = 1; i <= pdf.numPages; i++) {
-                const page = await pdf.getPage(i);
-                const viewport = page.getViewport({ scale: 0.4 });
-                const canvas = document.createElement('canvas');
-                const context = canvas.getContext('2d');
-                canvas.height = viewport.height;
-                canvas.width = viewport.width;
-                if (context) {
-                    await page.render({ canvasContext: context, viewport }).promise;
-                    loadedThumbnails.push(canvas.toDataURL('image/png'));
-                }
-            }
+            setSelectedPages(new Set(loadedThumbnails.map((_, i) => i + 1)));
             setPageThumbnails(loadedThumbnails);
-        } else if (file.type.startsWith('image/')) {
+        } else if (kind === 'image') {
             // Optimize image loading: Resize large images for preview to save memory
-            await new Promise<void>((resolve, reject) => {
-                const img = new Image();
-                const objectUrl = URL.createObjectURL(file);
-                
-                img.onload = () => {
-                    const canvas = document.createElement('canvas');
-                    let width = img.width;
-                    let height = img.height;
-
-                    // Calculate new dimensions if image is too large
-                    if (width > MAX_PREVIEW_DIMENSION || height > MAX_PREVIEW_DIMENSION) {
-                        if (width > height) {
-                            height = Math.round(height * (MAX_PREVIEW_DIMENSION / width));
-                            width = MAX_PREVIEW_DIMENSION;
-                        } else {
-                            width = Math.round(width * (MAX_PREVIEW_DIMENSION / height));
-                            height = MAX_PREVIEW_DIMENSION;
-                        }
-                    }
-
-                    canvas.width = width;
-                    canvas.height = height;
-                    const ctx = canvas.getContext('2d');
-                    if (ctx) {
-                        ctx.drawImage(img, 0, 0, width, height);
-                        // Use JPEG with compression for preview
-                        setImageUrl(canvas.toDataURL('image/jpeg', PREVIEW_QUALITY));
-                    } else {
-                        // Fallback to original if context fails (unlikely)
-                        setImageUrl(objectUrl);
-                    }
-                    
-                    URL.revokeObjectURL(objectUrl); // Clean up intermediate URL
-                    resolve();
-                };
-
-                img.onerror = (e) => {
-                    URL.revokeObjectURL(objectUrl);
-                    reject(new Error("Failed to load image for resizing."));
-                };
-
-                img.src = objectUrl;
-            });
-
-        } else if (file.type.includes('wordprocessingml') || file.type.includes('msword')) {
-            const arrayBuffer = await file.arrayBuffer();
-            const result = await (window as any).mammoth.convertToHtml({ arrayBuffer });
-            setDocHtmlContent(result.value);
+            setImageUrl(await renderImagePreview(file));
+        } else if (kind === 'docx') {
+            setDocHtmlContent(await renderDocxHtml(file));
         }
     } catch (err) {
         console.error("Failed to load file preview:", err);
@@ -0,0 +1,43 @@
+import React from 'react';
+
+interface ResumeSearchBoxProps {
+  query: string;
+  onChange: (query: string) => void;
+  error?: string;
+  matchCount: number;
+  // Candidates parsed before resume text was kept; search can't see them
+  unsearchableCount: number;
+}
+
+const ResumeSearchBox: React.FC<ResumeSearchBoxProps> = ({ query, onChange, error, matchCount, unsearchableCount }) => {
+  const hasQuery = query.trim() !== '';
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <svg className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M11 19a8 8 0 100-16 8 8 0 000 16z" />
+        </svg>
+        <input
+          type="search"
+          value={query}
+          onChange={e => onChange(e.target.value)}
+          placeholder='Search resume text: "solutions architect" AND (IIT OR NIT) -intern'
+          className={`w-full pl-9 pr-28 py-2.5 text-sm bg-white dark:bg-slate-800 border rounded-xl shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:text-white ${error ? 'border-rose-400 dark:border-rose-500' : 'border-slate-200 dark:border-slate-700'}`}
+        />
+        {hasQuery && !error && (
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-slate-500 dark:text-slate-400">
+            {matchCount} match{matchCount === 1 ? '' : 'es'}
+          </span>
+        )}
+      </div>
+      {(error || (hasQuery && unsearchableCount > 0)) && (
+        <p className={`text-[11px] px-1 ${error ? 'text-rose-600 dark:text-rose-400' : 'text-slate-400'}`}>
+          {error ?? `${unsearchableCount} candidate${unsearchableCount === 1 ? ' was' : 's were'} parsed before resume text was kept and can't be searched until re-parsed.`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ResumeSearchBox;
@@ -0,0 +1,22 @@
+import React from 'react';
+import type { ScoreBreakdown } from '../types';
+
+/** Sub-score bars with each part's share of the final score, for the dark match panels. */
+const ScoreBreakdownBars: React.FC<{ breakdown: ScoreBreakdown }> = ({ breakdown }) => (
+  <ul className="space-y-1">
+    {breakdown.components.map(component => (
+      <li key={component.id} className="grid grid-cols-[88px_1fr_28px_32px] items-center gap-2" title={component.detail}>
+        <span className={component.score === null ? 'text-slate-500' : 'text-slate-300'}>{component.label}</span>
+        <span className="h-1.5 rounded-full bg-slate-700 overflow-hidden">
+          {component.score !== null && (
+            <span className="block h-full rounded-full bg-indigo-400" style={{ width: `${component.score}%` }}></span>
+          )}
+        </span>
+        <span className="text-right font-semibold text-slate-200">{component.score ?? '–'}</span>
+        <span className="text-right text-slate-500">{component.score !== null ? `${Math.round(component.weight * 100)}%` : ''}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+export default ScoreBreakdownBars;
@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import type { SkillCategory, SkillDefinition } from '../services/skillTaxonomyService';
+import { DEFAULT_SKILL_TAXONOMY, SKILL_CATEGORIES, addSkillAlias } from '../services/skillTaxonomyService';
+import { TrashIcon, XCircleIcon } from './icons';
+
+interface SkillTaxonomyDialogProps {
+  taxonomy: SkillDefinition[];
+  unknownSkills: { name: string; count: number }[];
+  onChange: (taxonomy: SkillDefinition[]) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-2 py-1 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white";
+
+const splitList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+const UnknownSkillRow: React.FC<{
+  name: string;
+  count: number;
+  canonicalNames: string[];
+  onAlias: (canonicalName: string) => void;
+  onAdd: (category: SkillCategory) => void;
+}> = ({ name, count, canonicalNames, onAlias, onAdd }) => {
+  const [target, setTarget] = useState('');
+  const [category, setCategory] = useState<SkillCategory>('other');
+
+  return (
+    <li className="py-2 flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium text-slate-800 dark:text-slate-100 min-w-[140px]">{name}</span>
+      <span className="text-xs text-slate-400 w-20">{count} candidate{count === 1 ? '' : 's'}</span>
+      <div className="flex items-center gap-1.5">
+        <select value={target} onChange={e => setTarget(e.target.value)} className={`${inputClassName} w-44`} aria-label={`Canonical skill for ${name}`}>
+          <option value="">Alias of…</option>
+          {canonicalNames.map(canonical => <option key={canonical} value={canonical}>{canonical}</option>)}
+        </select>
+        <button
+          onClick={() => onAlias(target)}
+          disabled={!target}
+          className="text-xs font-medium px-2 py-1 rounded-md text-indigo-700 hover:bg-indigo-50 dark:text-indigo-300 dark:hover:bg-indigo-900/20 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Merge
+        </button>
+      </div>
+      <span className="text-xs text-slate-400">or</span>
+      <div className="flex items-center gap-1.5">
+        <select value={category} onChange={e => setCategory(e.target.value as SkillCategory)} className={`${inputClassName} w-40`} aria-label={`Category for ${name}`}>
+          {SKILL_CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+        </select>
+        <button
+          onClick={() => onAdd(category)}
+          className="text-xs font-medium px-2 py-1 rounded-md text-emerald-700 hover:bg-emerald-50 dark:text-emerald-300 dark:hover:bg-emerald-900/20"
+        >
+          Add as skill
+        </button>
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Edits the skill dictionary: resolve skills the dictionary doesn't know by merging them
+ * into an existing skill as an alias or adding them, and adjust categories, aliases and
+ * implied parent skills of known ones.
+ */
+const SkillTaxonomyDialog: React.FC<SkillTaxonomyDialogProps> = ({ taxonomy, unknownSkills, onChange, onClose }) => {
+  const [search, setSearch] = useState('');
+  const canonicalNames = useMemo(() => taxonomy.map(d => d.name).sort((a, b) => a.localeCompare(b)), [taxonomy]);
+
+  const visibleDefinitions = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const sorted = [...taxonomy].sort((a, b) => a.name.localeCompare(b.name));
+    if (!query) return sorted;
+    return sorted.filter(d => [d.name, ...d.aliases].some(name => name.toLowerCase().includes(query)));
+  }, [taxonomy, search]);
+
+  const updateDefinition = (name: string, changes: Partial<SkillDefinition>) => {
+    onChange(taxonomy.map(d => d.name === name ? { ...d, ...changes } : d));
+  };
+
+  const handleDelete = (name: string) => {
+    if (!window.confirm(`Remove "${name}" from the dictionary? Candidates keep the skill under its current name.`)) return;
+    onChange(taxonomy.filter(d => d.name !== name));
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace your skill dictionary with the built-in one? Your aliases and additions will be lost.')) return;
+    onChange(DEFAULT_SKILL_TAXONOMY);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 md:p-6" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-5xl flex flex-col max-h-[90vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+        <header className="flex justify-between items-start p-5 border-b border-slate-100 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white">Skill Dictionary</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {taxonomy.length} canonical skills · {unknownSkills.length} unrecognized
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+            <XCircleIcon className="w-8 h-8" />
+          </button>
+        </header>
+
+        <main className="p-6 flex-grow overflow-y-auto space-y-6">
+          <section>
+            <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">Unrecognized skills</h3>
+            {unknownSkills.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">Every skill in the workspace maps to a dictionary entry.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                {unknownSkills.map(({ name, count }) => (
+                  <UnknownSkillRow
+                    key={name}
+                    name={name}
+                    count={count}
+                    canonicalNames={canonicalNames}
+                    onAlias={canonicalName => onChange(addSkillAlias(taxonomy, canonicalName, name))}
+                    onAdd={category => onChange([...taxonomy, { name, category, aliases: [], parents: [] }])}
+                  />
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500">Dictionary</h3>
+              <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search skills or aliases…" className={`${inputClassName} max-w-xs`} />
+            </div>
+            <div className="grid grid-cols-[minmax(120px,1fr)_150px_2fr_1.5fr_32px] gap-x-3 gap-y-2 items-center text-sm">
+              <span className="text-xs font-semibold text-slate-500">Skill</span>
+              <span className="text-xs font-semibold text-slate-500">Category</span>
+              <span className="text-xs font-semibold text-slate-500">Aliases (comma separated)</span>
+              <span className="text-xs font-semibold text-slate-500">Implies</span>
+              <span></span>
+              {visibleDefinitions.map(definition => (
+                <React.Fragment key={definition.name}>
+                  <span className="font-medium text-slate-800 dark:text-slate-100 break-words">{definition.name}</span>
+                  <select
+                    value={definition.category}
+                    onChange={e => updateDefinition(definition.name, { category: e.target.value as SkillCategory })}
+                    className={inputClassName}
+                  >
+                    {SKILL_CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                  </select>
+                  <input
+                    key={`aliases-${definition.aliases.join(',')}`}
+                    defaultValue={definition.aliases.join(', ')}
+                    onBlur={e => updateDefinition(definition.name, { aliases: splitList(e.target.value) })}
+                    className={inputClassName}
+                  />
+                  <input
+                    key={`parents-${definition.parents.join(',')}`}
+                    defaultValue={definition.parents.join(', ')}
+                    onBlur={e => updateDefinition(definition.name, { parents: splitList(e.target.value) })}
+                    className={inputClassName}
+                    list="skill-taxonomy-names"
+                  />
+                  <button onClick={() => handleDelete(definition.name)} className="p-1 text-slate-400 hover:text-rose-500 transition-colors" title="Remove from dictionary">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </React.Fragment>
+              ))}
+            </div>
+            <datalist id="skill-taxonomy-names">
+              {canonicalNames.map(name => <option key={name} value={name} />)}
+            </datalist>
+          </section>
+        </main>
+
+        <footer className="flex justify-between items-center gap-3 p-4 border-t border-slate-100 dark:border-slate-700">
+          <button onClick={handleReset} className="text-xs font-medium text-slate-500 hover:text-rose-600 dark:text-slate-400 dark:hover:text-rose-400 transition-colors">
+            Reset to built-in dictionary
+          </button>
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors">
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default SkillTaxonomyDialog;
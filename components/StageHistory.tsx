@@ -0,0 +1,38 @@
+import React from 'react';
+import type { PipelineStage, PipelineStatus } from '../types';
+import { getStageLabel } from '../services/pipelineService';
+
+interface StageHistoryProps {
+  status: PipelineStatus | undefined;
+  stages: PipelineStage[];
+}
+
+/** Newest-first list of a candidate's stage changes for one requisition. */
+const StageHistory: React.FC<StageHistoryProps> = ({ status, stages }) => {
+  const history = [...(status?.history ?? [])].reverse();
+  // Stages removed since the move still show under their old id
+  const labelFor = (stageId: string) => getStageLabel(stageId, stages) || stageId;
+
+  return (
+    <div>
+      <p className="text-[11px] font-bold uppercase tracking-wider text-slate-400 mb-2">Stage History</p>
+      {history.length === 0 ? (
+        <p className="text-xs italic text-slate-400">Not moved through the pipeline yet.</p>
+      ) : (
+        <ol className="space-y-1.5">
+          {history.map((change, index) => (
+            <li key={`${change.changedAt}-${index}`} className="text-xs text-slate-600 dark:text-slate-300">
+              <span className="font-medium text-slate-800 dark:text-slate-100">
+                {change.from ? `${labelFor(change.from)} → ` : ''}{labelFor(change.to)}
+              </span>
+              <span className="text-slate-400"> · {new Date(change.changedAt).toLocaleString()}</span>
+              {change.reason && <span className="block italic text-slate-500 dark:text-slate-400">"{change.reason}"</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default StageHistory;
@@ -0,0 +1,30 @@
+import React from 'react';
+import type { PipelineStage } from '../types';
+import { LABEL_COLOR_CLASSES } from './labelColors';
+
+interface StageSelectProps {
+  stageId: string | undefined;
+  stages: PipelineStage[];
+  onChange: (stageId: string) => void;
+  title?: string;
+}
+
+/** Pipeline stage picker styled as a coloured badge. */
+const StageSelect: React.FC<StageSelectProps> = ({ stageId, stages, onChange, title }) => {
+  const stage = stages.find(s => s.id === stageId) ?? stages[0];
+
+  return (
+    <select
+      value={stage?.id ?? ''}
+      onChange={e => onChange(e.target.value)}
+      onClick={e => e.stopPropagation()}
+      title={title}
+      aria-label="Pipeline stage"
+      className={`text-xs font-semibold pl-2 pr-6 py-1 rounded-full border cursor-pointer focus:ring-2 focus:ring-indigo-500 ${LABEL_COLOR_CLASSES[stage?.color ?? 'slate']}`}
+    >
+      {stages.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+    </select>
+  );
+};
+
+export default StageSelect;
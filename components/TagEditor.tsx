@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { TagDefinition } from '../types';
+import { findTagDefinition } from '../services/annotationService';
+import { LABEL_COLOR_CLASSES } from './labelColors';
+
+interface TagEditorProps {
+  tags: string[];
+  definitions: TagDefinition[];
+  onChange: (tags: string[]) => void;
+}
+
+export const TagChip: React.FC<{ name: string; definitions: TagDefinition[]; onRemove?: () => void }> = ({ name, definitions, onRemove }) => (
+  <span className={`inline-flex items-center gap-1 text-[10px] font-semibold px-1.5 py-0.5 rounded-full border ${LABEL_COLOR_CLASSES[findTagDefinition(definitions, name)?.color ?? 'slate']}`}>
+    {name}
+    {onRemove && (
+      <button type="button" onClick={e => { e.stopPropagation(); onRemove(); }} className="opacity-60 hover:opacity-100" title={`Remove ${name}`}>
+        ×
+      </button>
+    )}
+  </span>
+);
+
+/** Tag chips with an inline box to add one; typing a name that doesn't exist creates the tag. */
+const TagEditor: React.FC<TagEditorProps> = ({ tags, definitions, onChange }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState('');
+  const suggestions = definitions.filter(definition => !tags.some(tag => tag.toLowerCase() === definition.name.toLowerCase()));
+
+  const commit = () => {
+    if (draft.trim()) onChange([...tags, draft.trim()]);
+    setDraft('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map(tag => (
+        <TagChip key={tag} name={tag} definitions={definitions} onRemove={() => onChange(tags.filter(t => t !== tag))} />
+      ))}
+      {isAdding ? (
+        <>
+          <input
+            autoFocus
+            list="candidate-tag-suggestions"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') commit();
+              if (e.key === 'Escape') { setDraft(''); setIsAdding(false); }
+            }}
+            onBlur={commit}
+            onClick={e => e.stopPropagation()}
+            placeholder="Tag"
+            className="w-24 px-1.5 py-0.5 text-[11px] border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white"
+          />
+          <datalist id="candidate-tag-suggestions">
+            {suggestions.map(definition => <option key={definition.name} value={definition.name} />)}
+          </datalist>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={e => { e.stopPropagation(); setIsAdding(true); }}
+          className="text-[10px] font-medium px-1.5 py-0.5 rounded-full border border-dashed border-slate-300 text-slate-400 hover:text-indigo-600 hover:border-indigo-300 dark:border-slate-600"
+        >
+          + tag
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { LabelColor, TagDefinition } from '../types';
+import { ensureTagDefinitions, findTagDefinition } from '../services/annotationService';
+import { TrashIcon, XCircleIcon } from './icons';
+import { LABEL_COLORS, LABEL_COLOR_CLASSES } from './labelColors';
+
+interface TagsDialogProps {
+  definitions: TagDefinition[];
+  // Candidates carrying each tag, keyed by lower-case name
+  usage: Map<string, number>;
+  onChange: (definitions: TagDefinition[]) => void;
+  // Renames or (with null) removes the tag on every candidate too
+  onRenameTag: (from: string, to: string | null) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-2 py-1 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-slate-900 dark:border-slate-600 dark:text-white";
+
+const TagsDialog: React.FC<TagsDialogProps> = ({ definitions, usage, onChange, onRenameTag, onClose }) => {
+  const [newName, setNewName] = useState('');
+
+  const handleRename = (definition: TagDefinition, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === definition.name) return;
+    const existing = findTagDefinition(definitions, trimmed);
+    if (existing && existing !== definition) {
+      alert(`A tag named "${existing.name}" already exists.`);
+      return;
+    }
+    onChange(definitions.map(d => d === definition ? { ...d, name: trimmed } : d));
+    onRenameTag(definition.name, trimmed);
+  };
+
+  const handleDelete = (definition: TagDefinition) => {
+    const count = usage.get(definition.name.toLowerCase()) ?? 0;
+    if (count > 0 && !window.confirm(`Remove "${definition.name}" from ${count} candidate${count === 1 ? '' : 's'}?`)) return;
+    onChange(definitions.filter(d => d !== definition));
+    onRenameTag(definition.name, null);
+  };
+
+  const handleAdd = () => {
+    onChange(ensureTagDefinitions(definitions, [newName]));
+    setNewName('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 md:p-6" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg flex flex-col max-h-[90vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+        <header className="flex justify-between items-start p-5 border-b border-slate-100 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white">Tags</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Rename, recolour or remove the tags used on candidates.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">
+            <XCircleIcon className="w-8 h-8" />
+          </button>
+        </header>
+
+        <main className="p-6 flex-grow overflow-y-auto space-y-2">
+          {definitions.length === 0 && (
+            <p className="text-sm italic text-slate-400">No tags yet. Add one here or from a candidate's row.</p>
+          )}
+          {definitions.map(definition => (
+            <div key={definition.name} className="flex items-center gap-2">
+              <input
+                defaultValue={definition.name}
+                onBlur={e => handleRename(definition, e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className={inputClassName}
+                aria-label="Tag name"
+              />
+              <select
+                value={definition.color}
+                onChange={e => onChange(definitions.map(d => d === definition ? { ...d, color: e.target.value as LabelColor } : d))}
+                className={`${inputClassName} w-28 ${LABEL_COLOR_CLASSES[definition.color]}`}
+                aria-label="Tag colour"
+              >
+                {LABEL_COLORS.map(color => <option key={color} value={color}>{color}</option>)}
+              </select>
+              <span className="w-10 text-right text-xs text-slate-400" title="Candidates with this tag">
+                {usage.get(definition.name.toLowerCase()) ?? 0}
+              </span>
+              <button onClick={() => handleDelete(definition)} className="p-1 text-slate-400 hover:text-rose-500 transition-colors" title="Remove tag">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2 pt-3">
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleAdd(); }}
+              placeholder="New tag, e.g. Referral"
+              className={inputClassName}
+            />
+            <button onClick={handleAdd} disabled={!newName.trim()} className="px-3 py-1 text-sm font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 dark:text-indigo-300 dark:bg-indigo-900/30 rounded-md disabled:opacity-40">
+              Add
+            </button>
+          </div>
+        </main>
+
+        <footer className="flex justify-end p-4 border-t border-slate-100 dark:border-slate-700">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors">
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default TagsDialog;
@@ -0,0 +1,13 @@
+import type { LabelColor } from '../types';
+
+export const LABEL_COLOR_CLASSES: Record<LabelColor, string> = {
+  slate: 'text-slate-700 bg-slate-100 border-slate-200 dark:text-slate-200 dark:bg-slate-700 dark:border-slate-600',
+  sky: 'text-sky-700 bg-sky-50 border-sky-200 dark:text-sky-300 dark:bg-sky-900/30 dark:border-sky-800',
+  indigo: 'text-indigo-700 bg-indigo-50 border-indigo-200 dark:text-indigo-300 dark:bg-indigo-900/30 dark:border-indigo-800',
+  violet: 'text-violet-700 bg-violet-50 border-violet-200 dark:text-violet-300 dark:bg-violet-900/30 dark:border-violet-800',
+  amber: 'text-amber-700 bg-amber-50 border-amber-200 dark:text-amber-300 dark:bg-amber-900/30 dark:border-amber-800',
+  emerald: 'text-emerald-700 bg-emerald-50 border-emerald-200 dark:text-emerald-300 dark:bg-emerald-900/30 dark:border-emerald-800',
+  rose: 'text-rose-700 bg-rose-50 border-rose-200 dark:text-rose-300 dark:bg-rose-900/30 dark:border-rose-800',
+};
+
+export const LABEL_COLORS = Object.keys(LABEL_COLOR_CLASSES) as LabelColor[];
@@ -0,0 +1,149 @@
+/**
+ * Provider-neutral contract for the AI backends used to extract resumes, score job matches
+ * and write interview questions and outreach emails. `geminiService` builds the prompts and
+ * post-processes results; a provider only has to turn a prompt, some content and a JSON
+ * schema into a JSON object.
+ */
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+/** A single piece of model input: plain text or a base64-encoded image. */
+export type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image'; mimeType: string; data: string };
+
+/** Minimal JSON schema subset understood by every provider. */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    enum?: string[];
+}
+
+/** The lightweight candidate profile sent for job matching. */
+export interface CandidateMatchProfile {
+    skills: string[];
+    totalExperience: number;
+    designation: string;
+    currentCompany: string;
+    education: string;
+    location: string;
+}
+
+export interface ExtractResumeRequest {
+    model: string;
+    prompt: string;
+    schema: JsonSchema;
+    content: ContentPart[];
+    fileName: string;
+    signal?: AbortSignal;
+}
+
+/** A candidate profile tagged with the id its result must be returned under. */
+export type BatchMatchProfile = CandidateMatchProfile & { id: string };
+
+export interface ScoreMatchesRequest {
+    model: string;
+    prompt: string;
+    schema: JsonSchema;
+    candidates: BatchMatchProfile[];
+    jobDescription: string;
+    signal?: AbortSignal;
+}
+
+export interface ExtractRequirementsRequest {
+    model: string;
+    prompt: string;
+    schema: JsonSchema;
+    jobDescription: string;
+    signal?: AbortSignal;
+}
+
+export interface GenerateInterviewKitRequest {
+    model: string;
+    prompt: string;
+    schema: JsonSchema;
+    candidate: CandidateMatchProfile;
+    jobDescription: string;
+    // Missing skills and experience the questions should probe
+    gaps: string[];
+    signal?: AbortSignal;
+}
+
+/** A candidate to write an outreach line for, with the skills that match the role. */
+export type OutreachProfile = BatchMatchProfile & { fullName: string; matchingSkills: string[] };
+
+export interface PersonalizeOutreachRequest {
+    model: string;
+    prompt: string;
+    schema: JsonSchema;
+    candidates: OutreachProfile[];
+    jobDescription: string;
+    signal?: AbortSignal;
+}
+
+export interface MatchResult {
+    matchScore: number;
+    matchReason: string;
+}
+
+export interface AIProvider {
+    id: ProviderId;
+    label: string;
+    defaultModel: string;
+    /** Returns the raw extracted fields, shaped by `request.schema`. */
+    extractResume(request: ExtractResumeRequest, settings: ProviderSettings): Promise<Record<string, unknown>>;
+    /** Returns the raw per-candidate results for the batch, shaped by `request.schema`. */
+    scoreMatches(request: ScoreMatchesRequest, settings: ProviderSettings): Promise<Record<string, unknown>>;
+    /** Returns the raw job requirements, shaped by `request.schema`. */
+    extractRequirements(request: ExtractRequirementsRequest, settings: ProviderSettings): Promise<Record<string, unknown>>;
+    /** Returns the raw interview questions, shaped by `request.schema`. */
+    generateInterviewKit(request: GenerateInterviewKitRequest, settings: ProviderSettings): Promise<Record<string, unknown>>;
+    /** Returns the raw per-candidate outreach lines for the batch, shaped by `request.schema`. */
+    personalizeOutreach(request: PersonalizeOutreachRequest, settings: ProviderSettings): Promise<Record<string, unknown>>;
+}
+
+export interface ProviderSettings {
+    providerId: ProviderId;
+    model: string;
+    /** Only used by the OpenAI-compatible provider, e.g. "http://localhost:8000/v1". */
+    baseUrl: string;
+    apiKey: string;
+}
+
+/**
+ * Raised when a provider's backend answers with an error. `status` carries the HTTP
+ * status code when one is known so callers can tell rate limits from bad requests.
+ */
+export class ProviderRequestError extends Error {
+    status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'ProviderRequestError';
+        this.status = status;
+    }
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a model's text answer as a JSON object, surfacing a readable error if it isn't.
+ * Values stay `unknown` so each caller has to check the shape it expects.
+ */
+export const parseJsonResponse = (text: string | undefined, providerLabel: string): Record<string, unknown> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text || "{}");
+    } catch {
+        parsed = undefined;
+    }
+    if (!isRecord(parsed)) {
+        console.error(`Failed to parse JSON response from ${providerLabel}:`, text);
+        throw new Error("The AI model returned an invalid data format. Please try again.");
+    }
+    return parsed;
+};
@@ -0,0 +1,84 @@
+import type { Candidate, CandidateNote, LabelColor, TagDefinition } from '../types';
+import { newId } from './textUtils';
+
+/**
+ * Recruiter annotations: timestamped notes, tags and a 1-5 star rating on each candidate.
+ * Candidates store tag names; the tag list with each tag's colour is a recruiter setting
+ * kept in localStorage.
+ */
+
+const TAGS_STORAGE_KEY = 'candidateTags';
+
+export const MAX_RATING = 5;
+
+// New tags cycle through these so neighbouring tags look different
+const TAG_COLORS: LabelColor[] = ['indigo', 'emerald', 'amber', 'sky', 'violet', 'rose', 'slate'];
+
+export const addNote = (candidate: Candidate, text: string, now: Date = new Date()): Candidate => {
+    if (!text.trim()) return candidate;
+    const note: CandidateNote = { id: newId(), text: text.trim(), createdAt: now.toISOString() };
+    return { ...candidate, notes: [...(candidate.notes ?? []), note] };
+};
+
+export const removeNote = (candidate: Candidate, noteId: string): Candidate => ({
+    ...candidate,
+    notes: (candidate.notes ?? []).filter(note => note.id !== noteId),
+});
+
+/** Sets the rating; anything outside 1-5 (including 0) clears it. */
+export const setRating = (candidate: Candidate, rating: number | undefined): Candidate => {
+    const valid = rating !== undefined && Number.isInteger(rating) && rating >= 1 && rating <= MAX_RATING;
+    return { ...candidate, rating: valid ? rating : undefined };
+};
+
+const sameTag = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const hasTag = (candidate: Candidate, tag: string): boolean =>
+    (candidate.tags ?? []).some(t => sameTag(t, tag));
+
+/** Sets the candidate's tags, trimmed and without case-insensitive repeats. */
+export const setTags = (candidate: Candidate, tags: string[]): Candidate => {
+    const unique: string[] = [];
+    tags.map(tag => tag.trim()).filter(Boolean).forEach(tag => {
+        if (!unique.some(existing => sameTag(existing, tag))) unique.push(tag);
+    });
+    return { ...candidate, tags: unique };
+};
+
+export const findTagDefinition = (definitions: TagDefinition[], name: string): TagDefinition | undefined =>
+    definitions.find(definition => sameTag(definition.name, name));
+
+/** Adds definitions for tag names not seen before, each with the next colour in the cycle. */
+export const ensureTagDefinitions = (definitions: TagDefinition[], names: string[]): TagDefinition[] => {
+    const next = [...definitions];
+    names.forEach(name => {
+        if (!name.trim() || findTagDefinition(next, name)) return;
+        next.push({ name: name.trim(), color: TAG_COLORS[next.length % TAG_COLORS.length] });
+    });
+    return next.length === definitions.length ? definitions : next;
+};
+
+/** Renames a tag on a candidate; a null name removes it. */
+export const renameCandidateTag = (candidate: Candidate, from: string, to: string | null): Candidate => {
+    if (!hasTag(candidate, from)) return candidate;
+    const tags = (candidate.tags ?? []).flatMap(tag => sameTag(tag, from) ? (to ? [to] : []) : [tag]);
+    return setTags(candidate, tags);
+};
+
+/** Notes as one cell for exports, oldest first, e.g. "2025-03-12: Flexible on CTC". */
+export const formatNotes = (notes: CandidateNote[] | undefined, separator = '\n'): string =>
+    (notes ?? []).map(note => `${note.createdAt.slice(0, 10)}: ${note.text}`).join(separator);
+
+export const loadTagDefinitions = (): TagDefinition[] => {
+    if (typeof window === 'undefined' || !window.localStorage) return [];
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(TAGS_STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveTagDefinitions = (definitions: TagDefinition[]) => {
+    window.localStorage.setItem(TAGS_STORAGE_KEY, JSON.stringify(definitions));
+};
@@ -0,0 +1,136 @@
+import type { Candidate, EditableField, EditableValue, FieldEdit } from '../types';
+import { parseCompensation } from './compensationService';
+import { parseNoticePeriod } from './noticePeriodService';
+
+/**
+ * Metadata, validation and edit bookkeeping for the candidate fields a recruiter can
+ * correct by hand. Edits are appended to `editHistory` so the value the AI originally
+ * extracted is never lost and exports can tell human-verified fields apart.
+ */
+
+export type FieldKind = 'text' | 'number' | 'tags' | 'email' | 'phone' | 'date';
+
+export const EDITABLE_FIELDS: { key: EditableField; label: string; kind: FieldKind }[] = [
+    { key: 'fullName', label: 'Full Name', kind: 'text' },
+    { key: 'email', label: 'Email', kind: 'email' },
+    { key: 'mobile', label: 'Mobile', kind: 'phone' },
+    { key: 'dob', label: 'Date of Birth', kind: 'date' },
+    { key: 'currentCompany', label: 'Current Company', kind: 'text' },
+    { key: 'designation', label: 'Designation', kind: 'text' },
+    { key: 'totalExperience', label: 'Total Experience (Yrs)', kind: 'number' },
+    { key: 'relevantExperience', label: 'Relevant Experience (Yrs)', kind: 'number' },
+    { key: 'skills', label: 'Skills', kind: 'tags' },
+    { key: 'currentCTC', label: 'Current CTC', kind: 'text' },
+    { key: 'expectedCTC', label: 'Expected CTC', kind: 'text' },
+    { key: 'noticePeriod', label: 'Notice Period', kind: 'text' },
+    { key: 'highestQualification', label: 'Highest Qualification', kind: 'text' },
+    { key: 'educationField', label: 'Education Field', kind: 'text' },
+    { key: 'currentLocation', label: 'Current Location', kind: 'text' },
+];
+
+const FIELD_BY_KEY = new Map(EDITABLE_FIELDS.map(field => [field.key, field]));
+
+export const getFieldLabel = (field: EditableField) => FIELD_BY_KEY.get(field)?.label ?? field;
+
+export const getFieldKind = (field: EditableField): FieldKind => FIELD_BY_KEY.get(field)?.kind ?? 'text';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Optional leading +, then 7-15 digits with common separators
+const PHONE_PATTERN = /^\+?[\d\s\-().]{7,20}$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DMY_DATE_PATTERN = /^(\d{2})\/(\d{2})\/(\d{4})$/;
+
+const isRealDate = (year: number, month: number, day: number) => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Returns an error message for an invalid value, or null when the value is acceptable.
+ * Empty values are always allowed so a wrong extraction can be cleared.
+ */
+export const validateFieldValue = (field: EditableField, value: EditableValue): string | null => {
+    const kind = getFieldKind(field);
+
+    if (kind === 'tags') {
+        return Array.isArray(value) ? null : 'Skills must be a list.';
+    }
+    if (kind === 'number') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) return 'Enter a number of years.';
+        if (value < 0 || value > 60) return 'Experience must be between 0 and 60 years.';
+        return null;
+    }
+
+    const text = String(value).trim();
+    if (!text) return null;
+
+    switch (kind) {
+        case 'email':
+            return EMAIL_PATTERN.test(text) ? null : 'Enter a valid email address.';
+        case 'phone': {
+            const digits = text.replace(/\D/g, '');
+            return PHONE_PATTERN.test(text) && digits.length >= 7 && digits.length <= 15
+                ? null
+                : 'Enter a phone number with 7 to 15 digits.';
+        }
+        case 'date': {
+            const iso = text.match(ISO_DATE_PATTERN);
+            if (iso && isRealDate(Number(iso[1]), Number(iso[2]), Number(iso[3]))) return null;
+            const dmy = text.match(DMY_DATE_PATTERN);
+            if (dmy && isRealDate(Number(dmy[3]), Number(dmy[2]), Number(dmy[1]))) return null;
+            return 'Use YYYY-MM-DD or DD/MM/YYYY.';
+        }
+        default:
+            return null;
+    }
+};
+
+const isSameValue = (a: EditableValue, b: EditableValue) => {
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => item === b[i]);
+    }
+    return a === b;
+};
+
+/**
+ * Applies a manual edit and records it in the candidate's history. Returns the
+ * candidate unchanged when the value did not actually change.
+ */
+export const applyFieldEdit = (candidate: Candidate, field: EditableField, value: EditableValue): Candidate => {
+    const previousValue = candidate[field] as EditableValue;
+    const newValue = typeof value === 'string' ? value.trim() : value;
+    if (isSameValue(previousValue ?? '', newValue)) return candidate;
+
+    const edit: FieldEdit = { field, previousValue: previousValue ?? '', newValue, editedAt: new Date().toISOString() };
+    const updated: Candidate = {
+        ...candidate,
+        [field]: newValue,
+        editHistory: [...(candidate.editHistory ?? []), edit],
+    };
+    // Keep the structured CTC and notice period in step with the text they were parsed from
+    if (field === 'currentCTC') {
+        updated.currentCompensation = newValue ? parseCompensation(String(newValue)) : undefined;
+    } else if (field === 'expectedCTC') {
+        updated.expectedCompensation = newValue ? parseCompensation(String(newValue)) : undefined;
+    } else if (field === 'noticePeriod') {
+        updated.notice = newValue ? parseNoticePeriod(String(newValue)) : undefined;
+    }
+    return updated;
+};
+
+/** Fields whose current value was set by a recruiter rather than the AI. */
+export const getHumanVerifiedFields = (candidate: Candidate): EditableField[] => {
+    const fields = new Set((candidate.editHistory ?? []).map(edit => edit.field));
+    return EDITABLE_FIELDS.map(field => field.key).filter(key => fields.has(key));
+};
+
+/** The value the AI extracted before any manual edits, if the field was edited. */
+export const getOriginalValue = (candidate: Candidate, field: EditableField): EditableValue | undefined => {
+    return candidate.editHistory?.find(edit => edit.field === field)?.previousValue;
+};
+
+export const formatFieldValue = (value: EditableValue | undefined): string => {
+    if (Array.isArray(value)) return value.join(', ');
+    if (value === undefined || value === '') return '';
+    return String(value);
+};
@@ -0,0 +1,219 @@
+import type { Candidate } from '../types';
+import type { FxTable } from './compensationService';
+import { formatAnnualCompensation, getAnnualAmount } from './compensationService';
+import { formatNoticePeriod, getDaysUntilAvailable } from './noticePeriodService';
+import type { RequirementCheck, RequirementStatus } from './requirementsService';
+import { summarizeChecks } from './requirementsService';
+import { escapeHtml } from './textUtils';
+
+/**
+ * Builds the rows of the side-by-side candidate comparison. Each row holds one display
+ * value per candidate and flags the cells that stand out (highest score, most experience,
+ * soonest available, within budget), so the dialog, print view and export all agree.
+ */
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+export type ComparisonSection = 'Match' | 'Requirements' | 'Profile';
+
+export interface ComparisonRow {
+    section: ComparisonSection;
+    label: string;
+    values: string[];
+    highlighted: boolean[];
+    // Requirement rows carry the per-candidate verdict for icons
+    statuses?: (RequirementStatus | undefined)[];
+}
+
+type ComparedField = keyof Pick<Candidate,
+    'currentCompany' | 'designation' | 'highestQualification' | 'educationField' | 'currentLocation' | 'email' | 'mobile'>;
+
+const PROFILE_FIELDS: { key: ComparedField; label: string }[] = [
+    { key: 'designation', label: 'Designation' },
+    { key: 'currentCompany', label: 'Current Company' },
+    { key: 'currentLocation', label: 'Current Location' },
+    { key: 'highestQualification', label: 'Highest Qualification' },
+    { key: 'educationField', label: 'Education Field' },
+    { key: 'email', label: 'Email' },
+    { key: 'mobile', label: 'Mobile' },
+];
+
+/** Flags the cells holding the best value; nothing is flagged when all candidates tie or values are missing. */
+const flagBest = (values: (number | null | undefined)[], prefer: 'max' | 'min'): boolean[] => {
+    const known = values.filter((value): value is number => typeof value === 'number');
+    if (known.length < 2) return values.map(() => false);
+    const best = prefer === 'max' ? Math.max(...known) : Math.min(...known);
+    if (known.every(value => value === best)) return values.map(() => false);
+    return values.map(value => value === best);
+};
+
+export const buildComparisonRows = (
+    candidates: Candidate[],
+    requirementChecks: Map<string, RequirementCheck[]> | undefined,
+    fx: FxTable,
+    today: Date = new Date()
+): ComparisonRow[] => {
+    const rows: ComparisonRow[] = [];
+    const none = candidates.map(() => false);
+
+    // --- Match ---
+    const scores = candidates.map(c => c.matchScore);
+    rows.push({
+        section: 'Match',
+        label: 'Match %',
+        values: scores.map(score => score !== undefined ? `${score}%` : '--'),
+        highlighted: flagBest(scores, 'max'),
+    });
+    const componentIds = candidates[0]?.scoreBreakdown?.components.map(component => component.id) ?? [];
+    componentIds.forEach(id => {
+        const components = candidates.map(c => c.scoreBreakdown?.components.find(component => component.id === id));
+        const label = components.find(Boolean)?.label ?? id;
+        const componentScores = components.map(component => component?.score ?? null);
+        if (componentScores.every(score => score === null)) return;
+        rows.push({
+            section: 'Match',
+            label,
+            values: components.map(component => component?.score !== null && component?.score !== undefined ? `${component.score} · ${component.detail}` : component?.detail ?? '--'),
+            highlighted: flagBest(componentScores, 'max'),
+        });
+    });
+
+    // --- Requirements ---
+    if (requirementChecks) {
+        const checksPerCandidate = candidates.map(c => requirementChecks.get(c.id) ?? []);
+        const passCounts = checksPerCandidate.map(checks => summarizeChecks(checks).pass);
+        rows.push({
+            section: 'Requirements',
+            label: 'Requirements met',
+            values: checksPerCandidate.map((checks, index) => `${passCounts[index]}/${checks.length}`),
+            highlighted: flagBest(passCounts, 'max'),
+        });
+        const checkIds = Array.from(new Set(checksPerCandidate.flat().map(check => check.id)));
+        checkIds.forEach(id => {
+            const checks = checksPerCandidate.map(list => list.find(check => check.id === id));
+            const label = checks.find(Boolean)?.label ?? id;
+            rows.push({
+                section: 'Requirements',
+                label,
+                values: checks.map(check => check?.detail ?? '--'),
+                // Within budget is called out explicitly; other passes show through their icon
+                highlighted: checks.map(check => id === 'budget' && check?.status === 'pass'),
+                statuses: checks.map(check => check?.status),
+            });
+        });
+    }
+
+    // --- Profile ---
+    const totalExperience = candidates.map(c => c.totalExperience);
+    rows.push({ section: 'Profile', label: 'Total Experience (Yrs)', values: totalExperience.map(String), highlighted: flagBest(totalExperience, 'max') });
+    const relevantExperience = candidates.map(c => c.relevantExperience);
+    rows.push({ section: 'Profile', label: 'Relevant Experience (Yrs)', values: relevantExperience.map(String), highlighted: flagBest(relevantExperience, 'max') });
+
+    const noticeDays = candidates.map(c => getDaysUntilAvailable(c.notice, today));
+    rows.push({
+        section: 'Profile',
+        label: 'Notice Period',
+        values: candidates.map((c, index) => {
+            const text = formatNoticePeriod(c.notice) || c.noticePeriod || '--';
+            // A last working day reads as a date; spell out how far away it is
+            return c.notice?.lastWorkingDay && noticeDays[index] !== null ? `${text} (joins in ~${noticeDays[index]} days)` : text;
+        }),
+        highlighted: flagBest(noticeDays, 'min'),
+    });
+
+    rows.push({
+        section: 'Profile',
+        label: 'Current CTC',
+        values: candidates.map(c => formatAnnualCompensation(c.currentCompensation, fx) || c.currentCTC || '--'),
+        highlighted: none,
+    });
+    const expected = candidates.map(c => getAnnualAmount(c.expectedCompensation, fx));
+    rows.push({
+        section: 'Profile',
+        label: 'Expected CTC',
+        values: candidates.map(c => formatAnnualCompensation(c.expectedCompensation, fx) || c.expectedCTC || '--'),
+        highlighted: flagBest(expected, 'min'),
+    });
+
+    const skillSets = candidates.map(c => new Set((c.skills ?? []).map(skill => skill.toLowerCase())));
+    rows.push({
+        section: 'Profile',
+        label: 'Skills',
+        values: candidates.map(c => (c.skills ?? []).join(', ') || '--'),
+        highlighted: none,
+    });
+    rows.push({
+        section: 'Profile',
+        label: 'Skills only this candidate has',
+        values: candidates.map((c, index) => (c.skills ?? [])
+            .filter(skill => skillSets.every((set, other) => other === index || !set.has(skill.toLowerCase())))
+            .join(', ') || '--'),
+        highlighted: none,
+    });
+
+    PROFILE_FIELDS.forEach(({ key, label }) => {
+        rows.push({ section: 'Profile', label, values: candidates.map(c => String(c[key] ?? '') || '--'), highlighted: none });
+    });
+
+    return rows;
+};
+
+const STATUS_MARKS: Record<RequirementStatus, string> = { pass: '✓', partial: '~', fail: '✗' };
+
+/** A standalone HTML page of the comparison, laid out for printing. */
+export const buildComparisonHtml = (candidates: Candidate[], rows: ComparisonRow[], title: string): string => {
+    let section = '';
+    const body = rows.map(row => {
+        const heading = row.section !== section
+            ? `<tr><th class="section" colspan="${candidates.length + 1}">${escapeHtml(row.section)}</th></tr>`
+            : '';
+        section = row.section;
+        const cells = row.values.map((value, index) => {
+            const status = row.statuses?.[index];
+            const mark = status ? `<span class="${status}">${STATUS_MARKS[status]}</span> ` : '';
+            return `<td${row.highlighted[index] ? ' class="best"' : ''}>${mark}${escapeHtml(value)}</td>`;
+        }).join('');
+        return `${heading}<tr><th>${escapeHtml(row.label)}</th>${cells}</tr>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 12px; color: #0f172a; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  p { color: #64748b; margin: 0 0 16px; }
+  table { border-collapse: collapse; width: 100%; table-layout: fixed; }
+  th, td { border: 1px solid #e2e8f0; padding: 6px 8px; text-align: left; vertical-align: top; word-wrap: break-word; }
+  thead th { background: #eef2ff; }
+  th.section { background: #f8fafc; text-transform: uppercase; letter-spacing: .05em; font-size: 10px; color: #64748b; }
+  td.best { background: #ecfdf5; font-weight: 600; }
+  .pass { color: #059669; } .partial { color: #d97706; } .fail { color: #e11d48; }
+</style></head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>Generated ${escapeHtml(new Date().toLocaleString())}. Highlighted cells are the strongest value in their row.</p>
+<table>
+<thead><tr><th></th>${candidates.map(c => `<th>${escapeHtml(c.fullName || c.fileName)}</th>`).join('')}</tr></thead>
+<tbody>
+${body}
+</tbody></table>
+</body></html>`;
+};
+
+/** One sheet row per comparison row, one column per candidate. */
+export const comparisonRowsToSheet = (candidates: Candidate[], rows: ComparisonRow[]): Record<string, string>[] => {
+    // Two candidates with the same name still need separate columns
+    const headers = candidates.map((c, index) => {
+        const name = c.fullName || c.fileName;
+        return candidates.slice(0, index).some(other => (other.fullName || other.fileName) === name) ? `${name} (${index + 1})` : name;
+    });
+    return rows.map(row => {
+        const sheetRow: Record<string, string> = { Section: row.section, Field: row.label };
+        headers.forEach((header, index) => {
+            const status = row.statuses?.[index];
+            sheetRow[header] = `${status ? `${STATUS_MARKS[status]} ` : ''}${row.values[index]}${row.highlighted[index] ? ' ★' : ''}`;
+        });
+        return sheetRow;
+    });
+};
@@ -0,0 +1,217 @@
+import type { Compensation, CompensationPeriod } from '../types';
+
+/**
+ * Turns free-text CTC ("18 LPA", "1.2 Cr", "80k/month", "$95,000", "15 L fixed + 3 L variable")
+ * into a structured `Compensation`, and compares amounts across currencies and pay periods
+ * with an offline, user-editable FX table.
+ */
+
+export interface FxTable {
+    // Currency every amount is converted to for display, sorting and export
+    baseCurrency: string;
+    // Value of one unit of each currency, all expressed in the same reference currency
+    rates: Record<string, number>;
+}
+
+const FX_STORAGE_KEY = 'fxTable';
+
+// Approximate rates with INR as the reference; recruiters can adjust them in settings.
+export const DEFAULT_FX_TABLE: FxTable = {
+    baseCurrency: 'INR',
+    rates: {
+        INR: 1,
+        USD: 83,
+        EUR: 90,
+        GBP: 105,
+        AED: 22.6,
+        SGD: 62,
+        CAD: 61,
+        AUD: 55,
+    },
+};
+
+const HOURS_PER_YEAR = 2080;
+
+// Checked in order: the prefixed dollars must come before the plain "$".
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+    [/₹|\brs\.?|\binr\b|\brupees?\b/i, 'INR'],
+    [/\bsgd\b|s\$/i, 'SGD'],
+    [/\bcad\b|c\$/i, 'CAD'],
+    [/\baud\b|a\$/i, 'AUD'],
+    [/\busd\b|\$/i, 'USD'],
+    [/€|\beur\b|\beuros?\b/i, 'EUR'],
+    [/£|\bgbp\b/i, 'GBP'],
+    [/\baed\b|\bdirhams?\b/i, 'AED'],
+];
+
+const UNIT_MULTIPLIERS: [RegExp, number][] = [
+    [/^(crores?|cr)$/, 1e7],
+    [/^(lakhs?|lacs?|lpa|l)$/, 1e5],
+    [/^(millions?|mn|m)$/, 1e6],
+    [/^(thousand|k)$/, 1e3],
+];
+
+const INDIAN_UNIT_PATTERN = /\b(crores?|cr|lakhs?|lacs?|lpa)\b|\d\s*l\b/i;
+const MONTHLY_PATTERN = /per\s*month|\/\s*month|\/\s*mo\b|\bpm\b|p\.m\.|monthly|per\s*mensem/i;
+const HOURLY_PATTERN = /per\s*hour|\/\s*h(ou)?r\b|hourly|\bph\b/i;
+const FIXED_PATTERN = /fixed|base|basic/i;
+const VARIABLE_PATTERN = /variable|bonus|incentive|performance|stock|esop/i;
+
+const AMOUNT_PATTERN = /(\d+(?:\.\d+)?)\s*(crores?|cr|lakhs?|lacs?|lpa|l|millions?|mn|m|thousand|k)?\b/i;
+
+const getMultiplier = (unit: string | undefined) => {
+    if (!unit) return null;
+    const entry = UNIT_MULTIPLIERS.find(([pattern]) => pattern.test(unit.toLowerCase()));
+    return entry ? entry[1] : null;
+};
+
+const detectCurrency = (text: string, defaultCurrency: string) => {
+    const match = CURRENCY_PATTERNS.find(([pattern]) => pattern.test(text));
+    if (match) return match[1];
+    // Lakh and crore only exist in Indian usage
+    return INDIAN_UNIT_PATTERN.test(text) ? 'INR' : defaultCurrency;
+};
+
+const detectPeriod = (text: string): CompensationPeriod => {
+    if (MONTHLY_PATTERN.test(text)) return 'monthly';
+    if (HOURLY_PATTERN.test(text)) return 'hourly';
+    return 'annual';
+};
+
+interface AmountSegment {
+    value: number;
+    multiplier: number | null;
+    kind: 'fixed' | 'variable' | 'total';
+}
+
+/**
+ * Parses free-text CTC. Components labelled fixed/variable (or bonus, incentive...) are
+ * kept separately and summed when no total is stated.
+ */
+export const parseCompensation = (text: string, defaultCurrency: string = DEFAULT_FX_TABLE.baseCurrency): Compensation => {
+    const raw = (text || '').trim();
+    const currency = detectCurrency(raw, defaultCurrency);
+    const period = detectPeriod(raw);
+
+    // Drop thousands separators ("18,00,000", "95,000") before splitting into components
+    const normalized = raw.replace(/(\d),(?=\d)/g, '$1');
+    const segments: AmountSegment[] = [];
+    normalized.split(/\+|;|,|\band\b|\(|\)/i).forEach(part => {
+        const match = part.match(AMOUNT_PATTERN);
+        if (!match) return;
+        segments.push({
+            value: parseFloat(match[1]),
+            multiplier: getMultiplier(match[2]),
+            kind: VARIABLE_PATTERN.test(part) ? 'variable' : FIXED_PATTERN.test(part) ? 'fixed' : 'total',
+        });
+    });
+
+    if (segments.length === 0) {
+        return { amount: null, currency, period };
+    }
+
+    // "15 + 3 LPA": a bare small number borrows the unit written elsewhere in the text
+    const sharedMultiplier = segments.find(segment => segment.multiplier !== null)?.multiplier ?? null;
+    const toAmount = (segment: AmountSegment) => {
+        const multiplier = segment.multiplier
+            ?? (segment.value < 1000 ? sharedMultiplier : null)
+            // Indian resumes often write "CTC: 18" meaning 18 lakh per annum
+            ?? (currency === 'INR' && period === 'annual' && segment.value < 1000 ? 1e5 : 1);
+        return Math.round(segment.value * multiplier);
+    };
+
+    const sumOf = (kind: AmountSegment['kind']) => segments
+        .filter(segment => segment.kind === kind)
+        .reduce<number | undefined>((sum, segment) => (sum ?? 0) + toAmount(segment), undefined);
+
+    const fixed = sumOf('fixed');
+    const variable = sumOf('variable');
+    const statedTotal = segments.find(segment => segment.kind === 'total');
+    const componentsTotal = (fixed ?? 0) + (variable ?? 0);
+
+    let amount: number;
+    if (statedTotal && toAmount(statedTotal) >= componentsTotal) {
+        amount = toAmount(statedTotal);
+    } else {
+        amount = componentsTotal;
+    }
+
+    const compensation: Compensation = { amount, currency, period };
+    if (fixed !== undefined) compensation.fixed = fixed;
+    if (variable !== undefined) compensation.variable = variable;
+    return compensation;
+};
+
+const toAnnual = (amount: number, period: CompensationPeriod) => {
+    if (period === 'monthly') return amount * 12;
+    if (period === 'hourly') return amount * HOURS_PER_YEAR;
+    return amount;
+};
+
+/**
+ * Converts an amount between currencies; null when either rate is missing.
+ */
+export const convertCurrency = (amount: number, from: string, to: string, fx: FxTable): number | null => {
+    if (from === to) return amount;
+    const fromRate = fx.rates[from];
+    const toRate = fx.rates[to];
+    if (!fromRate || !toRate) return null;
+    return amount * fromRate / toRate;
+};
+
+/**
+ * Annual amount in the FX table's base currency, or null when it can't be determined.
+ */
+export const getAnnualAmount = (compensation: Compensation | undefined, fx: FxTable): number | null => {
+    if (!compensation || compensation.amount === null) return null;
+    return convertCurrency(toAnnual(compensation.amount, compensation.period), compensation.currency, fx.baseCurrency, fx);
+};
+
+/**
+ * Formats money the way recruiters read it: lakh/crore for INR, compact notation otherwise.
+ */
+export const formatMoney = (amount: number, currency: string): string => {
+    if (currency === 'INR') {
+        if (amount >= 1e7) return `₹${(amount / 1e7).toFixed(2)} Cr`;
+        if (amount >= 1e5) return `₹${(amount / 1e5).toFixed(1)} L`;
+    }
+    try {
+        return new Intl.NumberFormat('en', { style: 'currency', currency, notation: 'compact', maximumFractionDigits: 1 }).format(amount);
+    } catch {
+        // Unknown currency code
+        return `${currency} ${Math.round(amount).toLocaleString()}`;
+    }
+};
+
+/** e.g. "₹18.0 L/yr" in the base currency, or '' when the CTC couldn't be parsed or converted. */
+export const formatAnnualCompensation = (compensation: Compensation | undefined, fx: FxTable): string => {
+    const annual = getAnnualAmount(compensation, fx);
+    return annual === null ? '' : `${formatMoney(annual, fx.baseCurrency)}/yr`;
+};
+
+/** Multi-line description of the parsed value for tooltips. */
+export const describeCompensation = (compensation: Compensation | undefined, fx: FxTable): string => {
+    if (!compensation || compensation.amount === null) return 'Could not read an amount from this text';
+    const lines = [`${formatMoney(compensation.amount, compensation.currency)} ${compensation.period}`];
+    if (compensation.fixed !== undefined) lines.push(`Fixed: ${formatMoney(compensation.fixed, compensation.currency)}`);
+    if (compensation.variable !== undefined) lines.push(`Variable: ${formatMoney(compensation.variable, compensation.currency)}`);
+    const annual = formatAnnualCompensation(compensation, fx);
+    lines.push(annual ? `Annual in ${fx.baseCurrency}: ${annual}` : `No ${compensation.currency} → ${fx.baseCurrency} rate configured`);
+    return lines.join('\n');
+};
+
+export const loadFxTable = (): FxTable => {
+    if (typeof window === 'undefined' || !window.localStorage) return DEFAULT_FX_TABLE;
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(FX_STORAGE_KEY) || 'null');
+        return stored
+            ? { baseCurrency: stored.baseCurrency ?? DEFAULT_FX_TABLE.baseCurrency, rates: { ...DEFAULT_FX_TABLE.rates, ...stored.rates } }
+            : DEFAULT_FX_TABLE;
+    } catch {
+        return DEFAULT_FX_TABLE;
+    }
+};
+
+export const saveFxTable = (fx: FxTable) => {
+    window.localStorage.setItem(FX_STORAGE_KEY, JSON.stringify(fx));
+};
@@ -0,0 +1,100 @@
+import { getConfiguredPdfjsLib } from './geminiService';
+
+/**
+ * Renders uploaded resumes for on-screen preview. Shared by the pre-parse page picker
+ * and the candidate detail drawer so every file type is displayed the same way.
+ */
+
+const MAX_PREVIEW_DIMENSION = 1024; // Max width or height in pixels for preview
+const PREVIEW_QUALITY = 0.7; // JPEG quality for preview
+
+export type DocumentKind = 'pdf' | 'image' | 'docx' | 'unsupported';
+
+export const getDocumentKind = (file: File): DocumentKind => {
+    if (file.type === 'application/pdf') return 'pdf';
+    if (file.type.startsWith('image/')) return 'image';
+    if (file.type.includes('wordprocessingml') || file.type.includes('msword')) return 'docx';
+    return 'unsupported';
+};
+
+/**
+ * Renders every page of a PDF to a data URL. Small scales are used for thumbnails,
+ * larger ones for reading the document.
+ */
+export const renderPdfPages = async (file: File, scale: number, signal?: AbortSignal): Promise<string[]> => {
+    const pdfjsLib = await getConfiguredPdfjsLib();
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
+
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        signal?.throwIfAborted();
+        const page = await pdf.getPage(i);
+        const viewport = page.getViewport({ scale });
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d');
+        canvas.height = viewport.height;
+        canvas.width = viewport.width;
+        if (context) {
+            await page.render({ canvasContext: context, viewport }).promise;
+            pages.push(canvas.toDataURL('image/png'));
+        }
+    }
+    return pages;
+};
+
+/**
+ * Loads an image resume as a data URL, resizing large images to save memory.
+ */
+export const renderImagePreview = (file: File): Promise<string> => {
+    return new Promise<string>((resolve, reject) => {
+        const img = new Image();
+        const objectUrl = URL.createObjectURL(file);
+
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            let width = img.width;
+            let height = img.height;
+
+            // Calculate new dimensions if image is too large
+            if (width > MAX_PREVIEW_DIMENSION || height > MAX_PREVIEW_DIMENSION) {
+                if (width > height) {
+                    height = Math.round(height * (MAX_PREVIEW_DIMENSION / width));
+                    width = MAX_PREVIEW_DIMENSION;
+                } else {
+                    width = Math.round(width * (MAX_PREVIEW_DIMENSION / height));
+                    height = MAX_PREVIEW_DIMENSION;
+                }
+            }
+
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d');
+            if (ctx) {
+                ctx.drawImage(img, 0, 0, width, height);
+                // Use JPEG with compression for preview
+                resolve(canvas.toDataURL('image/jpeg', PREVIEW_QUALITY));
+                URL.revokeObjectURL(objectUrl); // Clean up intermediate URL
+            } else {
+                // Fallback to original if context fails (unlikely); the caller keeps the object URL
+                resolve(objectUrl);
+            }
+        };
+
+        img.onerror = () => {
+            URL.revokeObjectURL(objectUrl);
+            reject(new Error("Failed to load image for resizing."));
+        };
+
+        img.src = objectUrl;
+    });
+};
+
+/**
+ * Converts a Word document to HTML with mammoth.
+ */
+export const renderDocxHtml = async (file: File): Promise<string> => {
+    const arrayBuffer = await file.arrayBuffer();
+    const result = await (window as any).mammoth.convertToHtml({ arrayBuffer });
+    return result.value;
+};
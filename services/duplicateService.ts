@@ -0,0 +1,166 @@
+import type { Candidate } from '../types';
+
+/**
+ * Duplicate handling at two levels: exact file duplicates are caught before parsing by
+ * hashing the upload, and the same person arriving through different files is caught
+ * after parsing by comparing contact details and name + company.
+ */
+
+export type DuplicateReason = 'email' | 'mobile' | 'name-company';
+
+export interface DuplicateMatch {
+    first: Candidate;
+    second: Candidate;
+    reasons: DuplicateReason[];
+}
+
+// Minimum name similarity (0-1) for a name + company match.
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Returns the SHA-256 digest of a file's bytes as a hex string.
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Picks a name that doesn't collide with `takenNames`, e.g. "Resume.pdf" -> "Resume (2).pdf".
+ */
+export const getUniqueFileName = (fileName: string, takenNames: Set<string>): string => {
+    if (!takenNames.has(fileName)) return fileName;
+    const dotIndex = fileName.lastIndexOf('.');
+    const base = dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+    const extension = dotIndex > 0 ? fileName.slice(dotIndex) : '';
+    let counter = 2;
+    while (takenNames.has(`${base} (${counter})${extension}`)) {
+        counter++;
+    }
+    return `${base} (${counter})${extension}`;
+};
+
+const normalizeEmail = (email: string) => (email || '').trim().toLowerCase();
+
+// Compare on the last 10 digits so "+91 98765 43210" and "09876543210" match.
+const normalizeMobile = (mobile: string) => {
+    const digits = (mobile || '').replace(/\D/g, '');
+    return digits.length >= 10 ? digits.slice(-10) : digits;
+};
+
+const normalizeText = (value: string) => (value || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Common legal suffixes that shouldn't make "Infosys" and "Infosys Ltd." differ.
+const normalizeCompany = (company: string) => normalizeText(company)
+    .replace(/\b(private|pvt|limited|ltd|inc|llp|llc|corp|corporation|technologies|solutions)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string): number => {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = Math.min(
+                previous[j] + 1,
+                previous[j - 1] + 1,
+                diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+};
+
+/**
+ * Similarity between two person names in the 0-1 range. Name parts are sorted first so
+ * "Sharma Aarav" and "Aarav Sharma" compare as equal.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+    const left = normalizeText(a).split(' ').sort().join(' ');
+    const right = normalizeText(b).split(' ').sort().join(' ');
+    if (!left || !right) return 0;
+    const longest = Math.max(left.length, right.length);
+    return 1 - levenshtein(left, right) / longest;
+};
+
+const getDuplicateReasons = (a: Candidate, b: Candidate): DuplicateReason[] => {
+    const reasons: DuplicateReason[] = [];
+
+    const emailA = normalizeEmail(a.email);
+    if (emailA && emailA === normalizeEmail(b.email)) {
+        reasons.push('email');
+    }
+
+    const mobileA = normalizeMobile(a.mobile);
+    if (mobileA.length >= 10 && mobileA === normalizeMobile(b.mobile)) {
+        reasons.push('mobile');
+    }
+
+    const companyA = normalizeCompany(a.currentCompany);
+    const companyB = normalizeCompany(b.currentCompany);
+    if (companyA && companyA === companyB && nameSimilarity(a.fullName, b.fullName) >= NAME_SIMILARITY_THRESHOLD) {
+        reasons.push('name-company');
+    }
+
+    return reasons;
+};
+
+/**
+ * The fields duplicate detection reads, joined into one string. The pairwise scan only
+ * needs to run again when this changes, not on every edit to a candidate.
+ */
+const getDuplicateScanKey = (candidates: Candidate[]): string => JSON.stringify(candidates.map(c => [
+    c.id, c.email, c.mobile, c.fullName, c.currentCompany, c.notDuplicateOf ?? [],
+]));
+
+interface DuplicatePair {
+    firstId: string;
+    secondId: string;
+    reasons: DuplicateReason[];
+}
+
+// The most recent scan, reused while none of the fields it read have changed
+let lastScan: { key: string; pairs: DuplicatePair[] } | undefined;
+
+const scanForDuplicates = (candidates: Candidate[]): DuplicatePair[] => {
+    const pairs: DuplicatePair[] = [];
+    for (let i = 0; i < candidates.length; i++) {
+        for (let j = i + 1; j < candidates.length; j++) {
+            const first = candidates[i];
+            const second = candidates[j];
+            if (first.notDuplicateOf?.includes(second.id) || second.notDuplicateOf?.includes(first.id)) {
+                continue;
+            }
+            const reasons = getDuplicateReasons(first, second);
+            if (reasons.length > 0) {
+                pairs.push({ firstId: first.id, secondId: second.id, reasons });
+            }
+        }
+    }
+    return pairs;
+};
+
+/**
+ * Lists every pair of candidates that look like the same person, skipping pairs a
+ * recruiter has already marked as different people. Each match holds the candidates as
+ * passed in; the pairwise scan itself is skipped when no compared field has changed.
+ */
+export const findDuplicateCandidates = (candidates: Candidate[]): DuplicateMatch[] => {
+    const key = getDuplicateScanKey(candidates);
+    const pairs = lastScan?.key === key ? lastScan.pairs : scanForDuplicates(candidates);
+    lastScan = { key, pairs };
+
+    const byId = new Map(candidates.map(c => [c.id, c]));
+    return pairs.flatMap(({ firstId, secondId, reasons }) => {
+        const first = byId.get(firstId);
+        const second = byId.get(secondId);
+        return first && second ? [{ first, second, reasons }] : [];
+    });
+};
@@ -0,0 +1,328 @@
+import type { Candidate } from '../types';
+import { getAnnualAmount, parseCompensation } from './compensationService';
+import type { FxTable } from './compensationService';
+import { canJoinWithin } from './noticePeriodService';
+import { hasTag } from './annotationService';
+import { canonicalizeSkill, expandSkills } from './skillTaxonomyService';
+import type { SkillIndex } from './skillTaxonomyService';
+import { escapeRegExp } from './textUtils';
+
+/**
+ * Candidate filtering: substring text fields, numeric ranges, a boolean skill expression
+ * ("React AND (AWS OR GCP) NOT PHP"), shortlisted-only, pipeline stage, recruiter tags,
+ * rating and notes, and joining availability. Filters can be saved as named presets in
+ * localStorage and round-tripped through a URL query string.
+ */
+
+export interface CandidateFilters {
+    designation: string;
+    noticePeriod: string;
+    currentLocation: string;
+    // Boolean expression over skills; a single term behaves like the old substring box
+    skills: string;
+    minTotalExperience: string;
+    maxTotalExperience: string;
+    minRelevantExperience: string;
+    maxRelevantExperience: string;
+    // CTC bounds accept the same shorthand as resumes ("18 L", "1.2 Cr", "$90k")
+    minCurrentCTC: string;
+    maxCurrentCTC: string;
+    minExpectedCTC: string;
+    maxExpectedCTC: string;
+    minMatchScore: string;
+    maxMatchScore: string;
+    shortlistedOnly: boolean;
+    // Pipeline stage id for the active requisition
+    stage: string;
+    tag: string;
+    minRating: string;
+    // Substring of any recruiter note
+    notes: string;
+    // Availability: can join within N days of the given date (defaults to today)
+    joinWithinDays: string;
+    joinByDate: string;
+}
+
+export interface FilterPreset {
+    name: string;
+    filters: CandidateFilters;
+}
+
+export const EMPTY_FILTERS: CandidateFilters = {
+    designation: '',
+    noticePeriod: '',
+    currentLocation: '',
+    skills: '',
+    minTotalExperience: '',
+    maxTotalExperience: '',
+    minRelevantExperience: '',
+    maxRelevantExperience: '',
+    minCurrentCTC: '',
+    maxCurrentCTC: '',
+    minExpectedCTC: '',
+    maxExpectedCTC: '',
+    minMatchScore: '',
+    maxMatchScore: '',
+    shortlistedOnly: false,
+    stage: '',
+    tag: '',
+    minRating: '',
+    notes: '',
+    joinWithinDays: '',
+    joinByDate: '',
+};
+
+const PRESETS_STORAGE_KEY = 'filterPresets';
+
+// --- Skill expressions ---
+
+export type SkillExpression =
+    | { type: 'term'; value: string }
+    | { type: 'not'; operand: SkillExpression }
+    | { type: 'and' | 'or'; left: SkillExpression; right: SkillExpression };
+
+type Token =
+    | { type: 'term'; value: string }
+    | { type: 'and' | 'or' | 'not' | 'open' | 'close' };
+
+const OPERATOR_WORDS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+/**
+ * Splits an expression into tokens. Operators must be upper case so skills like "Go" or
+ * "Or-Tools" survive; consecutive plain words form one multi-word term ("Spring Boot").
+ */
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let words: string[] = [];
+    const flushTerm = () => {
+        if (words.length > 0) tokens.push({ type: 'term', value: words.join(' ') });
+        words = [];
+    };
+
+    const pattern = /"([^"]*)"|(\()|(\))|(&&|\|\||!)|([^\s()"]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const [, quoted, open, close, symbol, word] = match;
+        if (quoted !== undefined) {
+            flushTerm();
+            if (quoted.trim()) tokens.push({ type: 'term', value: quoted.trim() });
+        } else if (open || close) {
+            flushTerm();
+            tokens.push({ type: open ? 'open' : 'close' });
+        } else if (symbol) {
+            flushTerm();
+            tokens.push({ type: symbol === '&&' ? 'and' : symbol === '||' ? 'or' : 'not' });
+        } else if (OPERATOR_WORDS[word]) {
+            flushTerm();
+            tokens.push({ type: OPERATOR_WORDS[word] });
+        } else {
+            words.push(word);
+        }
+    }
+    flushTerm();
+    return tokens;
+};
+
+/**
+ * Parses a skill expression. AND binds tighter than OR, and NOT directly after a term or
+ * group means AND NOT, so "React AND (AWS OR GCP) NOT PHP" reads as written.
+ */
+export const parseSkillExpression = (text: string): { expression: SkillExpression | null; error?: string } => {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) return { expression: null };
+    let position = 0;
+
+    const peek = () => tokens[position];
+
+    const parseOr = (): SkillExpression => {
+        let left = parseAnd();
+        while (peek()?.type === 'or') {
+            position++;
+            left = { type: 'or', left, right: parseAnd() };
+        }
+        return left;
+    };
+
+    const parseAnd = (): SkillExpression => {
+        let left = parseUnary();
+        for (;;) {
+            const next = peek();
+            if (next?.type === 'and') {
+                position++;
+            } else if (!next || (next.type !== 'not' && next.type !== 'open' && next.type !== 'term')) {
+                break;
+            }
+            // Adjacent operands without an operator are joined with AND
+            left = { type: 'and', left, right: parseUnary() };
+        }
+        return left;
+    };
+
+    const parseUnary = (): SkillExpression => {
+        if (peek()?.type === 'not') {
+            position++;
+            return { type: 'not', operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): SkillExpression => {
+        const token = tokens[position++];
+        if (!token) throw new Error('Expression ends unexpectedly.');
+        if (token.type === 'term') return { type: 'term', value: token.value };
+        if (token.type === 'open') {
+            const inner = parseOr();
+            if (tokens[position++]?.type !== 'close') throw new Error('Missing closing parenthesis.');
+            return inner;
+        }
+        throw new Error(`Unexpected ${token.type === 'close' ? '")"' : token.type.toUpperCase()}.`);
+    };
+
+    try {
+        const expression = parseOr();
+        if (position < tokens.length) throw new Error('Unexpected ")".');
+        return { expression };
+    } catch (error) {
+        return { expression: null, error: error instanceof Error ? error.message : String(error) };
+    }
+};
+
+/**
+ * A term matches a skill when it appears as a whole word, so "Java" matches "Core Java"
+ * but not "JavaScript", and "React" matches "React.js".
+ */
+const skillMatchesTerm = (skill: string, term: string) => {
+    const pattern = new RegExp(`(^|[^a-z0-9])${escapeRegExp(term.toLowerCase())}($|[^a-z0-9])`);
+    return pattern.test(skill.toLowerCase());
+};
+
+/**
+ * With a skill index, terms are looked up by their canonical name too, so "ReactJS" in the
+ * expression finds candidates whose skill was normalized to "React".
+ */
+export const matchesSkillExpression = (expression: SkillExpression, skills: string[], index?: SkillIndex): boolean => {
+    switch (expression.type) {
+        case 'term': {
+            const canonical = index ? canonicalizeSkill(expression.value, index) : expression.value;
+            return skills.some(skill => skillMatchesTerm(skill, expression.value) || skillMatchesTerm(skill, canonical));
+        }
+        case 'not':
+            return !matchesSkillExpression(expression.operand, skills, index);
+        case 'and':
+            return matchesSkillExpression(expression.left, skills, index) && matchesSkillExpression(expression.right, skills, index);
+        case 'or':
+            return matchesSkillExpression(expression.left, skills, index) || matchesSkillExpression(expression.right, skills, index);
+    }
+};
+
+// --- Applying filters ---
+
+const parseBound = (value: string): number | null => {
+    if (value.trim() === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+/** CTC bounds are read like a resume CTC and converted to an annual base-currency amount. */
+const parseCtcBound = (value: string, fx: FxTable): number | null => {
+    if (value.trim() === '') return null;
+    return getAnnualAmount(parseCompensation(value, fx.baseCurrency), fx);
+};
+
+const isWithin = (value: number | null | undefined, min: number | null, max: number | null) => {
+    if (min === null && max === null) return true;
+    // A candidate without a value can't be shown to satisfy the range
+    if (value === null || value === undefined) return false;
+    return (min === null || value >= min) && (max === null || value <= max);
+};
+
+export const countActiveFilters = (filters: CandidateFilters): number => {
+    return (Object.keys(EMPTY_FILTERS) as (keyof CandidateFilters)[])
+        .filter(key => filters[key] !== EMPTY_FILTERS[key])
+        .length;
+};
+
+const includesText = (value: string | undefined, query: string) => {
+    return (value ?? '').toLowerCase().includes(query.toLowerCase());
+};
+
+/**
+ * Returns the candidates that pass every active filter. An invalid skill expression is
+ * ignored rather than hiding everyone; the builder shows the parse error instead. Skills
+ * implied by the taxonomy (Spring Boot -> Java) count as matches.
+ */
+export const applyFilters = (candidates: Candidate[], filters: CandidateFilters, fx: FxTable, skillIndex: SkillIndex): Candidate[] => {
+    const skillExpression = parseSkillExpression(filters.skills).expression;
+    const totalExperience = [parseBound(filters.minTotalExperience), parseBound(filters.maxTotalExperience)] as const;
+    const relevantExperience = [parseBound(filters.minRelevantExperience), parseBound(filters.maxRelevantExperience)] as const;
+    const currentCTC = [parseCtcBound(filters.minCurrentCTC, fx), parseCtcBound(filters.maxCurrentCTC, fx)] as const;
+    const expectedCTC = [parseCtcBound(filters.minExpectedCTC, fx), parseCtcBound(filters.maxExpectedCTC, fx)] as const;
+    const matchScore = [parseBound(filters.minMatchScore), parseBound(filters.maxMatchScore)] as const;
+    const minRating = parseBound(filters.minRating);
+    const joinWithinDays = parseBound(filters.joinWithinDays);
+    const joinByDate = filters.joinByDate ? new Date(`${filters.joinByDate}T00:00:00`) : new Date();
+
+    return candidates.filter(c => {
+        if (filters.designation && !includesText(c.designation, filters.designation)) return false;
+        if (filters.noticePeriod && !includesText(c.noticePeriod, filters.noticePeriod)) return false;
+        if (filters.currentLocation && !includesText(c.currentLocation, filters.currentLocation)) return false;
+        if (skillExpression && !matchesSkillExpression(skillExpression, expandSkills(c.skills ?? [], skillIndex), skillIndex)) return false;
+        if (filters.shortlistedOnly && !c.isShortlisted) return false;
+        if (filters.stage && c.pipelineStage !== filters.stage) return false;
+        if (filters.tag && !hasTag(c, filters.tag)) return false;
+        if (minRating !== null && (c.rating ?? 0) < minRating) return false;
+        if (filters.notes && !(c.notes ?? []).some(note => includesText(note.text, filters.notes))) return false;
+        if (!isWithin(c.totalExperience, ...totalExperience)) return false;
+        if (!isWithin(c.relevantExperience, ...relevantExperience)) return false;
+        if (!isWithin(getAnnualAmount(c.currentCompensation, fx), ...currentCTC)) return false;
+        if (!isWithin(getAnnualAmount(c.expectedCompensation, fx), ...expectedCTC)) return false;
+        if (!isWithin(c.matchScore, ...matchScore)) return false;
+        if (joinWithinDays !== null && joinWithinDays >= 0 && !canJoinWithin(c.notice, joinWithinDays, joinByDate)) return false;
+        return true;
+    });
+};
+
+// --- Presets and sharing ---
+
+/** Encodes only the active filters, e.g. "?skills=React+AND+AWS&minTotalExperience=3". */
+export const filtersToQueryString = (filters: CandidateFilters): string => {
+    const params = new URLSearchParams();
+    (Object.keys(EMPTY_FILTERS) as (keyof CandidateFilters)[]).forEach(key => {
+        const value = filters[key];
+        if (value === EMPTY_FILTERS[key]) return;
+        params.set(key, typeof value === 'boolean' ? '1' : value);
+    });
+    const query = params.toString();
+    return query ? `?${query}` : '';
+};
+
+/** Reads filters from a query string; returns null when it contains none. */
+export const filtersFromQueryString = (search: string): CandidateFilters | null => {
+    const params = new URLSearchParams(search);
+    const filters: CandidateFilters = { ...EMPTY_FILTERS };
+    let found = false;
+    (Object.keys(EMPTY_FILTERS) as (keyof CandidateFilters)[]).forEach(key => {
+        const value = params.get(key);
+        if (value === null) return;
+        found = true;
+        if (key === 'shortlistedOnly') filters.shortlistedOnly = value === '1' || value === 'true';
+        else filters[key] = value;
+    });
+    return found ? filters : null;
+};
+
+export const loadFilterPresets = (): FilterPreset[] => {
+    if (typeof window === 'undefined' || !window.localStorage) return [];
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+        if (!Array.isArray(stored)) return [];
+        // Presets saved before a filter existed pick up its empty default
+        return stored.map((preset: FilterPreset) => ({ name: preset.name, filters: { ...EMPTY_FILTERS, ...preset.filters } }));
+    } catch {
+        return [];
+    }
+};
+
+export const saveFilterPresets = (presets: FilterPreset[]) => {
+    window.localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
@@ -1,5 +1,15 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { Candidate } from '../types';
+import type { Candidate, JobRequirements, InterviewKit, EducationEntry, EmploymentEntry, EvidenceField, ExtractionInfo, ExtractionMethod, FieldConfidence, FieldEvidence } from '../types';
+import { isRecord, ProviderRequestError } from './aiProvider';
+import type { BatchMatchProfile, CandidateMatchProfile, ContentPart, JsonSchema, MatchResult, OutreachProfile, ProviderSettings } from './aiProvider';
+import { getProvider, loadProviderSettings } from './providers';
+import { extractPageText } from './pdfTextService';
+import { computeExperienceFromHistory, formatRolePeriod, sortEmploymentHistory } from './historyService';
+import { parseCompensation } from './compensationService';
+import { parseNoticePeriod } from './noticePeriodService';
+import { expandSkills } from './skillTaxonomyService';
+import type { SkillIndex } from './skillTaxonomyService';
+import { createInterviewQuestion } from './interviewKitService';
+import { newId } from './textUtils';
 
 /**
  * A promise that resolves with the configured pdfjsLib object.
@@ -37,16 +47,52 @@ export const getConfiguredPdfjsLib = (): Promise<any> => {
     return getPdfjsLibPromise;
 };
 
-const fileToGenerativePart = async (file: File, pages: number[] | undefined, onProgress: (progress: number) => void) => {
+// Scale used when a PDF page has to be sent as an image instead of text.
+const PDF_IMAGE_SCALE = 1.5;
+
+const renderPdfPageToJpeg = async (page: any, signal?: AbortSignal): Promise<string> => {
+    const viewport = page.getViewport({ scale: PDF_IMAGE_SCALE });
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    canvas.height = viewport.height;
+    canvas.width = viewport.width;
+
+    if (!context) {
+        throw new Error('Could not create canvas context');
+    }
+    // Fill with white background to avoid transparency issues
+    context.fillStyle = 'white';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Cancel the pdf.js render task as soon as the caller aborts
+    const renderTask = page.render({ canvasContext: context, viewport });
+    const cancelRender = () => renderTask.cancel();
+    signal?.addEventListener('abort', cancelRender, { once: true });
+    try {
+        await renderTask.promise;
+    } catch (error) {
+        signal?.throwIfAborted();
+        throw error;
+    } finally {
+        signal?.removeEventListener('abort', cancelRender);
+    }
+
+    return canvas.toDataURL('image/jpeg').split(',')[1];
+};
+
+const fileToContentParts = async (
+    file: File,
+    pages: number[] | undefined,
+    onProgress: (progress: number) => void,
+    signal?: AbortSignal
+): Promise<{ parts: ContentPart[]; extraction: ExtractionInfo }> => {
   onProgress(5); // Initial progress
   if (file.type.startsWith('image/')) {
     const base64 = await toBase64(file);
     onProgress(80); // File processing done
     return {
-      inlineData: {
-        mimeType: file.type,
-        data: base64,
-      },
+      parts: [{ type: 'image', mimeType: file.type, data: base64 }],
+      extraction: { method: 'image' },
     };
   } else if (file.type === 'application/pdf') {
     const pdfjsLib = await getConfiguredPdfjsLib();
@@ -54,78 +100,52 @@ const fileToGenerativePart = async (file: File, pages: number[] | undefined, onP
     const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
 
     // If pages are not specified (e.g. auto-parse), select ALL pages.
-    const pagesToParse = pages && pages.length > 0 
+    const pagesToParse = (pages && pages.length > 0 
         ? pages 
-        : Array.from({ length: pdf.numPages }, (_, i) => i + 1);
-        
-    const renderedPages: { canvas: HTMLCanvasElement; width: number; height: number }[] = [];
-    let totalHeight = 0;
-    let maxWidth = 0;
-    
-    const totalPagesToProcess = pagesToParse.length;
+        : Array.from({ length: pdf.numPages }, (_, i) => i + 1)
+    ).filter(pageNum => pageNum >= 1 && pageNum <= pdf.numPages); // Skip invalid page numbers
+
+    if (pagesToParse.length === 0) {
+        throw new Error('Could not read any PDF pages.');
+    }
+
+    const parts: ContentPart[] = [];
+    const textPages: number[] = [];
+    const imagePages: number[] = [];
     let processedPages = 0;
 
+    // Born-digital pages are sent as text; only pages without a usable text layer are rendered.
     for (const pageNum of pagesToParse) {
-        if (pageNum > pdf.numPages || pageNum < 1) continue; // Skip invalid page numbers
-
+        signal?.throwIfAborted();
         const page = await pdf.getPage(pageNum);
-        const viewport = page.getViewport({ scale: 1.5 });
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
+        const text = await extractPageText(page);
 
-        if (!context) continue;
+        if (text) {
+            parts.push({ type: 'text', text: `--- Page ${pageNum} ---\n${text}` });
+            textPages.push(pageNum);
+        } else {
+            parts.push({ type: 'text', text: `--- Page ${pageNum} (scanned image) ---` });
+            parts.push({ type: 'image', mimeType: 'image/jpeg', data: await renderPdfPageToJpeg(page, signal) });
+            imagePages.push(pageNum);
+        }
 
-        await page.render({ canvasContext: context, viewport }).promise;
-        
         processedPages++;
-        // Allocate 75% of progress to PDF page rendering
-        const progress = 5 + Math.round((processedPages / totalPagesToProcess) * 75);
-        onProgress(progress);
-
-        renderedPages.push({ canvas, width: canvas.width, height: canvas.height });
-        totalHeight += canvas.height;
-        maxWidth = Math.max(maxWidth, canvas.width);
-    }
-
-    if (renderedPages.length === 0) {
-        throw new Error('Could not render any PDF pages.');
+        // Allocate 75% of progress to PDF page extraction
+        onProgress(5 + Math.round((processedPages / pagesToParse.length) * 75));
     }
 
-    // Create a final canvas to stitch the rendered pages together vertically
-    const finalCanvas = document.createElement('canvas');
-    finalCanvas.width = maxWidth;
-    finalCanvas.height = totalHeight;
-    const finalContext = finalCanvas.getContext('2d');
-
-    if (!finalContext) {
-        throw new Error('Could not create final canvas context');
-    }
-    // Fill with white background to avoid transparency issues
-    finalContext.fillStyle = 'white';
-    finalContext.fillRect(0, 0, finalCanvas.width, finalCanvas.height);
-
-    let currentY = 0;
-    for (const { canvas } of renderedPages) {
-        finalContext.drawImage(canvas, 0, currentY);
-        currentY += canvas.height;
-    }
-
-    const base64 = finalCanvas.toDataURL('image/jpeg').split(',')[1];
+    const method: ExtractionMethod = imagePages.length === 0 ? 'pdf-text' : textPages.length === 0 ? 'pdf-image' : 'pdf-mixed';
     onProgress(80); // Final step before returning
-    return {
-      inlineData: {
-        mimeType: 'image/jpeg',
-        data: base64,
-      },
-    };
+    return { parts, extraction: { method, textPages, imagePages } };
 
   } else if (file.type.includes('wordprocessingml') || file.type.includes('msword')) {
     const arrayBuffer = await file.arrayBuffer();
     const result = await (window as any).mammoth.extractRawText({ arrayBuffer });
     onProgress(80); // File processing done
-    return { text: result.value };
+    return {
+      parts: [{ type: 'text', text: result.value }],
+      extraction: { method: 'docx-text' },
+    };
   } else {
     throw new Error(`Unsupported file type: ${file.type}`);
   }
@@ -144,34 +164,150 @@ const toBase64 = (file: File): Promise<string> => {
   });
 };
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const EVIDENCE_FIELDS: EvidenceField[] = [
+    'fullName', 'email', 'mobile', 'dob', 'currentCompany', 'designation',
+    'totalExperience', 'relevantExperience', 'currentCTC', 'expectedCTC',
+    'noticePeriod', 'highestQualification', 'educationField', 'currentLocation',
+];
+
+const CONFIDENCE_LEVELS: FieldConfidence[] = ['high', 'medium', 'low'];
+
+const isEvidenceField = (value: unknown): value is EvidenceField =>
+    EVIDENCE_FIELDS.some(field => field === value);
 
-const resumeSchema = {
-    type: Type.OBJECT,
+const isConfidence = (value: unknown): value is FieldConfidence =>
+    CONFIDENCE_LEVELS.some(level => level === value);
+
+// Objects in a model-returned list; anything else in the list is skipped
+const asRecords = (value: unknown): Record<string, unknown>[] => Array.isArray(value) ? value.filter(isRecord) : [];
+
+const resumeSchema: JsonSchema = {
+    type: 'object',
     properties: {
-        fullName: { type: Type.STRING },
-        email: { type: Type.STRING },
-        mobile: { type: Type.STRING },
-        dob: { type: Type.STRING, description: "Date of Birth, e.g., YYYY-MM-DD or DD/MM/YYYY" },
-        currentCompany: { type: Type.STRING },
-        designation: { type: Type.STRING, description: "Designation in Current Company" },
-        totalExperience: { type: Type.STRING, description: "e.g., '5 years', '3 months'" },
-        relevantExperience: { type: Type.STRING, description: "e.g., '3 years'" },
+        fullName: { type: 'string' },
+        email: { type: 'string' },
+        mobile: { type: 'string' },
+        dob: { type: 'string', description: "Date of Birth, e.g., YYYY-MM-DD or DD/MM/YYYY" },
+        currentCompany: { type: 'string' },
+        designation: { type: 'string', description: "Designation in Current Company" },
+        totalExperience: { type: 'string', description: "e.g., '5 years', '3 months'" },
+        relevantExperience: { type: 'string', description: "e.g., '3 years'" },
         skills: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
+            type: 'array',
+            items: { type: 'string' },
             description: "A list of key technical and soft skills found in the resume."
         },
-        currentCTC: { type: Type.STRING, description: "e.g., '12 LPA', '$80,000'" },
-        expectedCTC: { type: Type.STRING, description: "e.g., '15 LPA', '$95,000'" },
-        noticePeriod: { type: Type.STRING, description: "e.g., '30 days', 'Immediate Joiner'" },
-        highestQualification: { type: Type.STRING },
-        educationField: { type: Type.STRING, description: "Education in/Branch/Field" },
-        currentLocation: { type: Type.STRING },
+        currentCTC: { type: 'string', description: "As written, including currency, period and any fixed/variable split, e.g., '12 LPA', '$80,000', '80k per month', '15 L fixed + 3 L variable'" },
+        expectedCTC: { type: 'string', description: "As written, including currency and period, e.g., '15 LPA', '$95,000'" },
+        noticePeriod: { type: 'string', description: "e.g., '30 days', 'Immediate Joiner', 'Serving notice, LWD 15 Nov 2025'" },
+        highestQualification: { type: 'string' },
+        educationField: { type: 'string', description: "Education in/Branch/Field" },
+        currentLocation: { type: 'string' },
+        employmentHistory: {
+            type: 'array',
+            description: "Every job listed in the resume, most recent first.",
+            items: {
+                type: 'object',
+                properties: {
+                    company: { type: 'string' },
+                    title: { type: 'string', description: "Job title / designation" },
+                    startDate: { type: 'string', description: "YYYY-MM, or YYYY if only the year is given" },
+                    endDate: { type: 'string', description: "YYYY-MM, YYYY, or 'Present' for the current job" },
+                    location: { type: 'string' },
+                    highlights: { type: 'array', items: { type: 'string' }, description: "Up to 3 key achievements or responsibilities" }
+                },
+                required: ["company", "title", "startDate", "endDate"]
+            }
+        },
+        educationHistory: {
+            type: 'array',
+            description: "Every degree or diploma listed in the resume, highest first.",
+            items: {
+                type: 'object',
+                properties: {
+                    degree: { type: 'string' },
+                    field: { type: 'string', description: "Branch / specialization" },
+                    institution: { type: 'string' },
+                    year: { type: 'string', description: "Year of completion (YYYY)" }
+                },
+                required: ["degree", "institution"]
+            }
+        },
+        fieldEvidence: {
+            type: 'array',
+            description: "One entry per non-empty extracted field (except skills) saying where the value came from.",
+            items: {
+                type: 'object',
+                properties: {
+                    field: { type: 'string', enum: EVIDENCE_FIELDS },
+                    confidence: {
+                        type: 'string',
+                        enum: CONFIDENCE_LEVELS,
+                        description: "high: stated explicitly; medium: derived or calculated from other text; low: guessed or ambiguous."
+                    },
+                    source: { type: 'string', description: "The exact text copied verbatim from the resume that supports the value, or an empty string if none." }
+                },
+                required: ["field", "confidence", "source"]
+            }
+        },
+        scannedText: {
+            type: 'string',
+            description: "Plain-text transcription of any resume pages provided as images, in reading order. Empty string when all content was provided as text."
+        },
     },
-    required: ["fullName", "email", "mobile", "totalExperience", "highestQualification", "currentLocation", "skills"]
+    required: ["fullName", "email", "mobile", "totalExperience", "highestQualification", "currentLocation", "skills", "fieldEvidence"]
 };
 
+/**
+ * Turns the model's evidence list into a per-field map. A value the model returned
+ * without any evidence entry is recorded as low confidence with no source.
+ */
+const buildFieldEvidence = (fields: Record<EvidenceField, string>, fieldEvidence: unknown): Partial<Record<EvidenceField, FieldEvidence>> => {
+    const evidence: Partial<Record<EvidenceField, FieldEvidence>> = {};
+
+    asRecords(fieldEvidence).forEach(entry => {
+        if (!isEvidenceField(entry.field)) return;
+        evidence[entry.field] = {
+            confidence: isConfidence(entry.confidence) ? entry.confidence : 'low',
+            source: asText(entry.source),
+        };
+    });
+
+    EVIDENCE_FIELDS.forEach(field => {
+        if (!evidence[field] && fields[field] !== '') {
+            evidence[field] = { confidence: 'low', source: '' };
+        }
+    });
+
+    return evidence;
+};
+
+const asText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const asTextList = (value: unknown): string[] => Array.isArray(value) ? value.map(asText).filter(Boolean) : [];
+
+const normalizeEmploymentHistory = (value: unknown): EmploymentEntry[] =>
+    sortEmploymentHistory(asRecords(value)
+        .map(entry => ({
+            company: asText(entry.company),
+            title: asText(entry.title),
+            startDate: asText(entry.startDate),
+            endDate: asText(entry.endDate),
+            location: asText(entry.location),
+            highlights: asTextList(entry.highlights),
+        }))
+        .filter(entry => entry.company || entry.title));
+
+const normalizeEducationHistory = (value: unknown): EducationEntry[] =>
+    asRecords(value)
+        .map(entry => ({
+            degree: asText(entry.degree),
+            field: asText(entry.field),
+            institution: asText(entry.institution),
+            year: asText(entry.year),
+        }))
+        .filter(entry => entry.degree || entry.institution);
+
 // Helper function to parse experience strings into numbers (years)
 const parseExperienceToNumber = (expString: string): number => {
   if (!expString) return 0;
@@ -204,13 +340,20 @@ const parseExperienceToNumber = (expString: string): number => {
 };
 
 
-export const parseResume = async (file: File, pages: number[] | undefined, onProgress: (progress: number) => void): Promise<Candidate> => {
+export const parseResume = async (
+    file: File,
+    pages: number[] | undefined,
+    onProgress: (progress: number) => void,
+    settings: ProviderSettings = loadProviderSettings(),
+    signal?: AbortSignal
+): Promise<Candidate> => {
     try {
-        const filePart = await fileToGenerativePart(file, pages, onProgress);
+        const { parts: content, extraction } = await fileToContentParts(file, pages, onProgress, signal);
+        signal?.throwIfAborted();
 
         const prompt = `
             You are an expert HR assistant specializing in parsing resumes.
-            Analyze the provided resume content (which could be an image or text) and extract the candidate's details.
+            Analyze the provided resume content (which could be images, text, or text with some scanned pages as images) and extract the candidate's details.
             Strictly follow the JSON schema provided.
             
             Instructions for specific fields:
@@ -218,45 +361,91 @@ export const parseResume = async (file: File, pages: number[] | undefined, onPro
             2. **Skills**: Identify and list all key technical skills (like Python, React, AWS) and soft skills (like Teamwork, Communication) as a list of strings.
             3. **Experience**: Extract the exact text found (e.g., "5 years", "6 months", "2 years 4 months"). Do not convert to a number yet.
             4. **General**: If a specific piece of information is not found, return an empty string "" for that field, or an empty list [] for the skills field. Do not make up information.
+            5. **History**: List every job in "employmentHistory" and every degree in "educationHistory". Copy dates as written, converted to YYYY-MM (or YYYY); use "Present" for the current job. Do not invent dates that are not in the resume.
+            6. **Field Evidence**: For every non-empty field except skills, add a "fieldEvidence" entry with the field name, your confidence, and the exact text from the resume the value was taken from. Copy the source text verbatim; do not paraphrase. If the value was inferred (e.g., experience calculated from dates), use "medium" and quote the text it was inferred from.
+            7. **Scanned Text**: If any part of the resume was provided as an image, transcribe all of its text into "scannedText". Otherwise return "".
         `;
         
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: {
-                parts: [filePart, { text: prompt }]
-            },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: resumeSchema
-            }
-        });
-
-        onProgress(95); // AI call complete, now parsing JSON
-
-        let parsedJson;
-        try {
-            parsedJson = JSON.parse(response.text || "{}");
-        } catch (jsonError) {
-            console.error("Failed to parse JSON response from Gemini:", response.text);
-            throw new Error("The AI model returned an invalid data format. Please try again.");
+        const raw = await getProvider(settings.providerId).extractResume(
+            { model: settings.model, prompt, schema: resumeSchema, content, fileName: file.name, signal },
+            settings
+        );
+
+        onProgress(100); // AI call complete and JSON parsed
+
+        // Read only the schema's fields, each checked for its type; anything else the model sent is dropped
+        const fields: Record<EvidenceField, string> = {
+            fullName: asText(raw.fullName),
+            email: asText(raw.email),
+            mobile: asText(raw.mobile),
+            dob: asText(raw.dob),
+            currentCompany: asText(raw.currentCompany),
+            designation: asText(raw.designation),
+            totalExperience: asText(raw.totalExperience),
+            relevantExperience: asText(raw.relevantExperience),
+            currentCTC: asText(raw.currentCTC),
+            expectedCTC: asText(raw.expectedCTC),
+            noticePeriod: asText(raw.noticePeriod),
+            highestQualification: asText(raw.highestQualification),
+            educationField: asText(raw.educationField),
+            currentLocation: asText(raw.currentLocation),
+        };
+        const employmentHistory = normalizeEmploymentHistory(raw.employmentHistory);
+        const educationHistory = normalizeEducationHistory(raw.educationHistory);
+        const evidence = buildFieldEvidence(fields, raw.fieldEvidence);
+
+        // Prefer experience computed from the dated roles over the stated free-text total
+        const computedExperience = computeExperienceFromHistory(employmentHistory);
+        if (computedExperience !== null) {
+            evidence.totalExperience = {
+                confidence: 'high',
+                source: `Computed from employment history: ${employmentHistory.map(role => `${role.company} ${formatRolePeriod(role)}`).join('; ')}`
+            };
         }
+        const latestRole = employmentHistory[0];
+        const highestDegree = educationHistory[0];
 
-        onProgress(100); // All done
+        // Keep what was read from the file so the resume can be searched later
+        const rawText = [
+            ...content.map(part => part.type === 'text' ? part.text : ''),
+            asText(raw.scannedText),
+        ].filter(Boolean).join('\n');
 
-        // Post-process numeric fields
         const finalCandidate: Candidate = {
-            id: typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : Date.now().toString(36) + Math.random().toString(36).substr(2),
-            ...parsedJson,
-            totalExperience: parseExperienceToNumber(parsedJson.totalExperience),
-            relevantExperience: parseExperienceToNumber(parsedJson.relevantExperience),
+            id: newId(),
+            ...fields,
+            skills: asTextList(raw.skills),
+            currentCompany: fields.currentCompany || latestRole?.company || '',
+            designation: fields.designation || latestRole?.title || '',
+            highestQualification: fields.highestQualification || highestDegree?.degree || '',
+            educationField: fields.educationField || highestDegree?.field || '',
+            totalExperience: computedExperience ?? parseExperienceToNumber(fields.totalExperience),
+            currentCompensation: fields.currentCTC ? parseCompensation(fields.currentCTC) : undefined,
+            expectedCompensation: fields.expectedCTC ? parseCompensation(fields.expectedCTC) : undefined,
+            notice: fields.noticePeriod ? parseNoticePeriod(fields.noticePeriod) : undefined,
+            relevantExperience: parseExperienceToNumber(fields.relevantExperience),
             fileName: file.name,
-            isShortlisted: false
+            aiProvider: settings.providerId,
+            aiModel: settings.model,
+            employmentHistory,
+            educationHistory,
+            extraction,
+            evidence,
+            rawText
         };
 
         return finalCandidate;
 
     } catch (error) {
+        if (signal?.aborted) {
+            // Cancellation is not a failure; let the caller see the abort as-is
+            throw signal.reason;
+        }
         console.error("Error parsing resume:", error);
+        if (error instanceof ProviderRequestError) {
+            // Keep the status so the scheduler can tell rate limits from permanent failures
+            throw new ProviderRequestError(`AI processing failed: ${error.message}`, error.status);
+        }
         if (error instanceof Error) {
             throw new Error(`AI processing failed: ${error.message}`);
         }
@@ -264,40 +453,143 @@ export const parseResume = async (file: File, pages: number[] | undefined, onPro
     }
 };
 
-// --- Job Description Matching Service ---
+// --- Job Requirements Extraction ---
 
-const jobMatchSchema = {
-    type: Type.OBJECT,
+const requirementsSchema: JsonSchema = {
+    type: 'object',
     properties: {
-        matchScore: { type: Type.INTEGER, description: "A score from 0 to 100 indicating how well the candidate matches the job description." },
-        matchReason: { type: Type.STRING, description: "A detailed explanation highlighting specific strong matches (skills/experience) and specific missing critical requirements relative to the JD." }
+        mustHaveSkills: { type: 'array', items: { type: 'string' }, description: "Skills the JD states are required." },
+        niceToHaveSkills: { type: 'array', items: { type: 'string' }, description: "Skills the JD lists as preferred, a plus, or nice to have." },
+        minExperience: { type: 'number', description: "Minimum years of experience required, or 0 if not stated." },
+        maxExperience: { type: 'number', description: "Maximum years of experience, or 0 if not stated." },
+        locations: { type: 'array', items: { type: 'string' }, description: "Acceptable work locations. Empty if not stated or fully remote." },
+        qualifications: { type: 'array', items: { type: 'string' }, description: "Acceptable degrees, e.g. 'B.Tech', 'MCA'. Empty if not stated." },
+        ctcBudget: { type: 'string', description: "Maximum CTC or salary budget as written, e.g. '25 LPA'. Empty if not stated." }
     },
-    required: ["matchScore", "matchReason"]
+    required: ["mustHaveSkills", "niceToHaveSkills", "minExperience", "maxExperience", "locations", "qualifications", "ctcBudget"]
+};
+
+const asYears = (value: unknown): number | null => {
+    const years = Number(value);
+    return Number.isFinite(years) && years > 0 ? years : null;
 };
 
-export const analyzeCandidateMatch = async (candidate: Candidate, jobDescription: string): Promise<{ matchScore: number, matchReason: string }> => {
+/**
+ * Parses a job description into structured requirements the recruiter can review and
+ * edit before candidates are scored against them.
+ */
+export const extractJobRequirements = async (
+    jobDescription: string,
+    settings: ProviderSettings = loadProviderSettings(),
+    signal?: AbortSignal
+): Promise<JobRequirements> => {
+    const prompt = `
+        You are an expert technical recruiter. Read the job description below and extract its hiring requirements.
+        Strictly follow the JSON schema provided.
+
+        Instructions:
+        1. **Skills**: Use short canonical names (e.g., "React", "AWS", "Spring Boot"). Put a skill in "niceToHaveSkills" only if the JD marks it as optional or preferred.
+        2. **Experience**: Use years as numbers. For "5+ years" set minExperience 5 and maxExperience 0.
+        3. **General**: Only extract what the JD states. Use 0, "" or [] when something is not mentioned.
+
+        **Job Description:**
+        "${jobDescription}"
+    `;
+
     try {
-        // Prepare a lightweight version of the candidate object to save tokens
-        const candidateSummary = {
-            skills: candidate.skills,
-            totalExperience: candidate.totalExperience,
-            designation: candidate.designation,
-            currentCompany: candidate.currentCompany,
-            education: candidate.highestQualification,
-            location: candidate.currentLocation
+        const raw = await getProvider(settings.providerId).extractRequirements(
+            { model: settings.model, prompt, schema: requirementsSchema, jobDescription, signal },
+            settings
+        );
+        const minExperience = asYears(raw.minExperience);
+        const maxExperience = asYears(raw.maxExperience);
+        return {
+            mustHaveSkills: asTextList(raw.mustHaveSkills),
+            niceToHaveSkills: asTextList(raw.niceToHaveSkills),
+            minExperience,
+            // A maximum below the minimum is a misread; drop it rather than reject everyone
+            maxExperience: maxExperience !== null && minExperience !== null && maxExperience < minExperience ? null : maxExperience,
+            locations: asTextList(raw.locations),
+            qualifications: asTextList(raw.qualifications),
+            ctcBudget: asText(raw.ctcBudget),
         };
+    } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        console.error("Error extracting job requirements:", error);
+        throw error;
+    }
+};
+
+// --- Job Description Matching Service ---
+
+const jobMatchSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        results: {
+            type: 'array',
+            description: "One entry per candidate in the batch.",
+            items: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', description: "The candidate's id exactly as given." },
+                    matchScore: { type: 'integer', description: "A score from 0 to 100 indicating how well the candidate matches the job description." },
+                    matchReason: { type: 'string', description: "A detailed explanation highlighting specific strong matches (skills/experience) and specific missing critical requirements relative to the JD." }
+                },
+                required: ["id", "matchScore", "matchReason"]
+            }
+        }
+    },
+    required: ["results"]
+};
+
+// Bump whenever the match prompt or schema changes so cached results from the old prompt are not reused
+export const MATCH_PROMPT_VERSION = 3;
+
+// Candidates scored per request; larger batches save requests but risk truncated responses
+export const MATCH_BATCH_SIZE = 5;
+
+/** The trimmed-down candidate profile sent for matching, which is also what match results are cached on. */
+export const buildMatchProfile = (candidate: Candidate, skillIndex: SkillIndex): CandidateMatchProfile => ({
+    // Include skills implied by the taxonomy so "Spring Boot" also counts as Java
+    skills: expandSkills(candidate.skills ?? [], skillIndex),
+    totalExperience: candidate.totalExperience,
+    designation: candidate.designation,
+    currentCompany: candidate.currentCompany,
+    education: candidate.highestQualification,
+    location: candidate.currentLocation
+});
+
+/**
+ * Scores a batch of candidates against the job description in one request. The returned
+ * map only holds candidates the model answered for; callers treat any missing id as failed.
+ */
+export const analyzeCandidateMatches = async (
+    candidates: Candidate[],
+    jobDescription: string,
+    requirements: JobRequirements | undefined,
+    skillIndex: SkillIndex,
+    settings: ProviderSettings = loadProviderSettings(),
+    signal?: AbortSignal
+): Promise<Map<string, MatchResult>> => {
+    try {
+        // Prepare lightweight versions of the candidate objects to save tokens
+        const profiles: BatchMatchProfile[] = candidates.map(candidate => ({ id: candidate.id, ...buildMatchProfile(candidate, skillIndex) }));
 
         const prompt = `
             You are an expert AI Recruiter. 
-            Compare the following Candidate Profile against the provided Job Description.
+            Compare each of the following Candidate Profiles against the provided Job Description.
+            Judge every candidate on their own merits; do not rank them against each other.
             
-            **Candidate Profile:**
-            ${JSON.stringify(candidateSummary)}
+            **Candidate Profiles:**
+            ${JSON.stringify(profiles)}
 
             **Job Description:**
             "${jobDescription}"
-
-            **Task:**
+            ${requirements ? `
+            **Requirements confirmed by the recruiter** (these take precedence over the JD text):
+            ${JSON.stringify(requirements)}
+            ` : ''}
+            **Task:** For every candidate, return one entry in "results" with their "id" copied exactly, and:
             1. Calculate a match percentage score (0-100) based on skills, experience, and relevance.
             2. Provide a detailed match reason.
                - Explicitly list the **Strong Matches**: What key skills or experience does the candidate possess that align with the JD?
@@ -308,23 +600,200 @@ export const analyzeCandidateMatch = async (candidate: Candidate, jobDescription
             Return JSON.
         `;
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: { parts: [{ text: prompt }] },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: jobMatchSchema
-            }
+        const raw = await getProvider(settings.providerId).scoreMatches(
+            { model: settings.model, prompt, schema: jobMatchSchema, candidates: profiles, jobDescription, signal },
+            settings
+        );
+
+        const requestedIds = new Set(profiles.map(profile => profile.id));
+        const results = new Map<string, MatchResult>();
+        asRecords(raw.results).forEach(entry => {
+            const id = asText(entry.id);
+            const { matchScore } = entry;
+            // Ignore ids the model made up and entries without a usable score
+            if (!requestedIds.has(id) || typeof matchScore !== 'number' || !Number.isFinite(matchScore)) return;
+            results.set(id, {
+                matchScore: Math.round(Math.max(0, Math.min(100, matchScore))),
+                matchReason: asText(entry.matchReason),
+            });
         });
+        return results;
 
-        const result = JSON.parse(response.text || "{}");
+    } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        console.error("Error analyzing job match:", error);
+        throw error;
+    }
+};
+// --- Interview Kits ---
+
+const interviewKitSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        questions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    category: { type: 'string', enum: ['skill', 'gap'], description: "'skill' for questions probing a skill the candidate claims, 'gap' for questions probing a missing requirement." },
+                    topic: { type: 'string', description: "The skill or gap the question is about, e.g. 'React'." },
+                    question: { type: 'string', description: "The question to ask, phrased for the interviewer to read out." },
+                    expectedAnswer: { type: 'string', description: "Key points a strong answer covers, and warning signs of a weak one." }
+                },
+                required: ["category", "topic", "question", "expectedAnswer"]
+            }
+        }
+    },
+    required: ["questions"]
+};
+
+// Asked for per category; the model may return fewer when the candidate has few skills or gaps
+export const INTERVIEW_QUESTIONS_PER_CATEGORY = 5;
+
+/**
+ * Writes an interview kit for one candidate against a job description: technical questions
+ * on skills the resume claims that the role needs, and questions on the gaps found by the
+ * match analysis, each with notes on what a good answer covers.
+ */
+export const generateInterviewKit = async (
+    candidate: Candidate,
+    jobDescription: string,
+    requirements: JobRequirements | undefined,
+    gaps: string[],
+    skillIndex: SkillIndex,
+    settings: ProviderSettings = loadProviderSettings(),
+    signal?: AbortSignal
+): Promise<InterviewKit> => {
+    const profile = buildMatchProfile(candidate, skillIndex);
+    const prompt = `
+        You are an expert technical interviewer preparing for an interview.
+        Write interview questions for the candidate below, for the role in the job description.
+        Strictly follow the JSON schema provided.
+
+        **Candidate Profile:**
+        ${JSON.stringify(profile)}
+
+        **Job Description:**
+        "${jobDescription}"
+        ${requirements ? `
+        **Requirements confirmed by the recruiter:**
+        ${JSON.stringify(requirements)}
+        ` : ''}
+        **Gaps found when matching the candidate to the role:**
+        ${gaps.length > 0 ? gaps.map(gap => `- ${gap}`).join('\n        ') : 'None identified.'}
+
+        **Task:**
+        1. Up to ${INTERVIEW_QUESTIONS_PER_CATEGORY} "skill" questions that probe skills the candidate claims and the role needs. Ask for concrete experience and depth, not definitions.
+        2. Up to ${INTERVIEW_QUESTIONS_PER_CATEGORY} "gap" questions, one per gap above, that find out whether the candidate has adjacent experience or can close the gap quickly.
+        3. For every question, write "expectedAnswer" notes: the points a strong answer covers and what a weak answer sounds like.
+        Pitch the questions at the candidate's experience level (${profile.totalExperience} years).
+
+        Return JSON.
+    `;
+
+    try {
+        const raw = await getProvider(settings.providerId).generateInterviewKit(
+            { model: settings.model, prompt, schema: interviewKitSchema, candidate: profile, jobDescription, gaps, signal },
+            settings
+        );
+        const questions = asRecords(raw.questions)
+            .map(entry => createInterviewQuestion(
+                entry.category === 'gap' ? 'gap' : 'skill',
+                asText(entry.topic),
+                asText(entry.question),
+                asText(entry.expectedAnswer)
+            ))
+            .filter(question => question.question);
+        if (questions.length === 0) throw new Error("The AI model did not return any interview questions. Please try again.");
         return {
-            matchScore: result.matchScore,
-            matchReason: result.matchReason
+            questions,
+            generatedAt: new Date().toISOString(),
+            aiProvider: settings.providerId,
+            aiModel: settings.model,
         };
+    } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        console.error("Error generating interview kit:", error);
+        throw error;
+    }
+};
 
+// --- Outreach Personalization ---
+
+const outreachSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        notes: {
+            type: 'array',
+            description: "One entry per candidate in the batch.",
+            items: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', description: "The candidate's id exactly as given." },
+                    personalNote: { type: 'string', description: "One or two sentences addressed to the candidate about why their background fits the role." }
+                },
+                required: ["id", "personalNote"]
+            }
+        }
+    },
+    required: ["notes"]
+};
+
+/**
+ * Writes a short personal line per candidate for outreach emails, referring to the skills
+ * that match the role. Like match analysis, candidates are sent in batches and the map
+ * only holds those the model answered for.
+ */
+export const writeOutreachNotes = async (
+    candidates: Candidate[],
+    matchingSkills: Map<string, string[]>,
+    jobDescription: string,
+    skillIndex: SkillIndex,
+    settings: ProviderSettings = loadProviderSettings(),
+    signal?: AbortSignal
+): Promise<Map<string, string>> => {
+    const profiles: OutreachProfile[] = candidates.map(candidate => ({
+        id: candidate.id,
+        fullName: candidate.fullName,
+        ...buildMatchProfile(candidate, skillIndex),
+        matchingSkills: matchingSkills.get(candidate.id) ?? [],
+    }));
+
+    const prompt = `
+        You are a friendly, professional recruiter writing to candidates about an open role.
+        For each candidate below, write a personal note of one or two sentences that goes into an outreach email.
+
+        **Candidate Profiles:**
+        ${JSON.stringify(profiles)}
+
+        **Job Description:**
+        "${jobDescription}"
+
+        **Rules:**
+        1. Address the candidate as "you"; do not greet them or sign off, the email template does that.
+        2. Refer to their current role and to one to three of their "matchingSkills" that matter for the role.
+        3. Only mention facts from the profile. Never mention scores, gaps or other candidates.
+        4. Return one entry in "notes" per candidate with their "id" copied exactly.
+
+        Return JSON.
+    `;
+
+    try {
+        const raw = await getProvider(settings.providerId).personalizeOutreach(
+            { model: settings.model, prompt, schema: outreachSchema, candidates: profiles, jobDescription, signal },
+            settings
+        );
+        const requestedIds = new Set(profiles.map(profile => profile.id));
+        const notes = new Map<string, string>();
+        asRecords(raw.notes).forEach(entry => {
+            const id = asText(entry.id);
+            const personalNote = asText(entry.personalNote);
+            if (requestedIds.has(id) && personalNote) notes.set(id, personalNote);
+        });
+        return notes;
     } catch (error) {
-        console.error("Error analyzing job match:", error);
-        return { matchScore: 0, matchReason: "Failed to analyze match." };
+        if (signal?.aborted) throw signal.reason;
+        console.error("Error writing outreach notes:", error);
+        throw error;
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,165 @@
+import type { EducationEntry, EmploymentEntry } from '../types';
+
+/**
+ * Helpers for the structured employment and education history. Experience is computed
+ * from the dated roles, with overlapping roles counted once, instead of trusting the
+ * free-text total a resume (or the model) states.
+ */
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const PRESENT_PATTERN = /^(present|current|now|till date|to date|ongoing|today)$/i;
+
+// Gaps shorter than this between roles are normal job-change time, not worth flagging.
+const MIN_GAP_MONTHS = 3;
+
+interface MonthInterval {
+    start: number;
+    end: number;
+}
+
+const toMonthIndex = (date: Date) => date.getFullYear() * 12 + date.getMonth();
+
+/**
+ * Parses "2019-03", "03/2019", "Mar 2019", "March, 2019" or "2019" into a month index
+ * (year * 12 + zero-based month). A bare year means January for a start date and
+ * December for an end date.
+ */
+const parseHistoryDate = (value: string, isEnd: boolean, now: Date): number | null => {
+    const text = (value || '').trim().toLowerCase();
+    if (!text) return null;
+    if (PRESENT_PATTERN.test(text)) return isEnd ? toMonthIndex(now) : null;
+
+    let match = text.match(/^(\d{4})[-/.](\d{1,2})$/);
+    if (match) return Number(match[1]) * 12 + Number(match[2]) - 1;
+
+    match = text.match(/^(\d{1,2})[-/.](\d{4})$/);
+    if (match) return Number(match[2]) * 12 + Number(match[1]) - 1;
+
+    match = text.match(/^([a-z]{3,})\.?,?\s*'?(\d{2}|\d{4})$/);
+    if (match) {
+        const month = MONTH_NAMES.indexOf(match[1].slice(0, 3));
+        const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+        if (month >= 0) return year * 12 + month;
+    }
+
+    match = text.match(/^(\d{4})$/);
+    if (match) {
+        const yearEnd = Number(match[1]) * 12 + 11;
+        return isEnd ? Math.min(yearEnd, toMonthIndex(now)) : Number(match[1]) * 12;
+    }
+
+    return null;
+};
+
+const getRoleInterval = (entry: EmploymentEntry, now: Date): MonthInterval | null => {
+    const start = parseHistoryDate(entry.startDate, false, now);
+    const end = parseHistoryDate(entry.endDate, true, now);
+    if (start === null || end === null || end < start) return null;
+    return { start, end };
+};
+
+const mergeIntervals = (intervals: MonthInterval[]): MonthInterval[] => {
+    const sorted = [...intervals].sort((a, b) => a.start - b.start);
+    const merged: MonthInterval[] = [];
+    sorted.forEach(interval => {
+        const last = merged[merged.length - 1];
+        if (last && interval.start <= last.end + 1) {
+            last.end = Math.max(last.end, interval.end);
+        } else {
+            merged.push({ ...interval });
+        }
+    });
+    return merged;
+};
+
+/**
+ * Total experience in years (one decimal) from the dated roles, or null when no
+ * role has usable dates so the caller can fall back to the stated figure.
+ */
+export const computeExperienceFromHistory = (history: EmploymentEntry[] | undefined, now: Date = new Date()): number | null => {
+    const intervals = (history ?? [])
+        .map(entry => getRoleInterval(entry, now))
+        .filter((interval): interval is MonthInterval => interval !== null);
+    if (intervals.length === 0) return null;
+
+    // Both ends are inclusive: Jan-Dec of the same year is 12 months
+    const months = mergeIntervals(intervals).reduce((sum, interval) => sum + interval.end - interval.start + 1, 0);
+    return Math.round((months / 12) * 10) / 10;
+};
+
+/** Unemployed stretches between roles, most recent first, as month-index intervals. */
+export const findEmploymentGaps = (history: EmploymentEntry[] | undefined, now: Date = new Date()) => {
+    const merged = mergeIntervals(
+        (history ?? [])
+            .map(entry => getRoleInterval(entry, now))
+            .filter((interval): interval is MonthInterval => interval !== null)
+    );
+    const gaps: (MonthInterval & { months: number })[] = [];
+    for (let i = 1; i < merged.length; i++) {
+        const start = merged[i - 1].end + 1;
+        const end = merged[i].start - 1;
+        const months = end - start + 1;
+        if (months >= MIN_GAP_MONTHS) gaps.push({ start, end, months });
+    }
+    return gaps.reverse();
+};
+
+/** Roles ordered most recent first; undated roles keep their relative order at the end. */
+export const sortEmploymentHistory = (history: EmploymentEntry[] | undefined, now: Date = new Date()): EmploymentEntry[] => {
+    const endOf = (entry: EmploymentEntry) => parseHistoryDate(entry.endDate, true, now) ?? parseHistoryDate(entry.startDate, false, now) ?? -1;
+    return [...(history ?? [])].sort((a, b) => endOf(b) - endOf(a));
+};
+
+export const formatDuration = (months: number): string => {
+    const years = Math.floor(months / 12);
+    const rest = months % 12;
+    const parts: string[] = [];
+    if (years > 0) parts.push(`${years} yr${years === 1 ? '' : 's'}`);
+    if (rest > 0) parts.push(`${rest} mo${rest === 1 ? '' : 's'}`);
+    return parts.join(' ') || '< 1 mo';
+};
+
+export const formatMonthIndex = (monthIndex: number): string => {
+    const month = MONTH_NAMES[monthIndex % 12];
+    return `${month.charAt(0).toUpperCase()}${month.slice(1)} ${Math.floor(monthIndex / 12)}`;
+};
+
+/** e.g. "Jul 2017 – Mar 2021 (3 yrs 9 mos)"; falls back to the raw dates when they can't be parsed. */
+export const formatRolePeriod = (entry: EmploymentEntry, now: Date = new Date()): string => {
+    const interval = getRoleInterval(entry, now);
+    if (!interval) {
+        return [entry.startDate, entry.endDate].filter(Boolean).join(' – ');
+    }
+    const end = PRESENT_PATTERN.test((entry.endDate || '').trim()) ? 'Present' : formatMonthIndex(interval.end);
+    return `${formatMonthIndex(interval.start)} – ${end} (${formatDuration(interval.end - interval.start + 1)})`;
+};
+
+/**
+ * Spreads the history over numbered columns ("Job 1 Company", "Education 1 Degree", ...)
+ * for spreadsheet export. Every row gets the same keys so the sheet lines up.
+ */
+export const flattenHistoryForExport = (
+    employmentHistory: EmploymentEntry[] | undefined,
+    educationHistory: EducationEntry[] | undefined,
+    maxJobs: number,
+    maxEducation: number
+): Record<string, string> => {
+    const row: Record<string, string> = {};
+    const jobs = sortEmploymentHistory(employmentHistory);
+    for (let i = 0; i < maxJobs; i++) {
+        const job = jobs[i];
+        row[`Job ${i + 1} Company`] = job?.company ?? '';
+        row[`Job ${i + 1} Title`] = job?.title ?? '';
+        row[`Job ${i + 1} Period`] = job ? formatRolePeriod(job) : '';
+        row[`Job ${i + 1} Location`] = job?.location ?? '';
+    }
+    const education = educationHistory ?? [];
+    for (let i = 0; i < maxEducation; i++) {
+        const entry = education[i];
+        row[`Education ${i + 1} Degree`] = entry?.degree ?? '';
+        row[`Education ${i + 1} Field`] = entry?.field ?? '';
+        row[`Education ${i + 1} Institution`] = entry?.institution ?? '';
+        row[`Education ${i + 1} Year`] = entry?.year ?? '';
+    }
+    return row;
+};
@@ -0,0 +1,102 @@
+import type { Candidate, InterviewKit, InterviewQuestion, InterviewQuestionCategory } from '../types';
+import type { RequirementCheck } from './requirementsService';
+import { escapeHtml, newId } from './textUtils';
+
+/**
+ * Interview kits: questions generated per candidate and requisition, stored on the
+ * candidate in `interviewKits` so recruiters can edit them and export one document per
+ * candidate.
+ */
+
+export const INTERVIEW_CATEGORY_LABELS: Record<InterviewQuestionCategory, string> = {
+    skill: 'Claimed skills',
+    gap: 'Identified gaps',
+};
+
+export const createInterviewQuestion = (
+    category: InterviewQuestionCategory,
+    topic = '',
+    question = '',
+    expectedAnswer = ''
+): InterviewQuestion => ({ id: newId(), category, topic, question, expectedAnswer });
+
+/**
+ * What the candidate is missing for the role: skills backticked in the Gaps/Missing part of
+ * the match reason, plus required skills the requirement checks could not find.
+ */
+export const getInterviewGaps = (matchReason: string | undefined, checks: RequirementCheck[] | undefined): string[] => {
+    const gaps: string[] = [];
+    const add = (gap: string) => {
+        if (gap.trim() && !gaps.some(existing => existing.toLowerCase() === gap.trim().toLowerCase())) gaps.push(gap.trim());
+    };
+    const gapsStart = (matchReason ?? '').search(/gaps|missing/i);
+    if (gapsStart >= 0) {
+        Array.from(matchReason!.slice(gapsStart).matchAll(/`([^`]+)`/g), match => match[1]).forEach(add);
+    }
+    (checks ?? [])
+        .filter(check => check.id.startsWith('skill:') && check.status !== 'pass')
+        .forEach(check => add(check.label));
+    return gaps;
+};
+
+export const getInterviewKit = (candidate: Candidate, requisitionId: string): InterviewKit | undefined =>
+    candidate.interviewKits?.[requisitionId];
+
+/** Stores a kit for the requisition, replacing any earlier one. */
+export const setInterviewKit = (candidate: Candidate, requisitionId: string, kit: InterviewKit): Candidate => ({
+    ...candidate,
+    interviewKits: { ...candidate.interviewKits, [requisitionId]: kit },
+});
+
+/** Removes a deleted requisition's kit from a candidate. */
+export const removeRequisitionKit = (candidate: Candidate, requisitionId: string): Candidate => {
+    if (!candidate.interviewKits?.[requisitionId]) return candidate;
+    const { [requisitionId]: removed, ...interviewKits } = candidate.interviewKits;
+    return { ...candidate, interviewKits };
+};
+
+const paragraphs = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+
+/**
+ * The kit as a standalone HTML document. It prints from the browser and opens in Word
+ * when saved with a .doc extension.
+ */
+export const buildInterviewKitHtml = (candidate: Candidate, kit: InterviewKit, requisitionTitle: string): string => {
+    const name = candidate.fullName || candidate.fileName;
+    const sections = (Object.keys(INTERVIEW_CATEGORY_LABELS) as InterviewQuestionCategory[]).map(category => {
+        const questions = kit.questions.filter(question => question.category === category);
+        if (questions.length === 0) return '';
+        const items = questions.map(question => `
+<li>
+  ${question.topic ? `<p class="topic">${escapeHtml(question.topic)}</p>` : ''}
+  <p class="question">${paragraphs(question.question)}</p>
+  ${question.expectedAnswer ? `<p class="answer"><b>Look for:</b> ${paragraphs(question.expectedAnswer)}</p>` : ''}
+  <p class="notes">Notes:</p>
+</li>`).join('');
+        return `<h2>${escapeHtml(INTERVIEW_CATEGORY_LABELS[category])}</h2>\n<ol>${items}\n</ol>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Interview kit: ${escapeHtml(name)}</title>
+<style>
+  body { font-family: Calibri, system-ui, sans-serif; font-size: 11pt; color: #0f172a; margin: 24px; }
+  h1 { font-size: 18pt; margin: 0 0 4px; }
+  h2 { font-size: 13pt; margin: 20px 0 8px; border-bottom: 1px solid #e2e8f0; }
+  .meta { color: #64748b; margin: 0 0 4px; }
+  li { margin-bottom: 14px; }
+  .topic { font-size: 9pt; text-transform: uppercase; letter-spacing: .05em; color: #4f46e5; margin: 0; }
+  .question { font-weight: 600; margin: 2px 0; }
+  .answer { color: #334155; margin: 2px 0; }
+  .notes { color: #94a3b8; margin: 6px 0 0; min-height: 48px; }
+</style></head>
+<body>
+<h1>Interview kit: ${escapeHtml(name)}</h1>
+<p class="meta">${escapeHtml(requisitionTitle)}${candidate.designation ? ` · Currently ${escapeHtml(candidate.designation)}${candidate.currentCompany ? ` at ${escapeHtml(candidate.currentCompany)}` : ''}` : ''}</p>
+<p class="meta">Generated ${escapeHtml(new Date(kit.generatedAt).toLocaleString())}${kit.editedAt ? `, edited ${escapeHtml(new Date(kit.editedAt).toLocaleString())}` : ''}</p>
+${sections}
+</body></html>`;
+};
+
+/** File name for the exported document, e.g. "Interview Kit - Priya Sharma.doc". */
+export const getInterviewKitFileName = (candidate: Candidate): string =>
+    `Interview Kit - ${(candidate.fullName || candidate.fileName).replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim()}.doc`;
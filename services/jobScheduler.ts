@@ -0,0 +1,234 @@
+import { ProviderRequestError } from './aiProvider';
+
+/**
+ * A small in-browser job scheduler shared by resume parsing and job matching, so both
+ * respect the same concurrency limit, per-minute request cap and retry policy.
+ */
+
+export interface SchedulerOptions {
+    /** Maximum number of jobs running at the same time. */
+    concurrency: number;
+    /** Maximum number of job starts (including retries) in any rolling 60 second window. */
+    requestsPerMinute: number;
+    /** How many times a job is retried after a rate-limit or server error. */
+    maxRetries: number;
+    /** Delay before the first retry; doubles with every further attempt. */
+    baseDelayMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+    concurrency: 3,
+    requestsPerMinute: 15,
+    maxRetries: 5,
+    baseDelayMs: 2000,
+};
+
+const MAX_BACKOFF_MS = 60_000;
+const RATE_WINDOW_MS = 60_000;
+const OPTIONS_STORAGE_KEY = 'schedulerOptions';
+
+export interface JobOptions {
+    /** Aborting removes a waiting job from the queue and stops a running job from being retried. */
+    signal?: AbortSignal;
+    /** Called when a failed attempt is going to be retried after `delayMs`. */
+    onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export interface JobScheduler {
+    /**
+     * Queues `run` and resolves with its result once it has run successfully, or rejects with
+     * the last error once retries are exhausted. `key` identifies the job in queue snapshots.
+     */
+    schedule<T>(key: string, run: () => Promise<T>, jobOptions?: JobOptions): Promise<T>;
+    setOptions(options: SchedulerOptions): void;
+    /** Stops new jobs from starting. Jobs already running are left to finish. */
+    pause(): void;
+    resume(): void;
+    /** Subscribes to the ordered list of keys still waiting to start. Returns an unsubscribe function. */
+    subscribe(listener: (pendingKeys: string[]) => void): () => void;
+}
+
+interface QueuedJob {
+    key: string;
+    run: () => Promise<unknown>;
+    jobOptions: JobOptions;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+    attempt: number;
+    notBefore: number;
+}
+
+const getErrorStatus = (error: unknown): number | undefined => {
+    if (error instanceof ProviderRequestError) return error.status;
+    if (typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number') {
+        return error.status;
+    }
+    return undefined;
+};
+
+const createAbortError = () => new DOMException('The operation was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => {
+    return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+};
+
+export const isRateLimitError = (error: unknown): boolean => {
+    if (getErrorStatus(error) === 429) return true;
+    const message = error instanceof Error ? error.message : String(error);
+    return /\b429\b|RESOURCE_EXHAUSTED|rate limit/i.test(message);
+};
+
+/**
+ * Rate limits and 5xx responses are worth retrying; anything else (bad request, invalid
+ * JSON, unsupported file) would fail the same way again.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+    if (isAbortError(error)) return false;
+    if (isRateLimitError(error)) return true;
+    const status = getErrorStatus(error);
+    if (status !== undefined) return status >= 500;
+    const message = error instanceof Error ? error.message : String(error);
+    return /\b50[0234]\b|UNAVAILABLE|overloaded/i.test(message);
+};
+
+export const loadSchedulerOptions = (): SchedulerOptions => {
+    if (typeof window === 'undefined' || !window.localStorage) return DEFAULT_SCHEDULER_OPTIONS;
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(OPTIONS_STORAGE_KEY) || 'null');
+        return stored ? { ...DEFAULT_SCHEDULER_OPTIONS, ...stored } : DEFAULT_SCHEDULER_OPTIONS;
+    } catch {
+        return DEFAULT_SCHEDULER_OPTIONS;
+    }
+};
+
+export const saveSchedulerOptions = (options: SchedulerOptions) => {
+    window.localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+};
+
+export const createJobScheduler = (initialOptions: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS): JobScheduler => {
+    let options = initialOptions;
+    const queue: QueuedJob[] = [];
+    const recentStarts: number[] = [];
+    const listeners = new Set<(pendingKeys: string[]) => void>();
+    let running = 0;
+    let paused = false;
+    // Set after a rate-limit response so no job starts until the backend has had time to recover.
+    let cooldownUntil = 0;
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const notify = () => {
+        const pendingKeys = queue.map(job => job.key);
+        listeners.forEach(listener => listener(pendingKeys));
+    };
+
+    const wakeAt = (time: number) => {
+        if (wakeTimer) clearTimeout(wakeTimer);
+        wakeTimer = setTimeout(() => {
+            wakeTimer = null;
+            pump();
+        }, Math.max(0, time - Date.now()));
+    };
+
+    const start = (job: QueuedJob) => {
+        running++;
+        recentStarts.push(Date.now());
+        job.run()
+            .then(job.resolve)
+            .catch(error => {
+                if (!job.jobOptions.signal?.aborted && job.attempt < options.maxRetries && isRetryableError(error)) {
+                    job.attempt++;
+                    const jitter = Math.random() * options.baseDelayMs * 0.5;
+                    const delayMs = Math.min(MAX_BACKOFF_MS, options.baseDelayMs * 2 ** (job.attempt - 1) + jitter);
+                    job.notBefore = Date.now() + delayMs;
+                    if (isRateLimitError(error)) {
+                        cooldownUntil = Math.max(cooldownUntil, job.notBefore);
+                    }
+                    job.jobOptions.onRetry?.(job.attempt, delayMs, error);
+                    // Retries go back to the front so they don't lose their place in line
+                    queue.unshift(job);
+                    notify();
+                } else {
+                    job.reject(error);
+                }
+            })
+            .finally(() => {
+                running--;
+                pump();
+            });
+    };
+
+    const pump = () => {
+        if (paused) return;
+        const now = Date.now();
+        while (recentStarts.length > 0 && recentStarts[0] <= now - RATE_WINDOW_MS) {
+            recentStarts.shift();
+        }
+
+        let started = false;
+        while (running < options.concurrency && queue.length > 0) {
+            if (now < cooldownUntil) {
+                wakeAt(cooldownUntil);
+                break;
+            }
+            if (recentStarts.length >= options.requestsPerMinute) {
+                wakeAt(recentStarts[0] + RATE_WINDOW_MS);
+                break;
+            }
+            const index = queue.findIndex(job => job.notBefore <= now);
+            if (index === -1) {
+                wakeAt(Math.min(...queue.map(job => job.notBefore)));
+                break;
+            }
+            const [job] = queue.splice(index, 1);
+            start(job);
+            started = true;
+        }
+        if (started) notify();
+    };
+
+    return {
+        schedule<T>(key: string, run: () => Promise<T>, jobOptions: JobOptions = {}): Promise<T> {
+            return new Promise<T>((resolve, reject) => {
+                const { signal } = jobOptions;
+                if (signal?.aborted) {
+                    reject(createAbortError());
+                    return;
+                }
+                // The queue holds jobs of every result type; `value` is what this job's `run` returned
+                const job: QueuedJob = { key, run, jobOptions, resolve: value => resolve(value as T), reject, attempt: 0, notBefore: 0 };
+                signal?.addEventListener('abort', () => {
+                    // Only waiting jobs are removed here; a running job sees the same signal itself
+                    const index = queue.indexOf(job);
+                    if (index !== -1) {
+                        queue.splice(index, 1);
+                        reject(createAbortError());
+                        notify();
+                    }
+                }, { once: true });
+                queue.push(job);
+                notify();
+                pump();
+            });
+        },
+
+        setOptions(nextOptions: SchedulerOptions) {
+            options = nextOptions;
+            pump();
+        },
+
+        pause() {
+            paused = true;
+        },
+
+        resume() {
+            paused = false;
+            pump();
+        },
+
+        subscribe(listener: (pendingKeys: string[]) => void) {
+            listeners.add(listener);
+            listener(queue.map(job => job.key));
+            return () => { listeners.delete(listener); };
+        },
+    };
+};
@@ -0,0 +1,81 @@
+import type { Candidate, JobRequirements } from '../types';
+import type { MatchResult, ProviderSettings } from './aiProvider';
+import { MATCH_PROMPT_VERSION, buildMatchProfile } from './geminiService';
+import type { SkillIndex } from './skillTaxonomyService';
+import { deleteCachedMatches, getAllCachedMatches, getCachedMatch, saveCachedMatch } from './storageService';
+
+/**
+ * Persistent cache of match analyses. Results are keyed on a fingerprint of exactly what
+ * the model sees — the candidate profile, job description, requirements, prompt version,
+ * model and (for OpenAI-compatible servers) base URL — so editing a candidate or the JD,
+ * or switching models or servers, misses the cache while re-running an unchanged
+ * analysis costs no requests.
+ */
+
+interface CachedMatch extends MatchResult {
+    cachedAt: string; // ISO timestamp
+}
+
+// Every edit, JD change or model switch adds entries that are never read again
+const MAX_CACHED_MATCHES = 2000;
+const MAX_CACHE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const hashText = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getMatchCacheKey = (
+    candidate: Candidate,
+    jobDescription: string,
+    requirements: JobRequirements | undefined,
+    skillIndex: SkillIndex,
+    settings: ProviderSettings
+): Promise<string> => hashText(JSON.stringify([
+    MATCH_PROMPT_VERSION,
+    settings.providerId,
+    settings.model,
+    // The same model name on two OpenAI-compatible servers can be two different models
+    settings.providerId === 'openai-compatible' ? settings.baseUrl.trim() : null,
+    buildMatchProfile(candidate, skillIndex),
+    jobDescription.trim(),
+    requirements ?? null,
+]));
+
+/** The cached result for this key, or undefined. A storage failure is treated as a miss. */
+export const loadCachedMatch = async (key: string): Promise<MatchResult | undefined> => {
+    try {
+        const cached = await getCachedMatch<CachedMatch>(key);
+        return cached ? { matchScore: cached.matchScore, matchReason: cached.matchReason } : undefined;
+    } catch (error) {
+        console.error("Failed to read the match cache:", error);
+        return undefined;
+    }
+};
+
+export const storeCachedMatch = async (key: string, result: MatchResult): Promise<void> => {
+    try {
+        const entry: CachedMatch = { matchScore: result.matchScore, matchReason: result.matchReason, cachedAt: new Date().toISOString() };
+        await saveCachedMatch(key, entry);
+    } catch (error) {
+        // The result is still used; it will just be requested again next time
+        console.error("Failed to write the match cache:", error);
+    }
+};
+
+/**
+ * Drops entries older than 30 days, then the oldest ones beyond the size cap. Failures are
+ * only logged; an oversized cache costs storage, not correctness.
+ */
+export const pruneMatchCache = async (now: Date = new Date()): Promise<void> => {
+    try {
+        const entries = await getAllCachedMatches<CachedMatch>();
+        const cachedAt = (entry: { value: CachedMatch }) => Date.parse(entry.value?.cachedAt) || 0;
+        const newestFirst = [...entries].sort((a, b) => cachedAt(b) - cachedAt(a));
+        const stale = newestFirst.filter((entry, index) =>
+            index >= MAX_CACHED_MATCHES || now.getTime() - cachedAt(entry) > MAX_CACHE_AGE_MS);
+        await deleteCachedMatches(stale.map(entry => entry.key));
+    } catch (error) {
+        console.error("Failed to prune the match cache:", error);
+    }
+};
@@ -0,0 +1,151 @@
+import type { NoticePeriod } from '../types';
+
+/**
+ * Turns free-text notice periods ("Immediate Joiner", "2 months", "serving notice, LWD 15 Nov")
+ * into a number of days plus an optional last working day, so candidates can be sorted by
+ * availability and filtered by "can join within N days of a date".
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_UNIT: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+const NUMBER_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, a: 1, an: 1,
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const IMMEDIATE_PATTERN = /\bimmediate(ly)?\b|\bimmediate joiner\b|\bno notice\b|\bavailable now\b|^\s*0\s*(days?)?\s*$/i;
+const SERVING_PATTERN = /\bserving\b|\bon notice\b|\bresigned\b|\bnotice period running\b/i;
+const LWD_PATTERN = /\b(lwd|last working day|last day|relieving date|available from)\b[:\s-]*/i;
+// "30 days", "2 months", "two months", "4-6 weeks", "60+ days"
+const DURATION_PATTERN = /\b(\d+(?:\.\d+)?|one|two|three|four|five|six|an?)(?:\s*(?:-|to)\s*(\d+(?:\.\d+)?))?\s*\+?\s*(day|week|month)s?\b/i;
+
+const toIsoDate = (date: Date) => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Parses the date following an LWD marker: "2025-11-15", "15/11/2025", "15 Nov", "Nov 15th, 2025".
+ * A date without a year is taken as its next occurrence on or after `referenceDate`.
+ */
+const parseLastWorkingDay = (text: string, referenceDate: Date): string | undefined => {
+    const marker = text.match(LWD_PATTERN);
+    if (!marker || marker.index === undefined) return undefined;
+    const rest = text.slice(marker.index + marker[0].length).trim().toLowerCase();
+
+    let year: number | undefined;
+    let month: number | undefined;
+    let day: number | undefined;
+
+    let match = rest.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (match) {
+        [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+    } else if ((match = rest.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?/))) {
+        [day, month] = [Number(match[1]), Number(match[2]) - 1];
+        if (match[3]) year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    } else if ((match = rest.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,})\.?,?(?:\s+(\d{4}))?/))) {
+        [day, month] = [Number(match[1]), MONTH_NAMES.indexOf(match[2].slice(0, 3))];
+        if (match[3]) year = Number(match[3]);
+    } else if ((match = rest.match(/^([a-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?(?:\s+(\d{4}))?/))) {
+        [month, day] = [MONTH_NAMES.indexOf(match[1].slice(0, 3)), Number(match[2])];
+        if (match[3]) year = Number(match[3]);
+    }
+
+    if (month === undefined || day === undefined || month < 0 || month > 11 || day < 1 || day > 31) return undefined;
+
+    const reference = startOfDay(referenceDate);
+    if (year === undefined) {
+        year = reference.getFullYear();
+        if (new Date(year, month, day) < reference) year++;
+    }
+    return toIsoDate(new Date(year, month, day));
+};
+
+/**
+ * Normalizes a notice period. `referenceDate` resolves LWDs written without a year and
+ * should be the date the resume was parsed or edited.
+ */
+export const parseNoticePeriod = (text: string, referenceDate: Date = new Date()): NoticePeriod => {
+    const raw = (text || '').trim();
+    const notice: NoticePeriod = {
+        days: null,
+        isServingNotice: SERVING_PATTERN.test(raw),
+    };
+
+    const lastWorkingDay = parseLastWorkingDay(raw, referenceDate);
+    if (lastWorkingDay) {
+        notice.lastWorkingDay = lastWorkingDay;
+        // A stated last working day means the notice has already been given
+        notice.isServingNotice = true;
+    }
+
+    if (IMMEDIATE_PATTERN.test(raw)) {
+        notice.days = 0;
+        return notice;
+    }
+
+    const duration = raw.match(DURATION_PATTERN);
+    if (duration) {
+        // For ranges like "30-60 days" plan for the longer end
+        const value = duration[2] !== undefined
+            ? Number(duration[2])
+            : NUMBER_WORDS[duration[1].toLowerCase()] ?? Number(duration[1]);
+        notice.days = Math.round(value * DAYS_PER_UNIT[duration[3].toLowerCase()]);
+    } else if (/^\d+$/.test(raw)) {
+        // A bare number is almost always days
+        notice.days = Number(raw);
+    }
+
+    if (notice.days === null && notice.lastWorkingDay) {
+        notice.days = Math.max(0, Math.round((new Date(notice.lastWorkingDay).getTime() - startOfDay(referenceDate).getTime()) / DAY_MS));
+    }
+
+    return notice;
+};
+
+/**
+ * Earliest date the candidate could join: the day after their last working day when known,
+ * otherwise `today` plus the notice period. Null when the notice period is unknown.
+ */
+export const getEarliestJoiningDate = (notice: NoticePeriod | undefined, today: Date = new Date()): Date | null => {
+    if (!notice) return null;
+    if (notice.lastWorkingDay) {
+        const lastDay = new Date(`${notice.lastWorkingDay}T00:00:00`);
+        return new Date(lastDay.getTime() + DAY_MS);
+    }
+    if (notice.days === null) return null;
+    return new Date(startOfDay(today).getTime() + notice.days * DAY_MS);
+};
+
+/** Days from `today` until the candidate could join; null when unknown. Used for sorting. */
+export const getDaysUntilAvailable = (notice: NoticePeriod | undefined, today: Date = new Date()): number | null => {
+    const joiningDate = getEarliestJoiningDate(notice, today);
+    if (!joiningDate) return null;
+    return Math.max(0, Math.round((joiningDate.getTime() - startOfDay(today).getTime()) / DAY_MS));
+};
+
+/**
+ * Whether the candidate can join within `withinDays` of `targetDate`. Unknown notice periods
+ * never match so the filter doesn't promise availability it can't back up.
+ */
+export const canJoinWithin = (notice: NoticePeriod | undefined, withinDays: number, targetDate: Date, today: Date = new Date()): boolean => {
+    const joiningDate = getEarliestJoiningDate(notice, today);
+    if (!joiningDate) return false;
+    return joiningDate.getTime() <= startOfDay(targetDate).getTime() + withinDays * DAY_MS;
+};
+
+/** Short label like "60 days", "Immediate" or "LWD 15 Nov 2025". */
+export const formatNoticePeriod = (notice: NoticePeriod | undefined): string => {
+    if (!notice) return '';
+    if (notice.lastWorkingDay) {
+        const date = new Date(`${notice.lastWorkingDay}T00:00:00`);
+        return `LWD ${date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+    }
+    if (notice.days === null) return '';
+    return notice.days === 0 ? 'Immediate' : `${notice.days} days`;
+};
@@ -0,0 +1,188 @@
+import type { Candidate, EmailTemplate, JobRequisition } from '../types';
+import { evaluateSkills } from './requirementsService';
+import type { SkillIndex } from './skillTaxonomyService';
+import { expandSkills } from './skillTaxonomyService';
+import { newId } from './textUtils';
+
+/**
+ * Outreach email drafting. Templates hold {{mergeField}} placeholders filled from the
+ * candidate and the active requisition; drafts are handed to the recruiter's own mail app
+ * as .eml files or mailto: links, so nothing is sent from here.
+ */
+
+const TEMPLATES_STORAGE_KEY = 'emailTemplates';
+
+export type MergeFieldKey =
+    | 'firstName' | 'fullName' | 'designation' | 'currentCompany' | 'currentLocation'
+    | 'totalExperience' | 'matchingSkills' | 'jobTitle' | 'personalNote';
+
+export const MERGE_FIELDS: { key: MergeFieldKey; label: string }[] = [
+    { key: 'firstName', label: 'First name' },
+    { key: 'fullName', label: 'Full name' },
+    { key: 'designation', label: 'Designation' },
+    { key: 'currentCompany', label: 'Current company' },
+    { key: 'currentLocation', label: 'Location' },
+    { key: 'totalExperience', label: 'Years of experience' },
+    { key: 'matchingSkills', label: 'Matching skills' },
+    { key: 'jobTitle', label: 'Job title' },
+    { key: 'personalNote', label: 'AI personal note' },
+];
+
+export type MergeValues = Record<MergeFieldKey, string>;
+
+export interface EmailDraft {
+    candidateId: string;
+    to: string;
+    subject: string;
+    body: string;
+}
+
+export const createEmailTemplate = (name: string, subject = '', body = ''): EmailTemplate => ({
+    id: newId(),
+    name: name.trim() || 'Untitled template',
+    subject,
+    body,
+});
+
+export const DEFAULT_EMAIL_TEMPLATES: EmailTemplate[] = [
+    {
+        id: 'initial-outreach',
+        name: 'Initial outreach',
+        subject: '{{jobTitle}} opportunity for {{firstName}}',
+        body: `Hi {{firstName}},
+
+I came across your profile and your experience as {{designation}} at {{currentCompany}} caught my attention. {{personalNote}}
+
+We're hiring for a {{jobTitle}} role, and your background in {{matchingSkills}} lines up well with what the team needs.
+
+Would you be open to a short call this week to talk about it?
+
+Best regards,`,
+    },
+    {
+        id: 'interview-invite',
+        name: 'Interview invitation',
+        subject: 'Interview for {{jobTitle}}',
+        body: `Hi {{firstName}},
+
+Thank you for your interest in the {{jobTitle}} role. We'd like to invite you to an interview to discuss your experience with {{matchingSkills}} in more detail.
+
+Please reply with a few times that suit you over the next week.
+
+Best regards,`,
+    },
+];
+
+/**
+ * Skills of the candidate that the role asks for: required and preferred skills the
+ * candidate has when the requisition has requirements, otherwise the candidate's skills
+ * that the job description mentions.
+ */
+export const getMatchingSkills = (candidate: Candidate, requisition: JobRequisition | undefined, skillIndex: SkillIndex): string[] => {
+    const requirements = requisition?.requirements;
+    const requiredSkills = requirements ? [...requirements.mustHaveSkills, ...requirements.niceToHaveSkills] : [];
+    if (requiredSkills.length > 0) {
+        return evaluateSkills(candidate, requiredSkills, skillIndex)
+            .filter(check => check.status === 'pass')
+            .map(check => check.label);
+    }
+    const jobDescription = (requisition?.jobDescription ?? '').toLowerCase();
+    if (!jobDescription) return [];
+    return expandSkills(candidate.skills ?? [], skillIndex).filter(skill => jobDescription.includes(skill.toLowerCase()));
+};
+
+/** "React, Node.js and AWS" */
+const formatList = (items: string[]) =>
+    items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+export const buildMergeValues = (
+    candidate: Candidate,
+    requisition: JobRequisition | undefined,
+    matchingSkills: string[],
+    personalNote = ''
+): MergeValues => ({
+    firstName: candidate.fullName.trim().split(/\s+/)[0] ?? '',
+    fullName: candidate.fullName.trim(),
+    designation: candidate.designation,
+    currentCompany: candidate.currentCompany,
+    currentLocation: candidate.currentLocation,
+    totalExperience: candidate.totalExperience ? String(candidate.totalExperience) : '',
+    // Up to four keeps the sentence readable
+    matchingSkills: formatList(matchingSkills.slice(0, 4)),
+    jobTitle: requisition?.title ?? '',
+    personalNote,
+});
+
+/**
+ * Fills {{field}} placeholders. Unknown fields are left as written so a typo shows up in
+ * the draft; empty values collapse the space and blank lines they would leave behind.
+ */
+export const renderTemplate = (text: string, values: MergeValues): string => text
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+        key in values ? values[key as MergeFieldKey] : placeholder)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/ {2,}/g, ' ')
+    .trim();
+
+export const buildEmailDraft = (template: EmailTemplate, candidate: Candidate, values: MergeValues): EmailDraft => ({
+    candidateId: candidate.id,
+    to: candidate.email.trim(),
+    subject: renderTemplate(template.subject, values),
+    body: renderTemplate(template.body, values),
+});
+
+/**
+ * Merge fields a template uses that have no value for this candidate, e.g. a missing
+ * company. The personal note is optional, so drafts without one are not flagged.
+ */
+export const getMissingMergeFields = (template: EmailTemplate, values: MergeValues): MergeFieldKey[] => {
+    const used = Array.from(`${template.subject}\n${template.body}`.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+    return MERGE_FIELDS
+        .map(field => field.key)
+        .filter(key => key !== 'personalNote' && used.includes(key) && !values[key]);
+};
+
+// RFC 2047 encoded-word, so non-ASCII subjects survive every mail client
+// A line break in a header value would start a new header, so values are kept on one line
+const toHeaderLine = (text: string) => text.replace(/[\r\n]+/g, ' ').trim();
+
+const encodeHeader = (text: string) => /^[\x20-\x7e]*$/.test(text)
+    ? text
+    : `=?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode(text)))}?=`;
+
+/**
+ * The draft as an .eml message. `X-Unsent` makes Outlook open it as a new draft rather
+ * than a received message; other clients open it ready to forward or copy.
+ */
+export const buildEml = (draft: EmailDraft): string => [
+    `To: ${toHeaderLine(draft.to)}`,
+    `Subject: ${encodeHeader(toHeaderLine(draft.subject))}`,
+    'X-Unsent: 1',
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    draft.body,
+].join('\r\n').replace(/\r?\n/g, '\r\n');
+
+export const buildMailtoLink = (draft: EmailDraft): string =>
+    `mailto:${encodeURIComponent(draft.to)}?subject=${encodeURIComponent(draft.subject)}&body=${encodeURIComponent(draft.body)}`;
+
+/** File name for a draft, e.g. "Outreach - Priya Sharma.eml". */
+export const getEmlFileName = (candidate: Candidate): string =>
+    `Outreach - ${(candidate.fullName || candidate.fileName).replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim()}.eml`;
+
+export const loadEmailTemplates = (): EmailTemplate[] => {
+    if (typeof window === 'undefined' || !window.localStorage) return DEFAULT_EMAIL_TEMPLATES;
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(TEMPLATES_STORAGE_KEY) || 'null');
+        return Array.isArray(stored) && stored.length > 0 ? stored : DEFAULT_EMAIL_TEMPLATES;
+    } catch {
+        return DEFAULT_EMAIL_TEMPLATES;
+    }
+};
+
+export const saveEmailTemplates = (templates: EmailTemplate[]) => {
+    window.localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
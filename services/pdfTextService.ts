@@ -0,0 +1,151 @@
+/**
+ * Rebuilds readable text from a pdf.js page's text layer. pdf.js returns positioned
+ * fragments in content-stream order, which for multi-column CVs interleaves the columns,
+ * so fragments are regrouped by position: bands between full-width lines, then columns,
+ * then lines, then words.
+ */
+
+interface TextFragment {
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Minimum number of letters/digits for a page's text layer to count as usable.
+const MIN_USABLE_CHARACTERS = 40;
+
+// Share of fragments each side of a gutter must hold before we treat it as a column split.
+const MIN_COLUMN_SHARE = 0.15;
+
+// Share of fragments allowed to span the gutter (headers, full-width section titles).
+const MAX_SPANNING_SHARE = 0.1;
+
+const toFragments = (items: any[]): TextFragment[] => {
+    return items
+        .filter(item => typeof item.str === 'string' && item.str.trim().length > 0)
+        .map(item => ({
+            text: item.str,
+            x: item.transform[4],
+            y: item.transform[5],
+            width: item.width,
+            height: item.height || Math.abs(item.transform[3]) || 10,
+        }));
+};
+
+const spansGutter = (fragment: TextFragment, gutter: number) => fragment.x < gutter && fragment.x + fragment.width > gutter;
+
+const isSameLine = (a: { y: number; height: number }, b: { y: number; height: number }) => Math.abs(a.y - b.y) <= Math.min(a.height, b.height) / 2;
+
+/**
+ * Finds an x position in the middle half of the page that (almost) no fragment crosses and
+ * that has a meaningful amount of text on both sides, i.e. the gutter of a two-column layout.
+ * A few crossing fragments are tolerated so a full-width name/header doesn't hide the split.
+ */
+const findColumnGutter = (fragments: TextFragment[], pageWidth: number): number | null => {
+    if (fragments.length < 10) return null;
+
+    const step = pageWidth / 100;
+    const maxCrossing = Math.floor(fragments.length * MAX_SPANNING_SHARE);
+    let bestGutter: number | null = null;
+    let bestScore = { crossing: Infinity, balance: 0 };
+
+    for (let gutter = pageWidth * 0.25; gutter <= pageWidth * 0.75; gutter += step) {
+        const crossing = fragments.filter(f => spansGutter(f, gutter)).length;
+        if (crossing > maxCrossing) continue;
+
+        const leftCount = fragments.filter(f => f.x + f.width <= gutter).length;
+        const rightCount = fragments.length - crossing - leftCount;
+        const balance = Math.min(leftCount, rightCount) / fragments.length;
+        if (balance < MIN_COLUMN_SHARE) continue;
+
+        if (crossing < bestScore.crossing || (crossing === bestScore.crossing && balance > bestScore.balance)) {
+            bestScore = { crossing, balance };
+            bestGutter = gutter;
+        }
+    }
+    return bestGutter;
+};
+
+const fragmentsToText = (fragments: TextFragment[]): string => {
+    // PDF y grows upwards, so sort top-to-bottom by descending y
+    const sorted = [...fragments].sort((a, b) => b.y - a.y || a.x - b.x);
+
+    const lines: { y: number; height: number; fragments: TextFragment[] }[] = [];
+    for (const fragment of sorted) {
+        const line = lines[lines.length - 1];
+        if (line && isSameLine(line, fragment)) {
+            line.fragments.push(fragment);
+        } else {
+            lines.push({ y: fragment.y, height: fragment.height, fragments: [fragment] });
+        }
+    }
+
+    const output: string[] = [];
+    let previousLine: (typeof lines)[number] | null = null;
+    for (const line of lines) {
+        line.fragments.sort((a, b) => a.x - b.x);
+        let text = '';
+        let lastEnd: number | null = null;
+        for (const fragment of line.fragments) {
+            // Insert a space only where pdf.js split a line without one
+            const needsSpace = lastEnd !== null && fragment.x - lastEnd > fragment.height * 0.15
+                && !text.endsWith(' ') && !fragment.text.startsWith(' ');
+            text += (needsSpace ? ' ' : '') + fragment.text;
+            lastEnd = fragment.x + fragment.width;
+        }
+
+        // A gap noticeably larger than a line height starts a new paragraph
+        if (previousLine && previousLine.y - line.y > previousLine.height * 1.8) {
+            output.push('');
+        }
+        output.push(text.replace(/\s+/g, ' ').trim());
+        previousLine = line;
+    }
+    return output.join('\n');
+};
+
+/**
+ * Reads a two-column page from top to bottom in bands. Each full-width line (a header or a
+ * section title spanning both columns) ends the band above it, and within a band the left
+ * column is read before the right, so a heading stays next to the content below it.
+ */
+const columnsToText = (fragments: TextFragment[], gutter: number): string => {
+    const spanning = fragments.filter(f => spansGutter(f, gutter)).sort((a, b) => b.y - a.y);
+    let remaining = fragments.filter(f => !spansGutter(f, gutter));
+    const blocks: string[] = [];
+    const readBand = (band: TextFragment[]) => {
+        blocks.push(fragmentsToText(band.filter(f => f.x + f.width <= gutter)));
+        blocks.push(fragmentsToText(band.filter(f => f.x >= gutter)));
+    };
+
+    let index = 0;
+    while (index < spanning.length) {
+        const top = spanning[index];
+        const line: TextFragment[] = [];
+        while (index < spanning.length && isSameLine(top, spanning[index])) line.push(spanning[index++]);
+        readBand(remaining.filter(f => f.y > top.y && !isSameLine(f, top)));
+        // Column fragments on the full-width line itself, e.g. a date beside a title
+        blocks.push(fragmentsToText([...line, ...remaining.filter(f => isSameLine(f, top))]));
+        remaining = remaining.filter(f => f.y < top.y && !isSameLine(f, top));
+    }
+    readBand(remaining);
+    return blocks.filter(block => block.length > 0).join('\n\n');
+};
+
+/**
+ * Extracts a page's text in reading order. Returns an empty string when the page has no
+ * usable text layer (e.g. a scanned image), so callers can fall back to rendering it.
+ */
+export const extractPageText = async (page: any): Promise<string> => {
+    const textContent = await page.getTextContent();
+    const fragments = toFragments(textContent.items);
+    const pageWidth = page.getViewport({ scale: 1 }).width;
+
+    const gutter = findColumnGutter(fragments, pageWidth);
+    const text = gutter === null ? fragmentsToText(fragments) : columnsToText(fragments, gutter);
+
+    const usableCharacters = (text.match(/[\p{L}\p{N}]/gu) || []).length;
+    return usableCharacters >= MIN_USABLE_CHARACTERS ? text : '';
+};
@@ -0,0 +1,96 @@
+import type { Candidate, PipelineStage, PipelineStatus } from '../types';
+
+/**
+ * Hiring pipeline stages. Each candidate has a stage per requisition, stored in
+ * `pipeline` with a timestamped history of every move. The stage list itself is a
+ * recruiter setting kept in localStorage.
+ */
+
+const STAGES_STORAGE_KEY = 'pipelineStages';
+
+export const NEW_STAGE_ID = 'new';
+export const SHORTLISTED_STAGE_ID = 'shortlisted';
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+    { id: NEW_STAGE_ID, label: 'New', color: 'slate' },
+    { id: 'screened', label: 'Screened', color: 'sky' },
+    { id: SHORTLISTED_STAGE_ID, label: 'Shortlisted', color: 'amber' },
+    { id: 'interview', label: 'Interview', color: 'indigo' },
+    { id: 'offer', label: 'Offer', color: 'violet' },
+    { id: 'hired', label: 'Hired', color: 'emerald' },
+    { id: 'rejected', label: 'Rejected', color: 'rose', requiresReason: true },
+];
+
+export const createStage = (label: string): PipelineStage => ({
+    id: `${label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'stage'}-${Date.now().toString(36)}`,
+    label: label.trim() || 'New stage',
+    color: 'slate',
+});
+
+export const getPipelineStatus = (candidate: Candidate, requisitionId: string): PipelineStatus | undefined =>
+    candidate.pipeline?.[requisitionId];
+
+/**
+ * The candidate's stage id for a requisition. Candidates never moved start in the first
+ * stage, as does a stage that has since been removed from the list.
+ */
+export const getStageId = (candidate: Candidate, requisitionId: string, stages: PipelineStage[]): string => {
+    const stageId = getPipelineStatus(candidate, requisitionId)?.stageId ?? NEW_STAGE_ID;
+    return stages.some(stage => stage.id === stageId) ? stageId : stages[0]?.id ?? NEW_STAGE_ID;
+};
+
+/** Moves the candidate to a stage, recording the change. Moving to the current stage only updates the reason. */
+export const moveToStage = (
+    candidate: Candidate,
+    requisitionId: string,
+    stageId: string,
+    stages: PipelineStage[],
+    reason?: string,
+    now: Date = new Date()
+): Candidate => {
+    const current = getPipelineStatus(candidate, requisitionId);
+    const from = getStageId(candidate, requisitionId, stages);
+    if (current && from === stageId && (reason ?? '') === (current.reason ?? '')) return candidate;
+    const status: PipelineStatus = {
+        stageId,
+        reason: reason?.trim() || undefined,
+        history: [...(current?.history ?? []), { from: current ? from : null, to: stageId, reason: reason?.trim() || undefined, changedAt: now.toISOString() }],
+    };
+    return { ...candidate, pipeline: { ...candidate.pipeline, [requisitionId]: status } };
+};
+
+/** The candidate with `pipelineStage` and `isShortlisted` set from the given requisition's pipeline. */
+export const withPipelineStage = (candidate: Candidate, requisitionId: string, stages: PipelineStage[]): Candidate => {
+    const pipelineStage = getStageId(candidate, requisitionId, stages);
+    return { ...candidate, pipelineStage, isShortlisted: pipelineStage === SHORTLISTED_STAGE_ID };
+};
+
+/** Position of a stage in the pipeline, for sorting; unknown stages sort last. */
+export const getStageOrder = (stageId: string | undefined, stages: PipelineStage[]): number => {
+    const index = stages.findIndex(stage => stage.id === stageId);
+    return index === -1 ? stages.length : index;
+};
+
+export const getStageLabel = (stageId: string | undefined, stages: PipelineStage[]): string =>
+    stages.find(stage => stage.id === stageId)?.label ?? '';
+
+export const loadPipelineStages = (): PipelineStage[] => {
+    if (typeof window === 'undefined' || !window.localStorage) return DEFAULT_PIPELINE_STAGES;
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(STAGES_STORAGE_KEY) || 'null');
+        return Array.isArray(stored) && stored.length > 0 ? stored : DEFAULT_PIPELINE_STAGES;
+    } catch {
+        return DEFAULT_PIPELINE_STAGES;
+    }
+};
+
+export const savePipelineStages = (stages: PipelineStage[]) => {
+    window.localStorage.setItem(STAGES_STORAGE_KEY, JSON.stringify(stages));
+};
+
+/** Removes a deleted requisition's pipeline status from a candidate. */
+export const removeRequisitionPipeline = (candidate: Candidate, requisitionId: string): Candidate => {
+    if (!candidate.pipeline?.[requisitionId]) return candidate;
+    const { [requisitionId]: removed, ...pipeline } = candidate.pipeline;
+    return { ...candidate, pipeline };
+};
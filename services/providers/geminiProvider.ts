@@ -0,0 +1,86 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import { ProviderRequestError, parseJsonResponse } from '../aiProvider';
+import type { AIProvider, ContentPart, JsonSchema, ProviderSettings } from '../aiProvider';
+
+// Created on first use: the browser SDK throws without a key, and the app must still start
+// when only the mock or OpenAI-compatible provider is configured.
+let client: GoogleGenAI | undefined;
+
+const getClient = (): GoogleGenAI => {
+    if (!client) {
+        if (!process.env.API_KEY) {
+            throw new ProviderRequestError('No Gemini API key is configured. Set GEMINI_API_KEY or choose another provider in the AI settings.');
+        }
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return client;
+};
+
+// Gemini's Type enum uses upper-case names for the same JSON schema types.
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    items: schema.items ? toGeminiSchema(schema.items) : undefined,
+    properties: schema.properties
+        ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+        : undefined,
+});
+
+const toGeminiPart = (part: ContentPart) => {
+    if (part.type === 'image') {
+        return { inlineData: { mimeType: part.mimeType, data: part.data } };
+    }
+    return { text: part.text };
+};
+
+const generateJson = async (model: string, parts: ContentPart[], schema: JsonSchema, signal?: AbortSignal) => {
+    const ai = getClient();
+    let response;
+    try {
+        response = await ai.models.generateContent({
+            model,
+            contents: { parts: parts.map(toGeminiPart) },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: toGeminiSchema(schema),
+                abortSignal: signal
+            }
+        });
+    } catch (error: unknown) {
+        if (signal?.aborted) throw error;
+        const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number'
+            ? error.status
+            : undefined;
+        throw new ProviderRequestError(error instanceof Error ? error.message : 'Gemini request failed.', status);
+    }
+    return parseJsonResponse(response.text, 'Gemini');
+};
+
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: 'gemini-2.5-flash',
+
+    extractResume: (request, settings: ProviderSettings) => {
+        return generateJson(settings.model, [...request.content, { type: 'text', text: request.prompt }], request.schema, request.signal);
+    },
+
+    scoreMatches: (request, settings: ProviderSettings) => {
+        return generateJson(settings.model, [{ type: 'text', text: request.prompt }], request.schema, request.signal);
+    },
+
+    extractRequirements: (request, settings: ProviderSettings) => {
+        return generateJson(settings.model, [{ type: 'text', text: request.prompt }], request.schema, request.signal);
+    },
+
+    generateInterviewKit: (request, settings: ProviderSettings) => {
+        return generateJson(settings.model, [{ type: 'text', text: request.prompt }], request.schema, request.signal);
+    },
+
+    personalizeOutreach: (request, settings: ProviderSettings) => {
+        return generateJson(settings.model, [{ type: 'text', text: request.prompt }], request.schema, request.signal);
+    },
+};
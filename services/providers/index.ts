@@ -0,0 +1,53 @@
+import type { AIProvider, ProviderId, ProviderSettings } from '../aiProvider';
+import { geminiProvider } from './geminiProvider';
+import { openAICompatibleProvider } from './openAICompatibleProvider';
+import { mockProvider } from './mockProvider';
+
+export const PROVIDERS: Record<ProviderId, AIProvider> = {
+    'gemini': geminiProvider,
+    'openai-compatible': openAICompatibleProvider,
+    'mock': mockProvider,
+};
+
+const SETTINGS_STORAGE_KEY = 'aiProviderSettings';
+
+export const getProvider = (id: ProviderId): AIProvider => {
+    const provider = PROVIDERS[id];
+    if (!provider) {
+        throw new Error(`Unknown AI provider: ${id}`);
+    }
+    return provider;
+};
+
+const isProviderId = (value: unknown): value is ProviderId => {
+    return typeof value === 'string' && value in PROVIDERS;
+};
+
+export const getDefaultProviderSettings = (): ProviderSettings => {
+    const providerId = isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : 'gemini';
+    return {
+        providerId,
+        model: PROVIDERS[providerId].defaultModel,
+        baseUrl: process.env.OPENAI_BASE_URL || '',
+        apiKey: process.env.OPENAI_API_KEY || '',
+    };
+};
+
+/**
+ * Reads the provider chosen in the settings panel, falling back to the build-time defaults.
+ */
+export const loadProviderSettings = (): ProviderSettings => {
+    const defaults = getDefaultProviderSettings();
+    if (typeof window === 'undefined' || !window.localStorage) return defaults;
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+        if (!stored || !isProviderId(stored.providerId)) return defaults;
+        return { ...defaults, ...stored };
+    } catch {
+        return defaults;
+    }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+    window.localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
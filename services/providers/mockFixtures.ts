@@ -0,0 +1,99 @@
+/**
+ * Canned extraction results returned by the mock provider. Shaped exactly like the
+ * resume schema output so they flow through the same post-processing as real answers.
+ */
+export const MOCK_RESUME_FIXTURES: Array<Record<string, unknown>> = [
+    {
+        fullName: "Aarav Sharma",
+        email: "aarav.sharma@example.com",
+        mobile: "9876543210",
+        dob: "1992-04-18",
+        currentCompany: "Infosys",
+        designation: "Senior Software Engineer",
+        totalExperience: "7 years 6 months",
+        relevantExperience: "5 years",
+        skills: ["React", "TypeScript", "Node.js", "AWS", "GraphQL", "Communication"],
+        currentCTC: "18 LPA",
+        expectedCTC: "24 LPA",
+        noticePeriod: "60 days",
+        highestQualification: "B.Tech",
+        educationField: "Computer Science",
+        currentLocation: "Bengaluru",
+        employmentHistory: [
+            { company: "Infosys", title: "Senior Software Engineer", startDate: "2021-04", endDate: "Present", location: "Bengaluru", highlights: ["Led migration of a customer portal to React and GraphQL"] },
+            { company: "Mindtree", title: "Software Engineer", startDate: "2017-07", endDate: "2021-03", location: "Bengaluru", highlights: ["Built Node.js services on AWS Lambda"] }
+        ],
+        educationHistory: [
+            { degree: "B.Tech", field: "Computer Science", institution: "VIT Vellore", year: "2017" }
+        ]
+    },
+    {
+        fullName: "Priya Nair",
+        email: "priya.nair@example.com",
+        mobile: "9123456780",
+        dob: "1996-11-02",
+        currentCompany: "TCS",
+        designation: "Data Analyst",
+        totalExperience: "3 years",
+        relevantExperience: "3 years",
+        skills: ["Python", "SQL", "Power BI", "Pandas", "Statistics", "Teamwork"],
+        currentCTC: "8.5 LPA",
+        expectedCTC: "12 LPA",
+        noticePeriod: "Immediate Joiner",
+        highestQualification: "M.Sc",
+        educationField: "Statistics",
+        currentLocation: "Pune",
+        employmentHistory: [
+            { company: "TCS", title: "Data Analyst", startDate: "2022-01", endDate: "Present", location: "Pune", highlights: ["Automated weekly sales reporting in Power BI"] }
+        ],
+        educationHistory: [
+            { degree: "M.Sc", field: "Statistics", institution: "Savitribai Phule Pune University", year: "2021" },
+            { degree: "B.Sc", field: "Mathematics", institution: "Fergusson College", year: "2019" }
+        ]
+    },
+    {
+        fullName: "Rohan Mehta",
+        email: "rohan.mehta@example.com",
+        mobile: "9988776655",
+        dob: "",
+        currentCompany: "Freshworks",
+        designation: "DevOps Engineer",
+        totalExperience: "5 years 2 months",
+        relevantExperience: "4 years",
+        skills: ["Kubernetes", "Docker", "Terraform", "GCP", "Jenkins", "Linux"],
+        currentCTC: "15 LPA",
+        expectedCTC: "20 LPA",
+        noticePeriod: "30 days",
+        highestQualification: "B.E.",
+        educationField: "Electronics",
+        currentLocation: "Chennai",
+        employmentHistory: [
+            { company: "Freshworks", title: "DevOps Engineer", startDate: "2020-09", endDate: "Present", location: "Chennai", highlights: ["Moved CI pipelines from Jenkins to GitHub Actions"] },
+            { company: "Zoho", title: "Systems Engineer", startDate: "2019-02", endDate: "2020-06", location: "Chennai", highlights: [] }
+        ],
+        educationHistory: [
+            { degree: "B.E.", field: "Electronics", institution: "Anna University", year: "2018" }
+        ]
+    },
+    {
+        fullName: "Sneha Kulkarni",
+        email: "sneha.k@example.com",
+        mobile: "9012345678",
+        dob: "1999-07-25",
+        currentCompany: "",
+        designation: "",
+        totalExperience: "",
+        relevantExperience: "",
+        skills: ["Java", "Spring Boot", "MySQL", "Problem Solving"],
+        currentCTC: "",
+        expectedCTC: "6 LPA",
+        noticePeriod: "Immediate Joiner",
+        highestQualification: "MCA",
+        educationField: "Computer Applications",
+        currentLocation: "Hyderabad",
+        employmentHistory: [],
+        educationHistory: [
+            { degree: "MCA", field: "Computer Applications", institution: "Osmania University", year: "2023" }
+        ]
+    }
+];
@@ -0,0 +1,141 @@
+import type { AIProvider, ContentPart } from '../aiProvider';
+import { MOCK_RESUME_FIXTURES } from './mockFixtures';
+import { DEFAULT_SKILL_TAXONOMY } from '../skillTaxonomyService';
+import { escapeRegExp } from '../textUtils';
+
+/**
+ * Offline provider that never touches the network. The same input always yields the
+ * same output, which makes it suitable for demos, UI work and automated tests.
+ */
+
+// FNV-1a; only needs to be stable, not cryptographically strong.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const contentFingerprint = (fileName: string, content: ContentPart[]) => {
+    return fileName + content.map(part => part.type === 'text' ? part.text : part.data.slice(0, 256)).join('|');
+};
+
+// Fixtures carry plain values; cite each one as its own source, with experience marked as derived.
+const withFieldEvidence = (fixture: Record<string, unknown>) => ({
+    ...fixture,
+    fieldEvidence: Object.entries(fixture)
+        .filter(([field, value]) => field !== 'skills' && typeof value === 'string' && value !== '')
+        .map(([field, value]) => ({
+            field,
+            confidence: field === 'relevantExperience' ? 'medium' : 'high',
+            source: value
+        }))
+});
+
+// Position of the first whole-word occurrence of any of the names, or -1
+const findTerm = (text: string, names: string[]) => {
+    const positions = names
+        .map(name => text.search(new RegExp(`(?<![a-z0-9])${escapeRegExp(name)}(?![a-z0-9])`, 'i')))
+        .filter(position => position >= 0);
+    return positions.length > 0 ? Math.min(...positions) : -1;
+};
+
+const QUALIFICATION_PATTERN = /\b(B\.?\s?Tech|B\.?E\.?|M\.?\s?Tech|MCA|BCA|MBA|B\.?\s?Sc|M\.?\s?Sc|Bachelor'?s?|Master'?s?|Ph\.?D)\b/gi;
+
+/** Keyword-based requirement extraction, standing in for the model. */
+const extractMockRequirements = (jobDescription: string) => {
+    // Skills mentioned after "nice to have" / "preferred" / "a plus" are optional
+    const optionalStart = jobDescription.search(/nice[\s-]to[\s-]have|good[\s-]to[\s-]have|preferred|bonus|\ba plus\b/i);
+    const mentioned = DEFAULT_SKILL_TAXONOMY
+        .filter(skill => skill.category !== 'soft')
+        .map(skill => ({ name: skill.name, position: findTerm(jobDescription, [skill.name, ...skill.aliases]) }))
+        .filter(skill => skill.position >= 0);
+    const isOptional = (position: number) => optionalStart >= 0 && position > optionalStart;
+
+    const range = jobDescription.match(/(\d+)\s*(?:-|to)\s*(\d+)\s*\+?\s*(?:years|yrs)/i);
+    const minimum = jobDescription.match(/(\d+)\s*\+?\s*(?:years|yrs)/i);
+    const location = jobDescription.match(/location\s*[:\-]\s*([^\n.]+)/i);
+    const budget = jobDescription.match(/(?:budget|ctc|salary|compensation)[^\n\d]*(\d[\d.,]*\s*(?:lpa|lakhs?|l|cr|k)?)/i);
+
+    return {
+        mustHaveSkills: mentioned.filter(skill => !isOptional(skill.position)).map(skill => skill.name),
+        niceToHaveSkills: mentioned.filter(skill => isOptional(skill.position)).map(skill => skill.name),
+        minExperience: range ? Number(range[1]) : minimum ? Number(minimum[1]) : 0,
+        maxExperience: range ? Number(range[2]) : 0,
+        locations: location ? location[1].split(/,|\/|\bor\b/).map(part => part.trim()).filter(Boolean) : [],
+        qualifications: Array.from(new Set(jobDescription.match(QUALIFICATION_PATTERN) ?? [])),
+        ctcBudget: budget ? budget[1].trim() : '',
+    };
+};
+
+export const mockProvider: AIProvider = {
+    id: 'mock',
+    label: 'Offline mock (fixtures)',
+    defaultModel: 'mock-fixtures-v1',
+
+    extractResume: async (request) => {
+        request.signal?.throwIfAborted();
+        const index = hashString(contentFingerprint(request.fileName, request.content)) % MOCK_RESUME_FIXTURES.length;
+        return withFieldEvidence(structuredClone(MOCK_RESUME_FIXTURES[index]));
+    },
+
+    scoreMatches: async (request) => {
+        request.signal?.throwIfAborted();
+        const jd = request.jobDescription.toLowerCase();
+        const format = (items: string[]) => items.length > 0 ? items.map(s => `\`${s}\``).join(', ') : 'none';
+        const results = request.candidates.map(candidate => {
+            const skills = candidate.skills ?? [];
+            const matched = skills.filter(skill => jd.includes(skill.toLowerCase()));
+            const missing = skills.length === 0 ? [] : skills.filter(skill => !matched.includes(skill));
+            const coverage = skills.length > 0 ? matched.length / skills.length : 0;
+            const experienceBonus = Math.min(candidate.totalExperience, 10) * 2;
+            return {
+                id: candidate.id,
+                matchScore: Math.min(100, Math.round(coverage * 80 + experienceBonus)),
+                matchReason: `Strong Matches: ${format(matched)}. Gaps/Missing: skills not referenced in the JD: ${format(missing)}. (Mock analysis)`
+            };
+        });
+        return { results };
+    },
+
+    extractRequirements: async (request) => {
+        request.signal?.throwIfAborted();
+        return extractMockRequirements(request.jobDescription);
+    },
+
+    generateInterviewKit: async (request) => {
+        request.signal?.throwIfAborted();
+        const jd = request.jobDescription.toLowerCase();
+        const skills = request.candidate.skills ?? [];
+        // Prefer skills the JD mentions; fall back to the resume's own
+        const relevant = skills.filter(skill => jd.includes(skill.toLowerCase()));
+        const skillQuestions = (relevant.length > 0 ? relevant : skills).slice(0, 5).map(skill => ({
+            category: 'skill',
+            topic: skill,
+            question: `Walk me through the most complex piece of work you delivered with ${skill}. What would you do differently now?`,
+            expectedAnswer: `Specific project, their own role and decisions, trade-offs in ${skill}, measurable outcome. Vague or textbook answers suggest shallow use. (Mock kit)`
+        }));
+        const gapQuestions = request.gaps.slice(0, 5).map(gap => ({
+            category: 'gap',
+            topic: gap,
+            question: `The role needs ${gap}. What have you worked on that comes closest, and how would you get up to speed?`,
+            expectedAnswer: `Adjacent experience that transfers, a realistic ramp-up plan, honesty about what they haven't done. (Mock kit)`
+        }));
+        return { questions: [...skillQuestions, ...gapQuestions] };
+    },
+
+    personalizeOutreach: async (request) => {
+        request.signal?.throwIfAborted();
+        const notes = request.candidates.map(candidate => {
+            const role = [candidate.designation, candidate.currentCompany].filter(Boolean).join(' at ');
+            const skills = candidate.matchingSkills.slice(0, 3);
+            return {
+                id: candidate.id,
+                personalNote: `${role ? `Your work as ${role}` : 'Your background'}${skills.length > 0 ? `, especially with ${skills.join(', ')},` : ''} stood out to us for this role. (Mock note)`
+            };
+        });
+        return { notes };
+    },
+};
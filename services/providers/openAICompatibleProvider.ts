@@ -0,0 +1,86 @@
+import { ProviderRequestError, parseJsonResponse } from '../aiProvider';
+import type { AIProvider, ContentPart, JsonSchema, ProviderSettings } from '../aiProvider';
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API (OpenAI itself,
+ * vLLM, llama.cpp server, Ollama, LM Studio...), so a self-hosted model can be used.
+ */
+
+const toMessageContent = (part: ContentPart) => {
+    if (part.type === 'image') {
+        return { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } };
+    }
+    return { type: 'text', text: part.text };
+};
+
+const generateJson = async (
+    settings: ProviderSettings,
+    parts: ContentPart[],
+    schema: JsonSchema,
+    schemaName: string,
+    signal?: AbortSignal
+) => {
+    if (!settings.baseUrl) {
+        throw new Error('No base URL configured for the OpenAI-compatible provider.');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+        headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal,
+            body: JSON.stringify({
+                model: settings.model,
+                messages: [{ role: 'user', content: parts.map(toMessageContent) }],
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: schemaName, schema, strict: false }
+                },
+                temperature: 0
+            })
+        });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new ProviderRequestError(`Could not reach ${settings.baseUrl}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new ProviderRequestError(`Model server responded with ${response.status}: ${body.slice(0, 200)}`, response.status);
+    }
+
+    const data = await response.json();
+    return parseJsonResponse(data?.choices?.[0]?.message?.content, 'the model server');
+};
+
+export const openAICompatibleProvider: AIProvider = {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible endpoint',
+    defaultModel: 'gpt-4o-mini',
+
+    extractResume: (request, settings) => {
+        return generateJson(settings, [...request.content, { type: 'text', text: request.prompt }], request.schema, 'resume', request.signal);
+    },
+
+    scoreMatches: (request, settings) => {
+        return generateJson(settings, [{ type: 'text', text: request.prompt }], request.schema, 'job_matches', request.signal);
+    },
+
+    extractRequirements: (request, settings) => {
+        return generateJson(settings, [{ type: 'text', text: request.prompt }], request.schema, 'job_requirements', request.signal);
+    },
+
+    generateInterviewKit: (request, settings) => {
+        return generateJson(settings, [{ type: 'text', text: request.prompt }], request.schema, 'interview_kit', request.signal);
+    },
+
+    personalizeOutreach: (request, settings) => {
+        return generateJson(settings, [{ type: 'text', text: request.prompt }], request.schema, 'outreach_notes', request.signal);
+    },
+};
@@ -0,0 +1,151 @@
+import type { Candidate, JobRequirements } from '../types';
+import type { FxTable } from './compensationService';
+import { formatMoney, getAnnualAmount, parseCompensation } from './compensationService';
+import type { SkillIndex } from './skillTaxonomyService';
+import { canonicalizeSkill, canonicalizeSkills, expandSkills } from './skillTaxonomyService';
+import { escapeRegExp } from './textUtils';
+
+/**
+ * Checks a candidate against a requisition's structured requirements. Each requirement
+ * gets a pass / partial / fail verdict with a short explanation, so recruiters can see
+ * exactly which criteria a candidate meets instead of relying on the match score alone.
+ */
+
+export type RequirementStatus = 'pass' | 'partial' | 'fail';
+
+export interface RequirementCheck {
+    id: string;
+    label: string;
+    status: RequirementStatus;
+    detail: string;
+}
+
+export const EMPTY_REQUIREMENTS: JobRequirements = {
+    mustHaveSkills: [],
+    niceToHaveSkills: [],
+    minExperience: null,
+    maxExperience: null,
+    locations: [],
+    qualifications: [],
+    ctcBudget: '',
+};
+
+// Experience this close to the range, and CTC this far over budget, count as partial
+const EXPERIENCE_TOLERANCE_YEARS = 1;
+const BUDGET_TOLERANCE = 1.1;
+
+export const hasRequirements = (requirements: JobRequirements | undefined): requirements is JobRequirements =>
+    !!requirements && (
+        requirements.mustHaveSkills.length > 0 ||
+        requirements.niceToHaveSkills.length > 0 ||
+        requirements.minExperience !== null ||
+        requirements.maxExperience !== null ||
+        requirements.locations.length > 0 ||
+        requirements.qualifications.length > 0 ||
+        requirements.ctcBudget.trim() !== ''
+    );
+
+// Whole-term match that still works for names ending in symbols, like "C++" or "C#"
+const mentions = (text: string, term: string): boolean =>
+    new RegExp(`(?<![a-z0-9])${escapeRegExp(term)}(?![a-z0-9+#])`, 'i').test(text);
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const formatYears = (years: number) => `${years} yr${years === 1 ? '' : 's'}`;
+
+const checkSkill = (skill: string, skills: Set<string>, rawText: string, index: SkillIndex): RequirementCheck => {
+    const canonical = canonicalizeSkill(skill, index);
+    const base = { id: `skill:${canonical.toLowerCase()}`, label: canonical };
+    if (skills.has(canonical.toLowerCase())) return { ...base, status: 'pass', detail: 'Listed in skills' };
+    if (rawText && (mentions(rawText, skill) || mentions(rawText, canonical))) {
+        return { ...base, status: 'partial', detail: 'Mentioned in the resume but not listed as a skill' };
+    }
+    return { ...base, status: 'fail', detail: 'Not found' };
+};
+
+/** One check per skill: listed (pass), only mentioned in the resume text (partial), or absent (fail). */
+export const evaluateSkills = (candidate: Candidate, requiredSkills: string[], skillIndex: SkillIndex): RequirementCheck[] => {
+    const skills = new Set(expandSkills(canonicalizeSkills(candidate.skills ?? [], skillIndex), skillIndex).map(skill => skill.toLowerCase()));
+    const rawText = candidate.rawText ?? '';
+    return requiredSkills.map(skill => checkSkill(skill, skills, rawText, skillIndex));
+};
+
+const checkExperience = (years: number, min: number | null, max: number | null): RequirementCheck => {
+    const range = min !== null && max !== null
+        ? `${min}–${formatYears(max)}`
+        : min !== null ? `${formatYears(min)}+` : `up to ${formatYears(max!)}`;
+    const base = { id: 'experience', label: `Experience ${range}` };
+    const below = min !== null ? min - years : 0;
+    const above = max !== null ? years - max : 0;
+    if (below <= 0 && above <= 0) return { ...base, status: 'pass', detail: `${formatYears(years)} total` };
+    const gap = Math.max(below, above);
+    return {
+        ...base,
+        status: gap <= EXPERIENCE_TOLERANCE_YEARS ? 'partial' : 'fail',
+        detail: `${formatYears(years)} total, ${formatYears(Math.round(gap * 10) / 10)} ${below > 0 ? 'short' : 'over'}`,
+    };
+};
+
+const checkLocation = (candidate: Candidate, locations: string[]): RequirementCheck => {
+    const base = { id: 'location', label: `Location: ${locations.join(' / ')}` };
+    const current = candidate.currentLocation?.trim();
+    if (!current) return { ...base, status: 'partial', detail: 'Location unknown' };
+    const matched = locations.some(location => normalize(current).includes(normalize(location)) || normalize(location).includes(normalize(current)));
+    return { ...base, status: matched ? 'pass' : 'fail', detail: current };
+};
+
+const checkQualification = (candidate: Candidate, qualifications: string[]): RequirementCheck => {
+    const base = { id: 'qualification', label: `Qualification: ${qualifications.join(' / ')}` };
+    const held = [candidate.highestQualification, ...(candidate.educationHistory ?? []).map(entry => entry.degree)]
+        .filter((degree): degree is string => !!degree?.trim());
+    if (held.length === 0) return { ...base, status: 'partial', detail: 'Qualification unknown' };
+    const matched = held.find(degree => qualifications.some(q => normalize(degree).includes(normalize(q))));
+    return { ...base, status: matched ? 'pass' : 'fail', detail: matched ?? held[0] };
+};
+
+const checkBudget = (candidate: Candidate, ctcBudget: string, fx: FxTable): RequirementCheck => {
+    const base = { id: 'budget', label: `CTC budget ${ctcBudget}` };
+    const budget = getAnnualAmount(parseCompensation(ctcBudget, fx.baseCurrency), fx);
+    const expected = getAnnualAmount(candidate.expectedCompensation, fx);
+    if (budget === null) return { ...base, status: 'partial', detail: 'Budget could not be read' };
+    if (expected === null) return { ...base, status: 'partial', detail: 'Expected CTC unknown' };
+    const detail = `Expects ${formatMoney(expected, fx.baseCurrency)}`;
+    if (expected <= budget) return { ...base, status: 'pass', detail };
+    return { ...base, status: expected <= budget * BUDGET_TOLERANCE ? 'partial' : 'fail', detail: `${detail}, over budget` };
+};
+
+/** One check per must-have skill, one for the nice-to-haves together, then the other criteria that are set. */
+export const evaluateRequirements = (
+    candidate: Candidate,
+    requirements: JobRequirements,
+    fx: FxTable,
+    skillIndex: SkillIndex
+): RequirementCheck[] => {
+    const checks = evaluateSkills(candidate, requirements.mustHaveSkills, skillIndex);
+
+    if (requirements.niceToHaveSkills.length > 0) {
+        const niceToHave = evaluateSkills(candidate, requirements.niceToHaveSkills, skillIndex);
+        const found = niceToHave.filter(check => check.status !== 'fail').map(check => check.label);
+        checks.push({
+            id: 'nice-to-have',
+            label: 'Nice-to-have skills',
+            status: found.length === niceToHave.length ? 'pass' : found.length > 0 ? 'partial' : 'fail',
+            detail: `${found.length} of ${niceToHave.length}${found.length > 0 ? `: ${found.join(', ')}` : ''}`,
+        });
+    }
+    if (requirements.minExperience !== null || requirements.maxExperience !== null) {
+        checks.push(checkExperience(candidate.totalExperience || 0, requirements.minExperience, requirements.maxExperience));
+    }
+    if (requirements.locations.length > 0) checks.push(checkLocation(candidate, requirements.locations));
+    if (requirements.qualifications.length > 0) checks.push(checkQualification(candidate, requirements.qualifications));
+    if (requirements.ctcBudget.trim()) checks.push(checkBudget(candidate, requirements.ctcBudget, fx));
+    return checks;
+};
+
+/** "7/9 requirements met" style counts for compact display. */
+export const summarizeChecks = (checks: RequirementCheck[]) => ({
+    pass: checks.filter(check => check.status === 'pass').length,
+    partial: checks.filter(check => check.status === 'partial').length,
+    fail: checks.filter(check => check.status === 'fail').length,
+    total: checks.length,
+});
@@ -0,0 +1,42 @@
+import type { Candidate, JobRequisition } from '../types';
+import { newId } from './textUtils';
+
+/**
+ * Job requisitions and the per-requisition match results stored on each candidate.
+ * Candidates keep one result per requisition in `matchResults`; the table, filters and
+ * detail views read `matchScore`/`matchReason`, which are projected from whichever
+ * requisition is active.
+ */
+
+// Id given to the single job description of workspaces saved before requisitions existed
+export const LEGACY_REQUISITION_ID = 'legacy-job-description';
+
+export const createRequisition = (title: string, jobDescription = ''): JobRequisition => ({
+    id: newId(),
+    title: title.trim() || 'Untitled requisition',
+    jobDescription,
+    createdAt: new Date().toISOString(),
+});
+
+/** The candidate with `matchScore`/`matchReason` set from the given requisition's result. */
+export const withRequisitionMatch = (candidate: Candidate, requisitionId: string | null): Candidate => {
+    const match = requisitionId ? candidate.matchResults?.[requisitionId] : undefined;
+    if (!match && candidate.matchScore === undefined) return candidate;
+    return { ...candidate, matchScore: match?.matchScore, matchReason: match?.matchReason };
+};
+
+/** Removes a deleted requisition's results from a candidate. */
+export const removeRequisitionMatch = (candidate: Candidate, requisitionId: string): Candidate => {
+    if (!candidate.matchResults?.[requisitionId]) return candidate;
+    const { [requisitionId]: removed, ...matchResults } = candidate.matchResults;
+    return { ...candidate, matchResults };
+};
+
+/** Short label for switchers and export headers, e.g. "Senior React Developer (12 Mar 2025)". */
+export const formatRequisitionLabel = (requisition: JobRequisition): string => {
+    const created = new Date(requisition.createdAt);
+    const date = Number.isNaN(created.getTime())
+        ? ''
+        : ` (${created.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })})`;
+    return `${requisition.title}${date}`;
+};
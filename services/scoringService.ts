@@ -0,0 +1,211 @@
+import type { Candidate, JobRequirements, ScoreBreakdown, ScoreComponent, ScoreComponentId } from '../types';
+import type { FxTable } from './compensationService';
+import { getAnnualAmount, parseCompensation } from './compensationService';
+import { formatNoticePeriod, getDaysUntilAvailable } from './noticePeriodService';
+import type { RequirementCheck } from './requirementsService';
+import { evaluateSkills, hasRequirements } from './requirementsService';
+import type { SkillIndex } from './skillTaxonomyService';
+
+/**
+ * Deterministic match scoring. Sub-scores for skill coverage, experience fit, location,
+ * notice and CTC budget are computed from the requisition's requirements and combined with
+ * the AI's score using recruiter-tunable weights, so the same inputs always give the same
+ * final score and every point can be traced back to a part of the breakdown.
+ */
+
+export type ScoringWeights = Record<ScoreComponentId, number>;
+
+const WEIGHTS_STORAGE_KEY = 'scoringWeights';
+
+export const SCORE_COMPONENTS: { id: ScoreComponentId; label: string }[] = [
+    { id: 'skills', label: 'Skill coverage' },
+    { id: 'experience', label: 'Experience fit' },
+    { id: 'location', label: 'Location' },
+    { id: 'notice', label: 'Notice period' },
+    { id: 'budget', label: 'CTC budget fit' },
+    { id: 'ai', label: 'AI judgment' },
+];
+
+// Relative weights; they don't need to add up to 100
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+    skills: 30,
+    experience: 15,
+    location: 10,
+    notice: 5,
+    budget: 10,
+    ai: 30,
+};
+
+// Must-have skills count for this share of skill coverage when nice-to-haves are also listed
+const MUST_HAVE_SHARE = 0.8;
+// Experience loses this many points per year outside the required range
+const POINTS_PER_YEAR_OUTSIDE = 25;
+// Notice scores fall linearly to zero at this many days until joining
+const NOTICE_ZERO_SCORE_DAYS = 120;
+// Expected CTC this far over budget scores zero
+const BUDGET_ZERO_SCORE_RATIO = 1.3;
+
+const CHECK_VALUES: Record<RequirementCheck['status'], number> = { pass: 1, partial: 0.5, fail: 0 };
+
+const clampScore = (score: number) => Math.round(Math.max(0, Math.min(100, score)));
+
+type SubScore = Pick<ScoreComponent, 'score' | 'detail'>;
+
+const scoreSkills = (candidate: Candidate, requirements: JobRequirements, skillIndex: SkillIndex): SubScore => {
+    const coverage = (skills: string[]) => {
+        const checks = evaluateSkills(candidate, skills, skillIndex);
+        return {
+            value: checks.reduce((sum, check) => sum + CHECK_VALUES[check.status], 0) / checks.length,
+            met: checks.filter(check => check.status === 'pass').length,
+        };
+    };
+    const { mustHaveSkills, niceToHaveSkills } = requirements;
+    if (mustHaveSkills.length === 0 && niceToHaveSkills.length === 0) return { score: null, detail: 'No skills required' };
+    if (niceToHaveSkills.length === 0) {
+        const must = coverage(mustHaveSkills);
+        return { score: clampScore(must.value * 100), detail: `${must.met}/${mustHaveSkills.length} must-have` };
+    }
+    if (mustHaveSkills.length === 0) {
+        const nice = coverage(niceToHaveSkills);
+        return { score: clampScore(nice.value * 100), detail: `${nice.met}/${niceToHaveSkills.length} nice-to-have` };
+    }
+    const must = coverage(mustHaveSkills);
+    const nice = coverage(niceToHaveSkills);
+    return {
+        score: clampScore((must.value * MUST_HAVE_SHARE + nice.value * (1 - MUST_HAVE_SHARE)) * 100),
+        detail: `${must.met}/${mustHaveSkills.length} must-have, ${nice.met}/${niceToHaveSkills.length} nice-to-have`,
+    };
+};
+
+const scoreExperience = (candidate: Candidate, requirements: JobRequirements): SubScore => {
+    const { minExperience: min, maxExperience: max } = requirements;
+    if (min === null && max === null) return { score: null, detail: 'No range set' };
+    const years = candidate.totalExperience || 0;
+    const gap = Math.max(min !== null ? min - years : 0, max !== null ? years - max : 0, 0);
+    return {
+        score: clampScore(100 - gap * POINTS_PER_YEAR_OUTSIDE),
+        detail: gap === 0 ? `${years} yrs, in range` : `${years} yrs, ${Math.round(gap * 10) / 10} outside range`,
+    };
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const scoreLocation = (candidate: Candidate, requirements: JobRequirements): SubScore => {
+    if (requirements.locations.length === 0) return { score: null, detail: 'No location set' };
+    const current = normalize(candidate.currentLocation ?? '');
+    if (!current) return { score: null, detail: 'Location unknown' };
+    const matched = requirements.locations.some(location => current.includes(normalize(location)) || normalize(location).includes(current));
+    return { score: matched ? 100 : 0, detail: candidate.currentLocation };
+};
+
+const scoreNotice = (candidate: Candidate, today: Date): SubScore => {
+    const days = getDaysUntilAvailable(candidate.notice, today);
+    if (days === null) return { score: null, detail: 'Notice unknown' };
+    return {
+        score: clampScore(100 - (days / NOTICE_ZERO_SCORE_DAYS) * 100),
+        detail: formatNoticePeriod(candidate.notice) || `${days} days`,
+    };
+};
+
+const scoreBudget = (candidate: Candidate, requirements: JobRequirements, fx: FxTable): SubScore => {
+    if (!requirements.ctcBudget.trim()) return { score: null, detail: 'No budget set' };
+    const budget = getAnnualAmount(parseCompensation(requirements.ctcBudget, fx.baseCurrency), fx);
+    const expected = getAnnualAmount(candidate.expectedCompensation, fx);
+    if (budget === null || budget <= 0) return { score: null, detail: 'Budget could not be read' };
+    if (expected === null) return { score: null, detail: 'Expected CTC unknown' };
+    const ratio = expected / budget;
+    if (ratio <= 1) return { score: 100, detail: 'Within budget' };
+    return {
+        score: clampScore(100 * (BUDGET_ZERO_SCORE_RATIO - ratio) / (BUDGET_ZERO_SCORE_RATIO - 1)),
+        detail: `${Math.round((ratio - 1) * 100)}% over budget`,
+    };
+};
+
+/**
+ * Combines the sub-scores that could be judged into one score. Weights of parts with no
+ * score (no requirement set, or the candidate's data is missing) are shared among the rest.
+ * Returns undefined when nothing could be judged: no AI score and no requirement that
+ * applies to this candidate's data.
+ */
+export const computeMatchScore = (
+    candidate: Candidate,
+    requirements: JobRequirements | undefined,
+    aiScore: number | undefined,
+    weights: ScoringWeights,
+    fx: FxTable,
+    skillIndex: SkillIndex,
+    today: Date = new Date()
+): ScoreBreakdown | undefined => {
+    const scoreRequirements = hasRequirements(requirements);
+    if (!scoreRequirements && aiScore === undefined) return undefined;
+
+    const none: SubScore = { score: null, detail: 'No requirements set' };
+    const subScores: Record<ScoreComponentId, SubScore> = {
+        skills: scoreRequirements ? scoreSkills(candidate, requirements, skillIndex) : none,
+        experience: scoreRequirements ? scoreExperience(candidate, requirements) : none,
+        location: scoreRequirements ? scoreLocation(candidate, requirements) : none,
+        notice: scoreRequirements ? scoreNotice(candidate, today) : none,
+        budget: scoreRequirements ? scoreBudget(candidate, requirements, fx) : none,
+        ai: aiScore !== undefined ? { score: clampScore(aiScore), detail: 'Model score' } : { score: null, detail: 'Not analyzed yet' },
+    };
+
+    const scoredWeight = SCORE_COMPONENTS.reduce((sum, { id }) =>
+        subScores[id].score !== null ? sum + Math.max(0, weights[id]) : sum, 0);
+    const components: ScoreComponent[] = SCORE_COMPONENTS.map(({ id, label }) => ({
+        id,
+        label,
+        ...subScores[id],
+        weight: subScores[id].score !== null && scoredWeight > 0 ? Math.max(0, weights[id]) / scoredWeight : 0,
+    }));
+    const scored = components.filter(component => component.score !== null);
+    // e.g. only qualifications set, or only locations for a candidate with no known location
+    if (scored.length === 0) return undefined;
+    const finalScore = scoredWeight > 0
+        ? scored.reduce((sum, component) => sum + component.score! * component.weight, 0)
+        // Every part that could be judged is weighted zero; fall back to a plain average
+        : scored.reduce((sum, component) => sum + component.score!, 0) / scored.length;
+
+    return { finalScore: clampScore(finalScore), aiScore, components };
+};
+
+export const loadScoringWeights = (): ScoringWeights => {
+    if (typeof window === 'undefined' || !window.localStorage) return DEFAULT_SCORING_WEIGHTS;
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(WEIGHTS_STORAGE_KEY) || 'null');
+        return stored ? { ...DEFAULT_SCORING_WEIGHTS, ...stored } : DEFAULT_SCORING_WEIGHTS;
+    } catch {
+        return DEFAULT_SCORING_WEIGHTS;
+    }
+};
+
+export const saveScoringWeights = (weights: ScoringWeights) => {
+    window.localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+};
+
+/**
+ * Attaches the breakdown and, once the AI score exists, replaces `matchScore` with the
+ * combined score. Until then `matchScore` stays unset so a score built from the
+ * requirements alone is never shown, sorted or filtered as the Match %.
+ */
+export const withScoreBreakdown = (
+    candidate: Candidate,
+    requirements: JobRequirements | undefined,
+    weights: ScoringWeights,
+    fx: FxTable,
+    skillIndex: SkillIndex
+): Candidate => {
+    const scoreBreakdown = computeMatchScore(candidate, requirements, candidate.matchScore, weights, fx, skillIndex);
+    if (!scoreBreakdown) return candidate;
+    return scoreBreakdown.aiScore !== undefined
+        ? { ...candidate, matchScore: scoreBreakdown.finalScore, scoreBreakdown }
+        : { ...candidate, scoreBreakdown };
+};
+
+/** One-line breakdown for exports, e.g. "Skill coverage 80 × 33%; AI judgment 72 × 33%". */
+export const describeScoreBreakdown = (breakdown: ScoreBreakdown | undefined): string => {
+    if (!breakdown) return '';
+    return breakdown.components
+        .filter(component => component.score !== null)
+        .map(component => `${component.label} ${component.score} × ${Math.round(component.weight * 100)}%`)
+        .join('; ');
+};
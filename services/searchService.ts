@@ -0,0 +1,259 @@
+import type { Candidate } from '../types';
+import { escapeRegExp } from './textUtils';
+
+/**
+ * Full-text search over the raw resume text kept on each candidate. An inverted index maps
+ * every word to the candidates and word positions it occurs at, which answers single words,
+ * prefixes ("kube*"), quoted phrases and AND / OR / NOT queries without rescanning the text.
+ */
+
+export interface SearchIndex {
+    // word -> candidate id -> ascending word positions
+    postings: Map<string, Map<string, number[]>>;
+    candidateIds: Set<string>;
+}
+
+export type SearchQuery =
+    | { type: 'word'; value: string; prefix: boolean }
+    | { type: 'phrase'; words: string[] }
+    | { type: 'not'; operand: SearchQuery }
+    | { type: 'and' | 'or'; left: SearchQuery; right: SearchQuery };
+
+export interface SnippetSegment {
+    text: string;
+    isMatch: boolean;
+}
+
+// Letters, digits and the symbols that matter in tech names (C++, C#, .NET, Node.js)
+const WORD_PATTERN = /[a-z0-9][a-z0-9+#]*(?:\.[a-z0-9+#]+)*/g;
+
+const toWords = (text: string): string[] => text.toLowerCase().match(WORD_PATTERN) ?? [];
+
+export const buildSearchIndex = (candidates: Candidate[]): SearchIndex => {
+    const postings = new Map<string, Map<string, number[]>>();
+    const candidateIds = new Set<string>();
+    candidates.forEach(candidate => {
+        candidateIds.add(candidate.id);
+        const addPosting = (word: string, position: number) => {
+            let byCandidate = postings.get(word);
+            if (!byCandidate) {
+                byCandidate = new Map<string, number[]>();
+                postings.set(word, byCandidate);
+            }
+            const positions = byCandidate.get(candidate.id);
+            if (!positions) byCandidate.set(candidate.id, [position]);
+            else if (positions[positions.length - 1] !== position) positions.push(position);
+        };
+        toWords(candidate.rawText ?? '').forEach((word, position) => {
+            addPosting(word, position);
+            // "Node.js" is also findable as "node"; the parts share the word's position
+            if (word.includes('.')) word.split('.').forEach(part => addPosting(part, position));
+        });
+    });
+    return { postings, candidateIds };
+};
+
+// --- Query parsing ---
+
+type Token =
+    | { type: 'word'; value: string }
+    | { type: 'phrase'; value: string }
+    | { type: 'and' | 'or' | 'not' | 'open' | 'close' };
+
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    const pattern = /"([^"]*)"|(\()|(\))|(-)(?=\S)|([^\s()"]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const [, phrase, open, close, minus, word] = match;
+        if (phrase !== undefined) {
+            if (phrase.trim()) tokens.push({ type: 'phrase', value: phrase });
+        } else if (open) tokens.push({ type: 'open' });
+        else if (close) tokens.push({ type: 'close' });
+        else if (minus) tokens.push({ type: 'not' });
+        else if (word === 'AND' || word === 'OR' || word === 'NOT') tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not' });
+        else tokens.push({ type: 'word', value: word });
+    }
+    return tokens;
+};
+
+/**
+ * Parses a search query. Words next to each other must all match; OR, NOT (or a leading
+ * "-"), parentheses and "quoted phrases" work as usual, and a trailing * matches a prefix.
+ */
+export const parseSearchQuery = (text: string): { query: SearchQuery | null; error?: string } => {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) return { query: null };
+    let position = 0;
+    const peek = () => tokens[position];
+
+    const parseOr = (): SearchQuery => {
+        let left = parseAnd();
+        while (peek()?.type === 'or') {
+            position++;
+            left = { type: 'or', left, right: parseAnd() };
+        }
+        return left;
+    };
+
+    const parseAnd = (): SearchQuery => {
+        let left = parseUnary();
+        for (;;) {
+            const next = peek();
+            if (next?.type === 'and') position++;
+            else if (!next || next.type === 'or' || next.type === 'close') break;
+            left = { type: 'and', left, right: parseUnary() };
+        }
+        return left;
+    };
+
+    const parseUnary = (): SearchQuery => {
+        if (peek()?.type === 'not') {
+            position++;
+            return { type: 'not', operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): SearchQuery => {
+        const token = tokens[position++];
+        if (!token) throw new Error('Query ends unexpectedly.');
+        if (token.type === 'open') {
+            const inner = parseOr();
+            if (tokens[position++]?.type !== 'close') throw new Error('Missing closing parenthesis.');
+            return inner;
+        }
+        if (token.type === 'phrase') {
+            const words = toWords(token.value);
+            if (words.length === 0) throw new Error(`"${token.value}" has nothing to search for.`);
+            return words.length === 1 ? { type: 'word', value: words[0], prefix: false } : { type: 'phrase', words };
+        }
+        if (token.type === 'word') {
+            const prefix = token.value.endsWith('*');
+            const words = toWords(token.value);
+            if (words.length === 0) throw new Error(`"${token.value}" has nothing to search for.`);
+            // "node.js/express" style input is treated as a phrase of its words
+            return words.length === 1 ? { type: 'word', value: words[0], prefix } : { type: 'phrase', words };
+        }
+        throw new Error(`Unexpected ${token.type === 'close' ? '")"' : token.type.toUpperCase()}.`);
+    };
+
+    try {
+        const query = parseOr();
+        if (position < tokens.length) throw new Error('Unexpected ")".');
+        return { query };
+    } catch (error) {
+        return { query: null, error: error instanceof Error ? error.message : String(error) };
+    }
+};
+
+// --- Evaluation ---
+
+const lookupWord = (index: SearchIndex, word: string, prefix: boolean): Map<string, number[]> => {
+    if (!prefix) return index.postings.get(word) ?? new Map();
+    const merged = new Map<string, number[]>();
+    index.postings.forEach((byCandidate, key) => {
+        if (!key.startsWith(word)) return;
+        byCandidate.forEach((positions, id) => merged.set(id, [...(merged.get(id) ?? []), ...positions]));
+    });
+    return merged;
+};
+
+const matchPhrase = (index: SearchIndex, words: string[]): Set<string> => {
+    const lists = words.map(word => index.postings.get(word) ?? new Map<string, number[]>());
+    const result = new Set<string>();
+    lists[0].forEach((starts, id) => {
+        const following = lists.slice(1).map(list => new Set(list.get(id) ?? []));
+        if (following.some(set => set.size === 0)) return;
+        if (starts.some(start => following.every((set, offset) => set.has(start + offset + 1)))) {
+            result.add(id);
+        }
+    });
+    return result;
+};
+
+/** Ids of the candidates whose resume text satisfies the query. */
+export const searchCandidates = (index: SearchIndex, query: SearchQuery): Set<string> => {
+    switch (query.type) {
+        case 'word':
+            return new Set(lookupWord(index, query.value, query.prefix).keys());
+        case 'phrase':
+            return matchPhrase(index, query.words);
+        case 'not': {
+            const excluded = searchCandidates(index, query.operand);
+            return new Set(Array.from(index.candidateIds).filter(id => !excluded.has(id)));
+        }
+        case 'and': {
+            const right = searchCandidates(index, query.right);
+            return new Set(Array.from(searchCandidates(index, query.left)).filter(id => right.has(id)));
+        }
+        case 'or':
+            return new Set([...searchCandidates(index, query.left), ...searchCandidates(index, query.right)]);
+    }
+};
+
+// --- Highlighting ---
+
+/** Words and phrases the query looks for, skipping anything under NOT. */
+const getPositiveTerms = (query: SearchQuery): { words: string[]; prefix: boolean }[] => {
+    switch (query.type) {
+        case 'word':
+            return [{ words: [query.value], prefix: query.prefix }];
+        case 'phrase':
+            return [{ words: query.words, prefix: false }];
+        case 'not':
+            return [];
+        default:
+            return [...getPositiveTerms(query.left), ...getPositiveTerms(query.right)];
+    }
+};
+
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Short excerpts of `text` around the first few matches, split into segments so the
+ * matched words can be highlighted.
+ */
+export const getSearchSnippets = (text: string, query: SearchQuery, maxSnippets = 2): SnippetSegment[][] => {
+    const terms = getPositiveTerms(query);
+    if (!text || terms.length === 0) return [];
+    const alternatives = terms.map(({ words, prefix }) =>
+        words.map(escapeRegExp).join('[^a-z0-9+#]+') + (prefix ? '[a-z0-9+#.]*' : ''));
+    const pattern = new RegExp(`(?<![a-z0-9])(?:${alternatives.join('|')})(?![a-z0-9+#])`, 'gi');
+
+    const matches: { start: number; end: number }[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        matches.push({ start: match.index, end: match.index + match[0].length });
+        if (match[0].length === 0) pattern.lastIndex++;
+    }
+
+    // Group matches that fall in the same window into one snippet
+    const windows: { start: number; end: number; matches: { start: number; end: number }[] }[] = [];
+    matches.forEach(m => {
+        const last = windows[windows.length - 1];
+        if (last && m.start <= last.end) {
+            last.end = Math.min(text.length, Math.max(last.end, m.end + SNIPPET_CONTEXT));
+            last.matches.push(m);
+        } else if (windows.length < maxSnippets) {
+            windows.push({ start: Math.max(0, m.start - SNIPPET_CONTEXT), end: Math.min(text.length, m.end + SNIPPET_CONTEXT), matches: [m] });
+        }
+    });
+
+    return windows.map(window => {
+        const segments: SnippetSegment[] = [];
+        let cursor = window.start;
+        const push = (end: number, isMatch: boolean) => {
+            if (end > cursor) segments.push({ text: text.slice(cursor, end).replace(/\s+/g, ' '), isMatch });
+            cursor = end;
+        };
+        if (window.start > 0) segments.push({ text: '…', isMatch: false });
+        window.matches.forEach(m => {
+            push(m.start, false);
+            push(m.end, true);
+        });
+        push(window.end, false);
+        if (window.end < text.length) segments.push({ text: '…', isMatch: false });
+        return segments;
+    });
+};
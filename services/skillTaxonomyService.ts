@@ -0,0 +1,194 @@
+import type { Candidate } from '../types';
+
+/**
+ * Canonical skill dictionary. Model output like "ReactJS", "React.js" and "react" is mapped
+ * to one canonical name through aliases, every skill has a category, and parent links let
+ * "Spring Boot" imply "Java" for filtering and matching. Recruiter edits are stored locally
+ * and replace the built-in dictionary.
+ */
+
+export type SkillCategory = 'language' | 'framework' | 'cloud' | 'database' | 'tool' | 'soft' | 'other';
+
+export interface SkillDefinition {
+    name: string;
+    category: SkillCategory;
+    aliases: string[];
+    // Canonical names this skill implies, e.g. Spring Boot -> Java
+    parents: string[];
+}
+
+export const SKILL_CATEGORIES: { id: SkillCategory; label: string }[] = [
+    { id: 'language', label: 'Language' },
+    { id: 'framework', label: 'Framework / Library' },
+    { id: 'cloud', label: 'Cloud' },
+    { id: 'database', label: 'Database' },
+    { id: 'tool', label: 'Tool / Platform' },
+    { id: 'soft', label: 'Soft Skill' },
+    { id: 'other', label: 'Other' },
+];
+
+const TAXONOMY_STORAGE_KEY = 'skillTaxonomy';
+
+const skill = (name: string, category: SkillCategory, aliases: string[] = [], parents: string[] = []): SkillDefinition => ({
+    name, category, aliases, parents,
+});
+
+export const DEFAULT_SKILL_TAXONOMY: SkillDefinition[] = [
+    skill('JavaScript', 'language', ['JS', 'ECMAScript', 'ES6']),
+    skill('TypeScript', 'language', ['TS'], ['JavaScript']),
+    skill('Java', 'language', ['Core Java', 'J2EE', 'Java EE']),
+    skill('Python', 'language', ['Python3', 'Python 3']),
+    skill('C#', 'language', ['CSharp', 'C Sharp']),
+    skill('C++', 'language', ['CPP']),
+    skill('Go', 'language', ['Golang']),
+    skill('Kotlin', 'language'),
+    skill('PHP', 'language'),
+    skill('Ruby', 'language'),
+    skill('SQL', 'language'),
+    skill('HTML', 'language', ['HTML5']),
+    skill('CSS', 'language', ['CSS3']),
+    skill('React', 'framework', ['ReactJS', 'React.js', 'React JS'], ['JavaScript']),
+    skill('React Native', 'framework', [], ['React']),
+    skill('Angular', 'framework', ['AngularJS', 'Angular.js'], ['TypeScript']),
+    skill('Vue.js', 'framework', ['Vue', 'VueJS'], ['JavaScript']),
+    skill('Next.js', 'framework', ['NextJS'], ['React']),
+    skill('Node.js', 'framework', ['Node', 'NodeJS'], ['JavaScript']),
+    skill('Express', 'framework', ['Express.js', 'ExpressJS'], ['Node.js']),
+    skill('Spring Boot', 'framework', ['SpringBoot'], ['Spring']),
+    skill('Spring', 'framework', ['Spring Framework', 'Spring MVC'], ['Java']),
+    skill('Hibernate', 'framework', [], ['Java']),
+    skill('Django', 'framework', [], ['Python']),
+    skill('Flask', 'framework', [], ['Python']),
+    skill('FastAPI', 'framework', [], ['Python']),
+    skill('.NET', 'framework', ['DotNet', 'ASP.NET', '.NET Core', 'ASP.NET Core'], ['C#']),
+    skill('Tailwind CSS', 'framework', ['Tailwind', 'TailwindCSS'], ['CSS']),
+    skill('Redux', 'framework', [], ['React']),
+    skill('TensorFlow', 'framework', [], ['Python']),
+    skill('PyTorch', 'framework', [], ['Python']),
+    skill('AWS', 'cloud', ['Amazon Web Services']),
+    skill('Azure', 'cloud', ['Microsoft Azure']),
+    skill('GCP', 'cloud', ['Google Cloud', 'Google Cloud Platform']),
+    skill('MySQL', 'database', [], ['SQL']),
+    skill('PostgreSQL', 'database', ['Postgres'], ['SQL']),
+    skill('Oracle', 'database', ['Oracle DB'], ['SQL']),
+    skill('SQL Server', 'database', ['MSSQL', 'MS SQL Server'], ['SQL']),
+    skill('MongoDB', 'database', ['Mongo']),
+    skill('Redis', 'database'),
+    skill('Docker', 'tool'),
+    skill('Kubernetes', 'tool', ['K8s']),
+    skill('Terraform', 'tool'),
+    skill('Jenkins', 'tool'),
+    skill('Git', 'tool', ['GitHub', 'GitLab']),
+    skill('CI/CD', 'tool', ['CICD', 'Continuous Integration']),
+    skill('Kafka', 'tool', ['Apache Kafka']),
+    skill('REST APIs', 'tool', ['REST', 'RESTful APIs', 'REST API']),
+    skill('GraphQL', 'tool'),
+    skill('Microservices', 'tool', ['Microservice Architecture']),
+    skill('Machine Learning', 'other', ['ML']),
+    skill('Agile', 'other', ['Scrum']),
+    skill('Communication', 'soft', ['Communication Skills', 'Verbal Communication']),
+    skill('Teamwork', 'soft', ['Team Player', 'Collaboration']),
+    skill('Leadership', 'soft', ['Team Leadership', 'Team Management']),
+    skill('Problem Solving', 'soft', ['Problem-Solving', 'Analytical Skills']),
+];
+
+/** Case, spacing and punctuation insensitive key; keeps + and # so C++ and C# stay distinct. */
+const toKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9+#]/g, '');
+
+export interface SkillIndex {
+    byKey: Map<string, SkillDefinition>;
+}
+
+export const buildSkillIndex = (taxonomy: SkillDefinition[]): SkillIndex => {
+    const byKey = new Map<string, SkillDefinition>();
+    taxonomy.forEach(definition => {
+        [definition.name, ...definition.aliases].forEach(name => {
+            const key = toKey(name);
+            // The first definition to claim a name wins
+            if (key && !byKey.has(key)) byKey.set(key, definition);
+        });
+    });
+    return { byKey };
+};
+
+export const findSkill = (name: string, index: SkillIndex): SkillDefinition | undefined => {
+    return index.byKey.get(toKey(name));
+};
+
+/** Canonical name for a skill, or the trimmed input when it isn't in the dictionary. */
+export const canonicalizeSkill = (name: string, index: SkillIndex): string => {
+    return findSkill(name, index)?.name ?? name.trim();
+};
+
+/** Maps skills to canonical names, dropping duplicates and blanks while keeping order. */
+export const canonicalizeSkills = (skills: string[], index: SkillIndex): string[] => {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    skills.forEach(name => {
+        const canonical = canonicalizeSkill(name, index);
+        const key = toKey(canonical);
+        if (!key || seen.has(key)) return;
+        seen.add(key);
+        result.push(canonical);
+    });
+    return result;
+};
+
+/** Skills implied through parent links (transitively) that aren't already listed. */
+export const getImpliedSkills = (skills: string[], index: SkillIndex): string[] => {
+    const listed = new Set(skills.map(toKey));
+    const implied: string[] = [];
+    const visit = (name: string) => {
+        findSkill(name, index)?.parents.forEach(parent => {
+            const key = toKey(parent);
+            if (listed.has(key)) return;
+            listed.add(key);
+            implied.push(canonicalizeSkill(parent, index));
+            visit(parent);
+        });
+    };
+    skills.forEach(visit);
+    return implied;
+};
+
+/** The candidate's own skills followed by everything they imply. */
+export const expandSkills = (skills: string[], index: SkillIndex): string[] => {
+    return [...skills, ...getImpliedSkills(skills, index)];
+};
+
+/** Skills used by candidates that the dictionary doesn't know, most common first. */
+export const getUnknownSkills = (candidates: Candidate[], index: SkillIndex): { name: string; count: number }[] => {
+    const counts = new Map<string, { name: string; count: number }>();
+    candidates.forEach(candidate => {
+        (candidate.skills ?? []).forEach(name => {
+            if (findSkill(name, index)) return;
+            const key = toKey(name);
+            if (!key) return;
+            const entry = counts.get(key) ?? { name, count: 0 };
+            entry.count++;
+            counts.set(key, entry);
+        });
+    });
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+/** Adds `alias` to the definition named `canonicalName`. */
+export const addSkillAlias = (taxonomy: SkillDefinition[], canonicalName: string, alias: string): SkillDefinition[] => {
+    return taxonomy.map(definition => definition.name === canonicalName
+        ? { ...definition, aliases: [...definition.aliases, alias.trim()] }
+        : definition);
+};
+
+export const loadSkillTaxonomy = (): SkillDefinition[] => {
+    if (typeof window === 'undefined' || !window.localStorage) return DEFAULT_SKILL_TAXONOMY;
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(TAXONOMY_STORAGE_KEY) || 'null');
+        return Array.isArray(stored) ? stored : DEFAULT_SKILL_TAXONOMY;
+    } catch {
+        return DEFAULT_SKILL_TAXONOMY;
+    }
+};
+
+export const saveSkillTaxonomy = (taxonomy: SkillDefinition[]) => {
+    window.localStorage.setItem(TAXONOMY_STORAGE_KEY, JSON.stringify(taxonomy));
+};
@@ -0,0 +1,363 @@
+import type { Candidate, FileStatus, JobRequisition, SortConfig } from '../types';
+import { parseCompensation } from './compensationService';
+import { parseNoticePeriod } from './noticePeriodService';
+import { LEGACY_REQUISITION_ID } from './requisitionService';
+import { SHORTLISTED_STAGE_ID } from './pipelineService';
+
+const DB_NAME = 'robocrats-workspace';
+const DB_VERSION = 2;
+
+const CANDIDATES_STORE = 'candidates';
+const FILES_STORE = 'files';
+const FILE_STATUSES_STORE = 'fileStatuses';
+const META_STORE = 'meta';
+const MATCH_CACHE_STORE = 'matchCache';
+
+/**
+ * Version of the persisted Candidate shape. Bump this whenever a Candidate field is
+ * added, renamed or changes type, and add a matching entry to `candidateMigrations`.
+ */
+export const CANDIDATE_SCHEMA_VERSION = 6;
+
+type StoredCandidate = Candidate & { schemaVersion?: number };
+
+interface StoredFile {
+    name: string;
+    type: string;
+    lastModified: number;
+    blob: Blob;
+}
+
+export interface WorkspaceSnapshot {
+    candidates: Candidate[];
+    fileStatuses: Map<string, FileStatus>;
+    fileQueue: File[];
+    selectedIds: Set<string>;
+    sortConfig: SortConfig;
+    requisitions: JobRequisition[];
+    activeRequisitionId: string | null;
+}
+
+// A persisted candidate of any schema version, before migration
+type StoredRecord = Record<string, unknown>;
+
+const isStoredRecord = (value: unknown): value is StoredRecord => typeof value === 'object' && value !== null;
+
+const asText = (value: unknown): string => typeof value === 'string' ? value : '';
+
+/**
+ * Migrations keyed by the version they upgrade FROM. Each one receives a raw record
+ * of that version and returns a record of the next version.
+ */
+const candidateMigrations: Record<number, (record: StoredRecord) => StoredRecord> = {
+    // v0: records saved before versioning kept experience as free text and could miss skills.
+    0: (record) => ({
+        ...record,
+        totalExperience: Number.parseFloat(String(record.totalExperience)) || 0,
+        relevantExperience: Number.parseFloat(String(record.relevantExperience)) || 0,
+        skills: Array.isArray(record.skills) ? record.skills : [],
+    }),
+    // v1: CTC was only kept as free text.
+    1: (record) => ({
+        ...record,
+        currentCompensation: asText(record.currentCTC) ? parseCompensation(asText(record.currentCTC)) : undefined,
+        expectedCompensation: asText(record.expectedCTC) ? parseCompensation(asText(record.expectedCTC)) : undefined,
+    }),
+    // v2: notice period was only kept as free text.
+    2: (record) => ({
+        ...record,
+        notice: asText(record.noticePeriod) ? parseNoticePeriod(asText(record.noticePeriod)) : undefined,
+    }),
+    // v3: the resume text wasn't kept. It can't be recovered here, so these candidates
+    // stay out of full-text search until they are parsed again.
+    3: (record) => ({
+        ...record,
+        rawText: asText(record.rawText),
+    }),
+    // v4: a single match score per candidate, against the workspace's one job description.
+    4: ({ matchScore, matchReason, ...record }) => ({
+        ...record,
+        matchResults: typeof matchScore !== 'number' ? {} : {
+            [LEGACY_REQUISITION_ID]: { matchScore, matchReason: asText(matchReason), analyzedAt: new Date().toISOString() },
+        },
+    }),
+    // v5: shortlisting was a flag for the workspace's one job description, not a stage per requisition.
+    5: ({ isShortlisted, ...record }) => {
+        const pipeline = isStoredRecord(record.pipeline) ? record.pipeline : undefined;
+        return {
+            ...record,
+            pipeline: isShortlisted === true && !pipeline?.[LEGACY_REQUISITION_ID]
+                ? {
+                    ...pipeline,
+                    [LEGACY_REQUISITION_ID]: {
+                        stageId: SHORTLISTED_STAGE_ID,
+                        history: [{ from: null, to: SHORTLISTED_STAGE_ID, changedAt: new Date().toISOString() }],
+                    },
+                }
+                : pipeline,
+        };
+    },
+};
+
+const migrateCandidate = (record: StoredRecord): Candidate => {
+    let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+    let migrated = record;
+    while (version < CANDIDATE_SCHEMA_VERSION) {
+        const migrate = candidateMigrations[version];
+        if (!migrate) {
+            throw new Error(`No migration available for candidate schema version ${version}.`);
+        }
+        migrated = migrate(migrated);
+        version++;
+    }
+    const { schemaVersion, ...candidate } = migrated;
+    // Every migration up to the current version has run, so the record has today's shape
+    return candidate as unknown as Candidate;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Storage transaction was aborted.'));
+    });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the workspace database.
+ * The connection is memoized so every call shares the same handle.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            // Fall through so a fresh install runs every upgrade step in order.
+            switch (event.oldVersion) {
+                case 0:
+                    db.createObjectStore(CANDIDATES_STORE, { keyPath: 'id' });
+                    db.createObjectStore(FILES_STORE, { keyPath: 'name' });
+                    db.createObjectStore(FILE_STATUSES_STORE);
+                    db.createObjectStore(META_STORE);
+                case 1:
+                    db.createObjectStore(MATCH_CACHE_STORE);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed (e.g. private browsing restrictions).
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+const replaceStoreContents = async <T>(storeName: string, entries: Array<{ key?: IDBValidKey; value: T }>) => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    store.clear();
+    for (const { key, value } of entries) {
+        if (key === undefined) {
+            store.put(value);
+        } else {
+            store.put(value, key);
+        }
+    }
+    await transactionDone(tx);
+};
+
+const getMeta = async <T>(db: IDBDatabase, key: string): Promise<T | undefined> => {
+    const tx = db.transaction(META_STORE, 'readonly');
+    return requestToPromise<T | undefined>(tx.objectStore(META_STORE).get(key));
+};
+
+export const saveCandidates = (candidates: Candidate[]): Promise<void> => {
+    return replaceStoreContents<StoredCandidate>(
+        CANDIDATES_STORE,
+        candidates.map(c => ({ value: { ...c, schemaVersion: CANDIDATE_SCHEMA_VERSION } }))
+    );
+};
+
+export const saveFileStatuses = (statuses: Map<string, FileStatus>): Promise<void> => {
+    return replaceStoreContents<FileStatus>(
+        FILE_STATUSES_STORE,
+        Array.from(statuses.entries()).map(([fileName, status]) => ({ key: fileName, value: status }))
+    );
+};
+
+/**
+ * Stores the original uploaded files so they survive a reload and can be re-parsed or previewed.
+ */
+export const saveFiles = async (files: File[]): Promise<void> => {
+    if (files.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(FILES_STORE, 'readwrite');
+    const store = tx.objectStore(FILES_STORE);
+    for (const file of files) {
+        const record: StoredFile = { name: file.name, type: file.type, lastModified: file.lastModified, blob: file };
+        store.put(record);
+    }
+    await transactionDone(tx);
+};
+
+export const getStoredFile = async (fileName: string): Promise<File | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction(FILES_STORE, 'readonly');
+    const record = await requestToPromise<StoredFile | undefined>(tx.objectStore(FILES_STORE).get(fileName));
+    if (!record) return null;
+    return new File([record.blob], record.name, { type: record.type, lastModified: record.lastModified });
+};
+
+/**
+ * Removes stored uploads that nothing refers to any more, such as a file taken off the
+ * queue before it was parsed.
+ */
+export const deleteStoredFiles = async (fileNames: string[]): Promise<void> => {
+    if (fileNames.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(FILES_STORE, 'readwrite');
+    const store = tx.objectStore(FILES_STORE);
+    fileNames.forEach(name => store.delete(name));
+    await transactionDone(tx);
+};
+
+/**
+ * Source files of removed candidates that no remaining candidate lists as a source, such
+ * as one kept by a merge. Their stored uploads and upload statuses can go.
+ */
+export const getOrphanedFileNames = (removed: Candidate[], remaining: Candidate[]): string[] => {
+    const sourceFiles = (c: Candidate) => [c.fileName, ...(c.mergedFileNames ?? [])];
+    const stillUsed = new Set(remaining.flatMap(sourceFiles));
+    return Array.from(new Set(removed.flatMap(sourceFiles))).filter(name => !stillUsed.has(name));
+};
+
+export const saveMeta = async (key: string, value: unknown): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put(value, key);
+    await transactionDone(tx);
+};
+
+export const getCachedMatch = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDatabase();
+    const tx = db.transaction(MATCH_CACHE_STORE, 'readonly');
+    return requestToPromise<T | undefined>(tx.objectStore(MATCH_CACHE_STORE).get(key));
+};
+
+export const saveCachedMatch = async (key: string, value: unknown): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(MATCH_CACHE_STORE, 'readwrite');
+    tx.objectStore(MATCH_CACHE_STORE).put(value, key);
+    await transactionDone(tx);
+};
+
+/** Every cached match with its key, for pruning. */
+export const getAllCachedMatches = async <T>(): Promise<Array<{ key: IDBValidKey; value: T }>> => {
+    const db = await openDatabase();
+    const tx = db.transaction(MATCH_CACHE_STORE, 'readonly');
+    const store = tx.objectStore(MATCH_CACHE_STORE);
+    const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise<T[]>(store.getAll()),
+    ]);
+    return keys.map((key, index) => ({ key, value: values[index] }));
+};
+
+export const deleteCachedMatches = async (keys: IDBValidKey[]): Promise<void> => {
+    if (keys.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(MATCH_CACHE_STORE, 'readwrite');
+    const store = tx.objectStore(MATCH_CACHE_STORE);
+    keys.forEach(key => store.delete(key));
+    await transactionDone(tx);
+};
+
+/**
+ * Restores the last saved workspace. Candidates written by an older schema are
+ * migrated on the way out; files that were queued or mid-parse when the page closed
+ * are left in the queue so they get picked up again.
+ */
+export const loadWorkspace = async (): Promise<WorkspaceSnapshot> => {
+    const db = await openDatabase();
+
+    const tx = db.transaction([CANDIDATES_STORE, FILE_STATUSES_STORE], 'readonly');
+    const statusStore = tx.objectStore(FILE_STATUSES_STORE);
+    const [storedCandidates, statusKeys, statusValues] = await Promise.all([
+        requestToPromise<unknown[]>(tx.objectStore(CANDIDATES_STORE).getAll()),
+        requestToPromise(statusStore.getAllKeys()),
+        requestToPromise<FileStatus[]>(statusStore.getAll()),
+    ]);
+
+    const storedStatuses = new Map<string, FileStatus>();
+    const fileStatuses = new Map<string, FileStatus>();
+    statusKeys.forEach((key, index) => {
+        const status = statusValues[index];
+        storedStatuses.set(String(key), status);
+        if (status.status !== 'parsing' && status.status !== 'queued') {
+            fileStatuses.set(String(key), status);
+        }
+    });
+
+    const queuedNames = (await getMeta<string[]>(db, 'fileQueue')) ?? [];
+    const fileQueue: File[] = [];
+    for (const name of queuedNames) {
+        const file = await getStoredFile(name);
+        if (file) {
+            fileQueue.push(file);
+            fileStatuses.set(name, { status: 'queued', progress: 0, hash: storedStatuses.get(name)?.hash });
+        }
+    }
+
+    const candidates = storedCandidates.filter(isStoredRecord).map(migrateCandidate);
+    const knownIds = new Set(candidates.map(c => c.id));
+    const selectedIds = new Set(((await getMeta<string[]>(db, 'selectedIds')) ?? []).filter(id => knownIds.has(id)));
+
+    // Workspaces saved before requisitions existed had one job description
+    let requisitions = await getMeta<JobRequisition[]>(db, 'requisitions');
+    if (!requisitions) {
+        const jobDescription = (await getMeta<string>(db, 'jobDescription')) ?? '';
+        const hasLegacyScores = candidates.some(c => c.matchResults?.[LEGACY_REQUISITION_ID]);
+        requisitions = jobDescription.trim() || hasLegacyScores
+            ? [{ id: LEGACY_REQUISITION_ID, title: 'Job Description', jobDescription, createdAt: new Date().toISOString() }]
+            : [];
+    }
+    const storedActiveId = await getMeta<string>(db, 'activeRequisitionId');
+    const activeRequisitionId = requisitions.some(r => r.id === storedActiveId) ? storedActiveId! : requisitions[0]?.id ?? null;
+
+    return {
+        candidates,
+        fileStatuses,
+        fileQueue,
+        selectedIds,
+        sortConfig: (await getMeta<SortConfig>(db, 'sortConfig')) ?? { key: null, direction: 'ascending' },
+        requisitions,
+        activeRequisitionId,
+    };
+};
+
+/**
+ * Permanently removes every candidate, stored file and setting in the workspace.
+ */
+export const deleteWorkspace = async (): Promise<void> => {
+    const db = await openDatabase();
+    const storeNames = [CANDIDATES_STORE, FILES_STORE, FILE_STATUSES_STORE, META_STORE, MATCH_CACHE_STORE];
+    const tx = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(name => tx.objectStore(name).clear());
+    await transactionDone(tx);
+};
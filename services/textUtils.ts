@@ -0,0 +1,17 @@
+/**
+ * Small helpers shared by the services: record ids and escaping text for regular
+ * expressions and generated HTML documents.
+ */
+
+/** A random id for new records; falls back where `crypto.randomUUID` is unavailable (plain HTTP). */
+export const newId = (): string => typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : Date.now().toString(36) + Math.random().toString(36).slice(2);
+
+export const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const escapeHtml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
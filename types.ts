@@ -1,4 +1,212 @@
 
+/**
+ * How the resume content was turned into model input:
+ * - `pdf-text`: every page came from the PDF text layer
+ * - `pdf-image`: no usable text layer, every page was rendered to an image
+ * - `pdf-mixed`: text layer where available, images for the remaining pages
+ * - `image`: the uploaded file was an image
+ * - `docx-text`: raw text extracted from a Word document
+ */
+export type ExtractionMethod = 'pdf-text' | 'pdf-image' | 'pdf-mixed' | 'image' | 'docx-text';
+
+export interface ExtractionInfo {
+  method: ExtractionMethod;
+  textPages?: number[];
+  imagePages?: number[];
+}
+
+/** How sure the extractor is about a value: stated verbatim, derived from other text, or guessed. */
+export type FieldConfidence = 'high' | 'medium' | 'low';
+
+export interface FieldEvidence {
+  confidence: FieldConfidence;
+  // Verbatim resume text the value was taken from (or how it was derived); empty when nothing in the resume supports it
+  source: string;
+}
+
+/** One role in the employment timeline. Dates are "YYYY-MM" (or "YYYY" when only the year is known). */
+export interface EmploymentEntry {
+  company: string;
+  title: string;
+  startDate: string;
+  endDate: string; // "Present" for the current role
+  location: string;
+  highlights: string[];
+}
+
+export interface EducationEntry {
+  degree: string;
+  field: string;
+  institution: string;
+  year: string;
+}
+
+// Extracted fields that carry confidence and source evidence
+export type EvidenceField =
+  | 'fullName' | 'email' | 'mobile' | 'dob' | 'currentCompany' | 'designation'
+  | 'totalExperience' | 'relevantExperience' | 'currentCTC' | 'expectedCTC'
+  | 'noticePeriod' | 'highestQualification' | 'educationField' | 'currentLocation';
+
+// Extracted fields a recruiter can correct by hand
+export type EditableField = EvidenceField | 'skills';
+
+export type EditableValue = string | number | string[];
+
+/** One manual correction; the first edit of a field keeps the value the AI extracted. */
+export interface FieldEdit {
+  field: EditableField;
+  previousValue: EditableValue;
+  newValue: EditableValue;
+  editedAt: string; // ISO timestamp
+}
+
+export type CompensationPeriod = 'annual' | 'monthly' | 'hourly';
+
+/**
+ * CTC parsed from the text the resume states. Amounts are absolute units of `currency`
+ * per `period` (e.g. "1.2 Cr" is 12000000 INR annual); null when no number was found.
+ */
+export interface Compensation {
+  amount: number | null;
+  currency: string; // ISO 4217 code
+  period: CompensationPeriod;
+  fixed?: number;
+  variable?: number;
+}
+
+/** Structured requirements parsed from a job description and corrected by the recruiter. */
+export interface JobRequirements {
+  mustHaveSkills: string[];
+  niceToHaveSkills: string[];
+  minExperience: number | null; // years
+  maxExperience: number | null;
+  // Any of these is acceptable; empty means no constraint
+  locations: string[];
+  qualifications: string[];
+  // Free text like "25 LPA", read the same way as a candidate's CTC
+  ctcBudget: string;
+}
+
+// Badge colours shared by pipeline stages and candidate tags
+export type LabelColor = 'slate' | 'sky' | 'indigo' | 'violet' | 'amber' | 'emerald' | 'rose';
+
+/** A step of the hiring pipeline; recruiters can rename, add, remove and reorder them. */
+export interface PipelineStage {
+  id: string;
+  label: string;
+  color: LabelColor;
+  // Moving a candidate here asks why, e.g. Rejected
+  requiresReason?: boolean;
+}
+
+export interface StageChange {
+  from: string | null; // stage id, null for the first move
+  to: string;
+  reason?: string;
+  changedAt: string; // ISO timestamp
+}
+
+/** Where a candidate stands in one requisition's pipeline. */
+export interface PipelineStatus {
+  stageId: string;
+  reason?: string;
+  history: StageChange[];
+}
+
+/** A recruiter-defined tag such as "referral"; candidates refer to tags by name. */
+export interface TagDefinition {
+  name: string;
+  color: LabelColor;
+}
+
+export interface CandidateNote {
+  id: string;
+  text: string;
+  createdAt: string; // ISO timestamp
+}
+
+// Skill questions probe what the resume claims; gap questions probe what the match analysis found missing
+export type InterviewQuestionCategory = 'skill' | 'gap';
+
+export interface InterviewQuestion {
+  id: string;
+  category: InterviewQuestionCategory;
+  topic: string; // the skill or gap the question is about
+  question: string;
+  // What a strong answer covers, for the interviewer
+  expectedAnswer: string;
+}
+
+/** Interview questions generated for one candidate against one requisition, editable afterwards. */
+export interface InterviewKit {
+  questions: InterviewQuestion[];
+  generatedAt: string; // ISO timestamp
+  aiProvider?: string;
+  aiModel?: string;
+  editedAt?: string; // set once a recruiter changes a question
+}
+
+/** A reusable outreach email; subject and body may contain {{mergeField}} placeholders. */
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+}
+
+/** Live progress of a match analysis run. */
+export interface MatchAnalysisProgress {
+  total: number;
+  // Includes candidates answered from the cache and ones that failed
+  done: number;
+  cached: number;
+  failed: number;
+  startedAt: number; // epoch ms
+}
+
+/** A named job opening candidates are matched against. */
+export interface JobRequisition {
+  id: string;
+  title: string;
+  jobDescription: string;
+  createdAt: string; // ISO timestamp
+  requirements?: JobRequirements;
+}
+
+/** A candidate's match result against one requisition. */
+export interface RequisitionMatch {
+  matchScore: number;
+  matchReason: string;
+  analyzedAt: string; // ISO timestamp
+}
+
+export type ScoreComponentId = 'skills' | 'experience' | 'location' | 'notice' | 'budget' | 'ai';
+
+/** One weighted part of a candidate's final match score. */
+export interface ScoreComponent {
+  id: ScoreComponentId;
+  label: string;
+  // 0–100, or null when there is nothing to judge (no requirement set or data missing)
+  score: number | null;
+  // Share of the final score after weights of unscored parts are redistributed, 0–1
+  weight: number;
+  detail: string;
+}
+
+/** How the final match score was put together from the deterministic sub-scores and the AI score. */
+export interface ScoreBreakdown {
+  finalScore: number;
+  aiScore?: number;
+  components: ScoreComponent[];
+}
+
+/** Notice period normalized from the free text in `noticePeriod`. */
+export interface NoticePeriod {
+  days: number | null; // null when the text has no usable duration
+  lastWorkingDay?: string; // YYYY-MM-DD
+  isServingNotice: boolean;
+}
+
 export interface Candidate {
   id: string;
   fullName: string;
@@ -12,19 +220,62 @@ export interface Candidate {
   skills: string[];
   currentCTC: string;
   expectedCTC: string;
+  // Structured forms of currentCTC / expectedCTC, which keep the original text
+  currentCompensation?: Compensation;
+  expectedCompensation?: Compensation;
   noticePeriod: string;
+  notice?: NoticePeriod;
   highestQualification: string;
   educationField: string;
   currentLocation: string;
+  employmentHistory?: EmploymentEntry[];
+  educationHistory?: EducationEntry[];
   fileName: string;
-  // New fields for Job Description Analysis
+  // Match against the active requisition; derived from `matchResults` for display and never stored
   matchScore?: number;
   matchReason?: string;
+  // Deterministic sub-scores combined with the AI score into `matchScore`; derived, never stored
+  scoreBreakdown?: ScoreBreakdown;
+  // Match results keyed by requisition id
+  matchResults?: Record<string, RequisitionMatch>;
+  // Whether the active requisition's stage is Shortlisted; derived, never stored.
+  // Older records kept it as a flag, which storage migrates into the legacy pipeline.
   isShortlisted?: boolean;
+  // Pipeline position keyed by requisition id
+  pipeline?: Record<string, PipelineStatus>;
+  // Stage id in the active requisition's pipeline; derived, never stored
+  pipelineStage?: string;
+  // Recruiter's own annotations, shared across requisitions
+  notes?: CandidateNote[];
+  tags?: string[];
+  rating?: number; // 1-5 stars
+  // Interview kits keyed by requisition id
+  interviewKits?: Record<string, InterviewKit>;
+  // Which AI provider/model produced this record
+  aiProvider?: string;
+  aiModel?: string;
+  extraction?: ExtractionInfo;
+  evidence?: Partial<Record<EvidenceField, FieldEvidence>>;
+  editHistory?: FieldEdit[];
+  // Source files of records merged into this one as duplicates of the same person
+  mergedFileNames?: string[];
+  // Ids of candidates a recruiter confirmed are NOT the same person
+  notDuplicateOf?: string[];
+  // Text the parser read from the resume (text layer, DOCX text or transcribed scans), for full-text search
+  rawText?: string;
+}
+
+export interface SortConfig {
+  key: keyof Candidate | null;
+  direction: 'ascending' | 'descending';
 }
 
 export interface FileStatus {
-  status: 'parsing' | 'success' | 'error';
+  status: 'queued' | 'parsing' | 'success' | 'error' | 'cancelled';
   progress: number;
   error?: string;
+  // Set while a failed attempt is waiting to be retried by the scheduler
+  retryAttempt?: number;
+  // SHA-256 of the file contents, used to skip exact duplicate uploads
+  hash?: string;
 }